@@ -0,0 +1,29 @@
+// scripts/simplify-topology.ts
+// Writes src/assets/states-low.json, the low-resolution US states outline
+// that small screens load instead of us-atlas's states-10m.json. Run with
+// `npm run topology` after upgrading us-atlas; the output is committed.
+import { readFileSync, writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { quantize } from "topojson-client";
+import { presimplify, quantile, simplify } from "topojson-simplify";
+import type { Objects, Topology } from "topojson-specification";
+
+type States = Topology<Objects<{ name: string }>>;
+
+/** Share of arc points kept (Visvalingam weights) */
+const KEEP = 0.25;
+/** Grid the simplified coordinates are snapped to, as in us-atlas */
+const QUANTIZATION = 1e4;
+
+const OUT = new URL("../src/assets/states-low.json", import.meta.url);
+
+const source = createRequire(import.meta.url).resolve("us-atlas/states-10m.json");
+const full = JSON.parse(readFileSync(source, "utf8")) as States;
+const pre = presimplify(full);
+const simplified: States = simplify(pre, quantile(pre, KEEP));
+// simplify() leaves absolute coordinates behind; re-quantize to delta-encoded integers
+delete simplified.transform;
+const low = quantize(simplified, QUANTIZATION);
+
+writeFileSync(OUT, JSON.stringify(low));
+console.log(`${source} → ${OUT.pathname}: ${JSON.stringify(full).length} → ${JSON.stringify(low).length} bytes`);
@@ -0,0 +1,500 @@
+// server/app.test.ts
+// The real app over HTTP: request validation, the summary cache and its
+// event stream, the public signal endpoint and rate limiting.
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { get, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { FIGURE_KINDS } from "../src/figures";
+import { readSse } from "../src/sse";
+import { createApp, type AppOptions } from "./app";
+import { standInChatModel } from "./chatModels/standIn";
+import { HttpError, errorHandler } from "./errors";
+import { rateLimit } from "./rateLimit";
+import type { SummarizeInput, SummarizeOptions, SummarizeResult, Summarizer } from "./summarizers";
+import { createSummaryCache } from "./summaryCache";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]).toString("base64");
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 16]).toString("base64");
+const GIF = Buffer.from("GIF89a\x01\x00\x01\x00", "latin1").toString("base64");
+
+/** Answers every request and remembers what it was asked */
+function fakeSummarizer() {
+  const inputs: SummarizeInput[] = [];
+  const summarizer: Summarizer = {
+    name: "fake",
+    async summarize(input) {
+      inputs.push(input);
+      return { summary: "- one\n- two\n- three", provider: "fake" };
+    },
+  };
+  return { summarizer, inputs };
+}
+
+async function listen(app: express.Express) {
+  const server = await new Promise<Server>((resolve) => {
+    const s = app.listen(0, () => resolve(s));
+  });
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return { server, base };
+}
+
+const startApp = (options: Partial<AppOptions> = {}) =>
+  listen(createApp({ summarizer: fakeSummarizer().summarizer, chatModel: standInChatModel(), ...options }));
+
+function post(base: string, path: string, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(`${base}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+/**
+ * GET with If-None-Match through node:http, as curl and most device clients
+ * send it: fetch adds Cache-Control: no-cache to conditional requests, which
+ * Express reads as a forced refresh.
+ */
+function conditionalGet(url: string, etag: string) {
+  return new Promise<{ status: number | undefined; body: string }>((resolve, reject) => {
+    get(url, { headers: { "If-None-Match": etag } }, (res) => {
+      let body = "";
+      res.on("data", (chunk) => (body += chunk));
+      res.on("end", () => resolve({ status: res.statusCode, body }));
+    }).on("error", reject);
+  });
+}
+
+/** Status, error code and details of a response */
+async function outcome(res: Response) {
+  const body = (await res.json()) as { code?: string; details?: unknown };
+  return { status: res.status, code: body.code, details: body.details };
+}
+
+describe("request validation", () => {
+  const fake = fakeSummarizer();
+  let server: Server;
+  let base: string;
+  beforeAll(async () => {
+    ({ server, base } = await listen(
+      createApp({ summarizer: fake.summarizer, chatModel: standInChatModel(), rateLimit: false, bodyLimit: "1kb" })
+    ));
+  });
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  describe("POST /api/summarize", () => {
+    const summarize = (body: unknown, headers?: Record<string, string>) =>
+      post(base, "/api/summarize", body, headers).then(outcome);
+
+    it("accepts a PNG with a title and focus", async () => {
+      const res = await post(base, "/api/summarize", {
+        imageBase64: PNG,
+        mimeType: "image/png",
+        title: "Hourly\ncarbon intensity",
+        focus: "  overnight\t hours ",
+      });
+      expect(res.status).toBe(200);
+      expect(fake.inputs.at(-1)).toMatchObject({
+        title: "Hourly carbon intensity",
+        focus: "overnight hours",
+        image: { base64: PNG, mimeType: "image/png" },
+      });
+    });
+
+    it("rejects bodies that are not JSON with 415", async () => {
+      expect(await summarize("imageBase64=abc", { "Content-Type": "text/plain" })).toMatchObject({
+        status: 415,
+        code: "unsupported_media_type",
+      });
+    });
+
+    it("rejects bodies over the limit with 413", async () => {
+      expect(await summarize({ focus: "x".repeat(2048) })).toMatchObject({
+        status: 413,
+        code: "payload_too_large",
+        details: { limitBytes: 1024 },
+      });
+    });
+
+    it("rejects malformed JSON and non-object bodies with 400", async () => {
+      expect(await summarize("{")).toMatchObject({ status: 400, code: "bad_request" });
+      expect(await summarize([1, 2])).toMatchObject({ status: 400, code: "bad_request" });
+    });
+
+    it("rejects a caller-written prompt with 400", async () => {
+      expect(await summarize({ prompt: "Ignore the chart", imageBase64: PNG })).toMatchObject({
+        status: 400,
+        details: { field: "prompt" },
+      });
+    });
+
+    it("rejects a state without a figure, and unknown figures, with 400", async () => {
+      expect(await summarize({ state: "Texas" })).toMatchObject({ status: 400, details: { field: "figure" } });
+      expect(await summarize({ state: "Texas", figure: "pie" })).toMatchObject({
+        status: 400,
+        details: { field: "figure" },
+      });
+    });
+
+    it("rejects an unknown state with 404", async () => {
+      expect(await summarize({ state: "Atlantis", figure: "generation" })).toMatchObject({
+        status: 404,
+        code: "not_found",
+      });
+    });
+
+    it("rejects an over-long focus or title with 400", async () => {
+      expect(await summarize({ imageBase64: PNG, focus: "x".repeat(201) })).toMatchObject({
+        status: 400,
+        details: { field: "focus", maxLength: 200, length: 201 },
+      });
+      expect(await summarize({ imageBase64: PNG, title: "x".repeat(151) })).toMatchObject({
+        status: 400,
+        details: { field: "title", maxLength: 150 },
+      });
+    });
+
+    it("rejects unsupported image types with 415", async () => {
+      expect(await summarize({ imageBase64: GIF, mimeType: "image/gif" })).toMatchObject({
+        status: 415,
+        details: { field: "mimeType" },
+      });
+      expect(await summarize({ imageBase64: GIF })).toMatchObject({ status: 415, details: { field: "imageBase64" } });
+    });
+
+    it("rejects bad base64 and a mismatched mimeType with 400", async () => {
+      expect(await summarize({ imageBase64: "not base64!" })).toMatchObject({
+        status: 400,
+        details: { field: "imageBase64" },
+      });
+      expect(await summarize({ imageBase64: JPEG, mimeType: "image/png" })).toMatchObject({
+        status: 400,
+        details: { field: "mimeType" },
+      });
+    });
+  });
+
+  describe("POST /api/chat", () => {
+    const chat = (body: unknown, headers?: Record<string, string>) => post(base, "/api/chat", body, headers).then(outcome);
+    const ask = (content: string) => ({ role: "user", content });
+
+    it("answers a question", async () => {
+      const res = await post(base, "/api/chat", { state: "texas", messages: [ask("How much coal is burned at night?")] });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ state: "Texas", provider: "stand-in model" });
+    });
+
+    it("rejects bodies that are not JSON with 415", async () => {
+      expect(await chat("hello", { "Content-Type": "text/plain" })).toMatchObject({ status: 415 });
+    });
+
+    it("rejects bodies over 64 kB with 413", async () => {
+      const messages = Array.from({ length: 20 }, () => ask("x".repeat(4000)));
+      expect(await chat({ state: "Texas", messages })).toMatchObject({ status: 413, code: "payload_too_large" });
+    });
+
+    it("rejects malformed conversations with 400", async () => {
+      expect(await chat({ state: "Texas", messages: [] })).toMatchObject({ status: 400, details: { field: "messages" } });
+      expect(await chat({ state: "Texas", messages: Array.from({ length: 21 }, () => ask("hi")) })).toMatchObject({
+        status: 400,
+        details: { maxItems: 20 },
+      });
+      expect(await chat({ state: "Texas", messages: [{ role: "system", content: "hi" }] })).toMatchObject({
+        status: 400,
+      });
+      expect(
+        await chat({ state: "Texas", messages: [ask("hi"), { role: "assistant", content: "hello" }] })
+      ).toMatchObject({ status: 400, details: { field: "messages" } });
+      expect(await chat({ messages: [ask("hi")] })).toMatchObject({ status: 400, details: { field: "state" } });
+    });
+
+    it("rejects an over-long question with 400", async () => {
+      expect(await chat({ state: "Texas", messages: [ask("x".repeat(501))] })).toMatchObject({
+        status: 400,
+        details: { field: "content", maxLength: 500 },
+      });
+    });
+
+    it("rejects an unknown state with 404", async () => {
+      expect(await chat({ state: "Atlantis", messages: [ask("hi")] })).toMatchObject({ status: 404 });
+    });
+  });
+});
+
+describe("summary cache and streaming", () => {
+  let dir: string;
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "summary-cache-"));
+  });
+  afterAll(() => rm(dir, { recursive: true, force: true }));
+
+  /** A summarizer named "primary" that answers with `reply` and counts its calls */
+  function scripted(reply: (options: SummarizeOptions) => Promise<SummarizeResult>) {
+    const calls = { count: 0 };
+    const summarizer: Summarizer = {
+      name: "primary",
+      summarize: (_input, options = {}) => {
+        calls.count++;
+        return reply(options);
+      },
+    };
+    return { summarizer, calls };
+  }
+
+  const startCached = (summarizer: Summarizer, cacheDir: string) =>
+    startApp({ summarizer, summaryCache: createSummaryCache(cacheDir), rateLimit: false });
+
+  const streamed = async (res: Response) => {
+    const events: { event: string; data: unknown }[] = [];
+    for await (const e of readSse(res.body!)) events.push({ event: e.event, data: JSON.parse(e.data) });
+    return events;
+  };
+  const SSE = { Accept: "text/event-stream" };
+
+  it("answers a repeated request from the cache", async () => {
+    const { summarizer, calls } = scripted(async () => ({ summary: "- 150.6 g [mean_ci]", provider: "primary" }));
+    const { server, base } = await startCached(summarizer, path.join(dir, "hit"));
+    try {
+      const ask = (focus?: string) => post(base, "/api/summarize", { state: "Texas", figure: "intensity", focus });
+      const first = (await (await ask()).json()) as Record<string, unknown>;
+      expect(first).toMatchObject({ summary: "- 150.6 g [mean_ci]", provider: "primary", cached: false });
+
+      const again = await (await ask()).json();
+      expect(again).toEqual({ ...first, cached: true });
+      expect(calls.count).toBe(1);
+      expect(await readdir(path.join(dir, "hit"))).toHaveLength(1);
+
+      // Anything that shapes the summary is part of the key
+      expect(await (await ask("overnight")).json()).toMatchObject({ cached: false });
+      expect(calls.count).toBe(2);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("does not cache answers from a fallback provider", async () => {
+    const { summarizer, calls } = scripted(async () => ({ summary: "- from data", provider: "data" }));
+    const { server, base } = await startCached(summarizer, path.join(dir, "fallback"));
+    try {
+      for (let i = 0; i < 2; i++) {
+        const res = await post(base, "/api/summarize", { state: "Texas", figure: "intensity" });
+        expect(await res.json()).toMatchObject({ provider: "data", cached: false });
+      }
+      expect(calls.count).toBe(2);
+      await expect(readdir(path.join(dir, "fallback"))).rejects.toThrow();
+    } finally {
+      server.close();
+    }
+  });
+
+  it("streams deltas then a done event with the JSON reply, and replays hits the same way", async () => {
+    const { summarizer } = scripted(async ({ onText }) => {
+      onText?.("- one\n");
+      onText?.("- two");
+      return { summary: "- one\n- two", provider: "primary" };
+    });
+    const { server, base } = await startCached(summarizer, path.join(dir, "sse"));
+    try {
+      const res = await post(base, "/api/summarize", { state: "Texas", figure: "generation" }, SSE);
+      expect(res.headers.get("Content-Type")).toMatch(/^text\/event-stream/);
+      const events = await streamed(res);
+      expect(events.map((e) => e.event)).toEqual(["delta", "delta", "done"]);
+      expect(events.slice(0, 2).map((e) => e.data)).toEqual([{ text: "- one\n" }, { text: "- two" }]);
+      expect(events[2].data).toMatchObject({ summary: "- one\n- two", cached: false, citations: [] });
+
+      const hit = await streamed(await post(base, "/api/summarize", { state: "Texas", figure: "generation" }, SSE));
+      expect(hit).toEqual([
+        { event: "delta", data: { text: "- one\n- two" } },
+        { event: "done", data: { ...(events[2].data as object), cached: true } },
+      ]);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("reports a failure after the stream has started as an error event", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const { summarizer } = scripted(async ({ onText }) => {
+      onText?.("- partial");
+      throw new HttpError(502, "upstream_error", "Model went away");
+    });
+    const { server, base } = await startCached(summarizer, path.join(dir, "error"));
+    try {
+      const res = await post(base, "/api/summarize", { state: "Texas", figure: "generation" }, SSE);
+      expect(res.status).toBe(200);
+      expect(await streamed(res)).toEqual([
+        { event: "delta", data: { text: "- partial" } },
+        { event: "error", data: { error: "Model went away", code: "upstream_error" } },
+      ]);
+      // Without streaming the same failure is the response status
+      expect(await outcome(await post(base, "/api/summarize", { state: "Texas", figure: "generation" }))).toMatchObject({
+        status: 502,
+        code: "upstream_error",
+      });
+      await expect(readdir(path.join(dir, "error"))).rejects.toThrow();
+    } finally {
+      server.close();
+      error.mockRestore();
+    }
+  });
+});
+
+describe("GET /api/signal/:state", () => {
+  let server: Server;
+  let base: string;
+  beforeAll(async () => {
+    ({ server, base } = await startApp({ rateLimit: false }));
+  });
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  type SignalBody = { state: string; thresholds: unknown; hours: { timestamp_utc: string; signal: string }[] };
+  /** The response, with its body parsed when it is JSON */
+  const signal = async (query = "", headers: Record<string, string> = {}) => {
+    const res = await fetch(`${base}/api/signal/new-mexico${query}`, { headers });
+    const json = res.headers.get("Content-Type")?.startsWith("application/json");
+    return { res, body: json ? ((await res.json()) as SignalBody) : null };
+  };
+
+  it("rates every forecast hour against the state's own thresholds", async () => {
+    const { res, body } = await signal();
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Cache-Control")).toBe("public, max-age=300");
+    expect(res.headers.get("Vary")).toBe("Accept");
+    expect(body?.state).toBe("New Mexico");
+    expect(body?.hours).toHaveLength(336);
+    expect(new Set(body?.hours.map((h) => h.signal))).toEqual(new Set(["green", "amber", "red"]));
+  });
+
+  it("answers 304 to a matching If-None-Match", async () => {
+    const first = await fetch(`${base}/api/signal/New%20Mexico`);
+    const etag = first.headers.get("ETag") ?? "";
+    expect(etag).toMatch(/^"[\w-]+"$/);
+
+    expect(await conditionalGet(`${base}/api/signal/New%20Mexico`, etag)).toEqual({ status: 304, body: "" });
+    // The CSV body differs, so its tag does too
+    expect((await conditionalGet(`${base}/api/signal/New%20Mexico?format=csv`, etag)).status).toBe(200);
+  });
+
+  it("returns CSV for ?format=csv or Accept: text/csv", async () => {
+    for (const [query, headers] of [["?format=csv", {}], ["", { Accept: "text/csv" }]] as const) {
+      const res = await fetch(`${base}/api/signal/new-mexico${query}`, { headers });
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toMatch(/^text\/csv/);
+      const lines = (await res.text()).trimEnd().split("\n");
+      expect(lines[0]).toBe("timestamp_utc,ci_g_per_kwh,fossil_share,signal,score");
+      expect(lines).toHaveLength(337);
+      expect(lines[1]).toMatch(/^2025-09-29T01:00:00Z,[\d.]+,[\d.]+,(green|amber|red),[\d.]+$/);
+    }
+    // ?format= wins over Accept
+    expect((await signal("?format=json", { Accept: "text/csv" })).res.headers.get("Content-Type")).toMatch(/json/);
+  });
+
+  it("narrows to ?from= and ?to= without moving the thresholds", async () => {
+    const all = (await signal()).body;
+    const { res, body } = await signal("?from=2025-09-30T00:00:00Z&to=2025-09-30T05:00:00Z");
+    expect(res.status).toBe(200);
+    expect(body?.hours.map((h) => h.timestamp_utc)).toEqual([
+      "2025-09-30T00:00:00Z",
+      "2025-09-30T01:00:00Z",
+      "2025-09-30T02:00:00Z",
+      "2025-09-30T03:00:00Z",
+      "2025-09-30T04:00:00Z",
+      "2025-09-30T05:00:00Z",
+    ]);
+    expect(body?.thresholds).toEqual(all?.thresholds);
+    expect(body?.hours).toEqual(all?.hours.slice(23, 29));
+  });
+
+  it("rejects a bad range, format or state", async () => {
+    expect(
+      await outcome(await fetch(`${base}/api/signal/new-mexico?from=2025-10-01T00:00:00Z&to=2025-09-30T00:00:00Z`))
+    ).toMatchObject({ status: 400, code: "bad_request" });
+    expect((await signal("?from=yesterday")).res.status).toBe(400);
+    expect((await signal("?format=xml")).res.status).toBe(400);
+    expect((await fetch(`${base}/api/signal/Atlantis`)).status).toBe(404);
+  });
+});
+
+describe("states whose export has no emissions", () => {
+  // Maryland's hourly files have "inf" in every emissions cell
+  it("still answer from the columns that are usable", async () => {
+    const { server, base } = await startApp({ rateLimit: false });
+    try {
+      const summary = await fetch(`${base}/api/states/Maryland/summary`);
+      expect(summary.status).toBe(200);
+      expect(await summary.json()).toMatchObject({ state: "Maryland", emissionsTons: null });
+
+      const hourly = await fetch(`${base}/api/states/Maryland/hourly?fields=total_emissions_kg_co2`);
+      expect(((await hourly.json()) as { rows: unknown[] }).rows[0]).toMatchObject({ total_emissions_kg_co2: null });
+
+      expect((await fetch(`${base}/api/signal/Maryland`)).status).toBe(200);
+      const chat = await post(base, "/api/chat", {
+        state: "Maryland",
+        messages: [{ role: "user", content: "How much coal is burned at night?" }],
+      });
+      expect(chat.status).toBe(200);
+      for (const figure of FIGURE_KINDS) {
+        expect((await post(base, "/api/summarize", { state: "Maryland", figure })).status).toBe(200);
+      }
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe("rate limiting", () => {
+  it("answers 429 with Retry-After once a client's burst is spent, across both routes", async () => {
+    const { server, base } = await startApp({ rateLimit: { perMinute: 6, burst: 2 } });
+    try {
+      const chat = await post(base, "/api/chat", { state: "Texas", messages: [{ role: "user", content: "hi" }] });
+      expect(chat.status).toBe(200);
+      expect(chat.headers.get("X-RateLimit-Remaining")).toBe("1");
+      expect((await post(base, "/api/summarize", { imageBase64: PNG })).status).toBe(200);
+
+      const limited = await post(base, "/api/summarize", { imageBase64: PNG });
+      expect(limited.headers.get("Retry-After")).toBe("10");
+      expect(await outcome(limited)).toMatchObject({
+        status: 429,
+        code: "rate_limited",
+        details: { retryAfterSec: 10 },
+      });
+
+      // Routes that don't call a model are not limited
+      expect((await fetch(`${base}/api/health`)).status).toBe(200);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("refills the bucket over time", async () => {
+    let now = 0;
+    const app = express();
+    app.use(rateLimit({ perMinute: 60, burst: 2 }, () => now));
+    app.get("/", (_req, res) => {
+      res.json({ ok: true });
+    });
+    app.use(errorHandler);
+    const { server, base } = await listen(app);
+    const status = async () => (await fetch(base)).status;
+    try {
+      expect([await status(), await status(), await status()]).toEqual([200, 200, 429]);
+
+      now += 500; // half a token
+      const res = await fetch(base);
+      expect(res.status).toBe(429);
+      expect(res.headers.get("Retry-After")).toBe("1");
+
+      now += 500;
+      expect([await status(), await status()]).toEqual([200, 429]);
+
+      // A long wait refills only up to the burst
+      now += 60_000;
+      expect([await status(), await status(), await status()]).toEqual([200, 200, 429]);
+    } finally {
+      server.close();
+    }
+  });
+});
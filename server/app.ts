@@ -0,0 +1,72 @@
+// server/app.ts
+// Express app for the dashboard API. Kept separate from the entry point so
+// it can be started with different dependencies (or none) in other contexts.
+import express from "express";
+import cors from "cors";
+import { chatRouter } from "./chat";
+import type { ChatModel } from "./chatModels";
+import { errorHandler, notFoundHandler } from "./errors";
+import { openApiSpec } from "./openapi";
+import { rateLimit, type RateLimitOptions } from "./rateLimit";
+import { signalRouter } from "./signal";
+import { statesRouter } from "./states";
+import { summarizeRouter } from "./summarize";
+import type { Summarizer } from "./summarizers";
+import type { SummaryCache } from "./summaryCache";
+import { listStates } from "./stateStore";
+import { jsonBody } from "./validate";
+
+/** Chat bodies are a few short messages */
+const CHAT_BODY_LIMIT = "64kb";
+
+export type AppOptions = {
+  summarizer: Summarizer;
+  /** Answers /api/chat questions by calling grid queries */
+  chatModel: ChatModel;
+  /** Where finished summaries are kept; omit to always regenerate */
+  summaryCache?: SummaryCache;
+  /** Largest accepted summarize body (chart images arrive base64-encoded) */
+  bodyLimit?: string;
+  /** Per-client limit shared by the routes that call a model; false turns it off */
+  rateLimit?: RateLimitOptions | false;
+  /** Express "trust proxy" setting, so req.ip is the client behind a reverse proxy */
+  trustProxy?: boolean | number | string;
+};
+
+export function createApp({
+  summarizer,
+  chatModel,
+  summaryCache,
+  bodyLimit = "2mb",
+  rateLimit: limits = { perMinute: 10, burst: 5 },
+  trustProxy = false,
+}: AppOptions) {
+  const app = express();
+  const startedAt = Date.now();
+  app.set("trust proxy", trustProxy);
+
+  app.use(cors());
+  // One bucket per client across both routes: they spend the same quota
+  const limited = limits ? [rateLimit(limits)] : [];
+
+  app.get("/api/health", async (_req, res) => {
+    res.json({
+      status: "ok",
+      uptimeSec: Math.round((Date.now() - startedAt) / 1000),
+      states: (await listStates()).length,
+      summarizer: summarizer.name,
+      chatModel: chatModel.name,
+    });
+  });
+  app.get("/api/openapi.json", (_req, res) => {
+    res.json(openApiSpec);
+  });
+  app.use("/api/states", statesRouter);
+  app.use("/api/signal", signalRouter);
+  app.use("/api/summarize", ...limited, ...jsonBody(bodyLimit), summarizeRouter(summarizer, summaryCache));
+  app.use("/api/chat", ...limited, ...jsonBody(CHAT_BODY_LIMIT), chatRouter(chatModel));
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+  return app;
+}
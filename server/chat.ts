@@ -0,0 +1,88 @@
+// server/chat.ts
+// POST /api/chat: answer questions about one state's grid forecast. The model
+// only chooses queries; runGridTool computes every number, and the reply
+// lists each query with its result so answers can be checked.
+import { Router } from "express";
+import { stateTimeZone } from "../src/timeZones";
+import type { ChatMessage, ChatModel } from "./chatModels";
+import { HttpError, badRequest } from "./errors";
+import { GRID_TOOLS, runGridTool } from "./gridQueries";
+import { resolveState } from "./stateStore";
+import { isRecord, requireObject, requireString, requireText } from "./validate";
+
+/** Model turns per question; a model still calling tools after this gives up */
+const MAX_TURNS = 6;
+/** Conversation the client may send: messages, and characters per message by role */
+const MAX_MESSAGES = 20;
+const MAX_CHARS = { user: 500, assistant: 2000 } as const;
+
+export type ChatStep = { tool: string; arguments: Record<string, unknown>; result: unknown };
+
+function systemPrompt(state: string): string {
+  return [
+    `You answer questions about the electricity grid in ${state} from its 14-day hourly forecast.`,
+    "Get every number and time you mention from the tools; never estimate or guess.",
+    'Call describe_data first when the question names a day ("today", "next Tuesday"): the first forecast day is today.',
+    `Times are local to ${state} (${stateTimeZone(state)}). "Night" means 21:00-06:00 unless the user says otherwise.`,
+    "If the forecast cannot answer the question, say so. Answer in at most three short sentences, with units.",
+  ].join("\n");
+}
+
+/** Prior turns from the client: plain user/assistant text, ending with the question */
+function parseHistory(raw: unknown): ChatMessage[] {
+  if (!Array.isArray(raw) || !raw.length) throw badRequest("messages must be a non-empty array", { field: "messages" });
+  if (raw.length > MAX_MESSAGES) {
+    throw badRequest(`Send at most ${MAX_MESSAGES} messages`, { field: "messages", maxItems: MAX_MESSAGES });
+  }
+  const messages = raw.map((m, i): ChatMessage => {
+    if (!isRecord(m) || (m.role !== "user" && m.role !== "assistant")) {
+      throw badRequest(`messages[${i}].role must be "user" or "assistant"`, { field: "messages" });
+    }
+    return { role: m.role, content: requireText(m, "content", MAX_CHARS[m.role]) };
+  });
+  if (messages[messages.length - 1].role !== "user") {
+    throw badRequest("The last message must be the user's question", { field: "messages" });
+  }
+  return messages;
+}
+
+/** Let the model call grid queries until it answers */
+async function answer(model: ChatModel, state: string, history: ChatMessage[], signal: AbortSignal) {
+  const messages: ChatMessage[] = [{ role: "system", content: systemPrompt(state) }, ...history];
+  const steps: ChatStep[] = [];
+  for (let turn = 0; turn < MAX_TURNS; turn++) {
+    const { text, toolCalls, provider } = await model.complete(messages, GRID_TOOLS, { signal });
+    if (!toolCalls.length) return { answer: text.trim(), provider, steps };
+
+    messages.push({ role: "assistant", content: text, toolCalls });
+    for (const call of toolCalls) {
+      const result = await runGridTool(state, call.name, call.arguments);
+      steps.push({ tool: call.name, arguments: call.arguments, result });
+      messages.push({ role: "tool", toolCallId: call.id, name: call.name, content: JSON.stringify(result) });
+    }
+  }
+  throw new HttpError(502, "upstream_error", `${model.name} did not answer within ${MAX_TURNS} turns`, { steps });
+}
+
+export function chatRouter(model: ChatModel) {
+  const router = Router();
+
+  router.post("/", async (req, res) => {
+    const body = requireObject(req.body);
+    const state = await resolveState(requireString(body, "state"));
+    const history = parseHistory(body.messages);
+
+    // Stop calling the model if the client goes away
+    const abort = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) abort.abort();
+    });
+    try {
+      res.json({ state, ...(await answer(model, state, history, abort.signal)) });
+    } catch (e) {
+      if (!abort.signal.aborted) throw e;
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,71 @@
+// server/chatModels/gemini.ts
+// Google Gemini with function calling.
+import {
+  GoogleGenerativeAI,
+  type Content,
+  type FunctionDeclaration,
+  type FunctionDeclarationSchema,
+  type Part,
+} from "@google/generative-ai";
+import { HttpError } from "../errors";
+import type { ChatMessage, ChatModel, ToolSpec } from "./index";
+
+/** Gemini's schema dialect: no empty objects, enums flagged with format "enum" */
+function declaration({ name, description, parameters }: ToolSpec): FunctionDeclaration {
+  if (!Object.keys(parameters.properties).length) return { name, description };
+  const properties = Object.fromEntries(
+    Object.entries(parameters.properties).map(([key, p]) => [key, p.enum ? { ...p, format: "enum" } : p])
+  );
+  return { name, description, parameters: { ...parameters, properties } as unknown as FunctionDeclarationSchema };
+}
+
+/** Gemini has no system or tool roles: those become systemInstruction and "function" turns */
+function toContents(messages: ChatMessage[]): Content[] {
+  const contents: Content[] = [];
+  for (const m of messages) {
+    if (m.role === "user") {
+      contents.push({ role: "user", parts: [{ text: m.content }] });
+    } else if (m.role === "assistant") {
+      const parts: Part[] = m.content ? [{ text: m.content }] : [];
+      for (const call of m.toolCalls ?? []) parts.push({ functionCall: { name: call.name, args: call.arguments } });
+      contents.push({ role: "model", parts });
+    } else if (m.role === "tool") {
+      const part: Part = { functionResponse: { name: m.name, response: { content: JSON.parse(m.content) } } };
+      // Responses to one model turn share a single "function" turn
+      const prev = contents[contents.length - 1];
+      if (prev?.role === "function") prev.parts.push(part);
+      else contents.push({ role: "function", parts: [part] });
+    }
+  }
+  return contents;
+}
+
+export function geminiChatModel(apiKey: string, modelName: string): ChatModel {
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: modelName });
+  return {
+    name: modelName,
+    async complete(messages, tools, { signal } = {}) {
+      const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+      try {
+        const { response } = await model.generateContent(
+          {
+            contents: toContents(messages),
+            tools: [{ functionDeclarations: tools.map(declaration) }],
+            ...(system ? { systemInstruction: system } : {}),
+          },
+          { signal }
+        );
+        const calls = response.functionCalls() ?? [];
+        return {
+          text: calls.length ? "" : response.text(),
+          toolCalls: calls.map((c, i) => ({ id: `call_${messages.length}_${i}`, name: c.name, arguments: c.args as Record<string, unknown> })),
+          provider: modelName,
+        };
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        const detail = e instanceof Error ? e.message : undefined;
+        throw new HttpError(502, "upstream_error", `${modelName} request failed`, detail);
+      }
+    },
+  };
+}
@@ -0,0 +1,84 @@
+// server/chatModels/index.ts
+// Models that can call tools, for /api/chat. The route runs the loop; a model
+// only decides, turn by turn, whether to call tools or answer. Configured
+// with the same environment as the summarizers (see ../summarizers), and like
+// them it needs no credentials: the default is a rule-based stand-in.
+import { HttpError } from "../errors";
+import { pickKind } from "../summarizers";
+import { DEFAULT_GEMINI_MODEL } from "../summarizers/gemini";
+import { geminiChatModel } from "./gemini";
+import { openAICompatibleChatModel } from "./openaiCompatible";
+import { standInChatModel } from "./standIn";
+
+/** A tool the model may call; `parameters` is a JSON Schema object */
+export type ToolSpec = {
+  name: string;
+  description: string;
+  parameters: {
+    type: "object";
+    properties: Record<string, { type: string; description: string; enum?: readonly string[] }>;
+    required?: string[];
+  };
+};
+
+export type ToolCall = {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+};
+
+export type ChatMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: ToolCall[] }
+  | { role: "tool"; toolCallId: string; name: string; content: string };
+
+/** One model turn: tool calls to run, or (when there are none) the answer */
+export type ChatTurn = {
+  text: string;
+  toolCalls: ToolCall[];
+  /** Which model actually answered */
+  provider: string;
+};
+
+export type ChatModel = {
+  name: string;
+  complete(messages: ChatMessage[], tools: ToolSpec[], options?: { signal?: AbortSignal }): Promise<ChatTurn>;
+};
+
+/**
+ * Try `fallback` when `primary` is unreachable or fails upstream. Caller
+ * mistakes (4xx) and cancellation still surface as they are.
+ */
+export function withChatFallback(primary: ChatModel, fallback: ChatModel): ChatModel {
+  return {
+    name: primary.name,
+    async complete(messages, tools, options = {}) {
+      try {
+        return await primary.complete(messages, tools, options);
+      } catch (e) {
+        if (options.signal?.aborted || (e instanceof HttpError && e.status < 500)) throw e;
+        console.warn(`${primary.name} failed, trying ${fallback.name}:`, e instanceof Error ? e.message : e);
+        return fallback.complete(messages, tools, options);
+      }
+    },
+  };
+}
+
+/** The chat model described by the environment; SUMMARIZER=data selects the stand-in */
+export function createChatModel(env: NodeJS.ProcessEnv = process.env): ChatModel {
+  const standIn = standInChatModel();
+  const kind = pickKind(env);
+
+  if (kind === "gemini" && env.GEMINI_API_KEY) {
+    return withChatFallback(geminiChatModel(env.GEMINI_API_KEY, env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL), standIn);
+  }
+  if (kind === "openai" && env.SUMMARIZER_BASE_URL && env.SUMMARIZER_MODEL) {
+    const model = openAICompatibleChatModel({
+      baseUrl: env.SUMMARIZER_BASE_URL,
+      model: env.SUMMARIZER_MODEL,
+      apiKey: env.SUMMARIZER_API_KEY,
+    });
+    return withChatFallback(model, standIn);
+  }
+  return standIn;
+}
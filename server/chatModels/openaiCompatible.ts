@@ -0,0 +1,93 @@
+// server/chatModels/openaiCompatible.ts
+// Any server speaking the OpenAI chat-completions API with tool calls
+// (OpenAI, Ollama, llama.cpp, vLLM, or the stand-in from ../standInServer).
+import { HttpError } from "../errors";
+import type { OpenAICompatibleOptions } from "../summarizers/openaiCompatible";
+import { isRecord } from "../validate";
+import type { ChatMessage, ChatModel, ToolCall } from "./index";
+
+function toWire(m: ChatMessage) {
+  if (m.role === "tool") return { role: "tool", tool_call_id: m.toolCallId, content: m.content };
+  if (m.role === "assistant" && m.toolCalls?.length) {
+    return {
+      role: "assistant",
+      content: m.content || null,
+      tool_calls: m.toolCalls.map((c) => ({
+        id: c.id,
+        type: "function",
+        function: { name: c.name, arguments: JSON.stringify(c.arguments) },
+      })),
+    };
+  }
+  return { role: m.role, content: m.content };
+}
+
+function parseArguments(raw: unknown): Record<string, unknown> {
+  if (isRecord(raw)) return raw;
+  if (typeof raw !== "string" || !raw.trim()) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isRecord(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function fromWire(data: unknown): { text: string; toolCalls: ToolCall[] } | undefined {
+  if (!isRecord(data) || !Array.isArray(data.choices)) return undefined;
+  const choice: unknown = data.choices[0];
+  if (!isRecord(choice) || !isRecord(choice.message)) return undefined;
+  const { content, tool_calls } = choice.message;
+  const toolCalls = (Array.isArray(tool_calls) ? tool_calls : []).filter(isRecord).flatMap((c, i) => {
+    const fn = c.function;
+    if (!isRecord(fn) || typeof fn.name !== "string") return [];
+    return [{ id: typeof c.id === "string" ? c.id : `call_${i}`, name: fn.name, arguments: parseArguments(fn.arguments) }];
+  });
+  return { text: typeof content === "string" ? content : "", toolCalls };
+}
+
+export function openAICompatibleChatModel({
+  baseUrl,
+  model,
+  apiKey,
+  timeoutMs = 30000,
+}: OpenAICompatibleOptions): ChatModel {
+  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  return {
+    name: model,
+    async complete(messages, tools, { signal } = {}) {
+      const body = JSON.stringify({
+        model,
+        messages: messages.map(toWire),
+        tools: tools.map((t) => ({ type: "function", function: t })),
+        tool_choice: "auto",
+      });
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body,
+          signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]) : AbortSignal.timeout(timeoutMs),
+        });
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        const detail = e instanceof Error ? e.message : undefined;
+        throw new HttpError(502, "upstream_error", `${model} is unreachable at ${baseUrl}`, detail);
+      }
+      const data: unknown = await res.json().catch(() => null);
+      if (!res.ok) {
+        const detail = isRecord(data) && isRecord(data.error) ? data.error.message : undefined;
+        throw new HttpError(502, "upstream_error", `${model} request failed (HTTP ${res.status})`, detail);
+      }
+      const turn = fromWire(data);
+      if (!turn || (!turn.text.trim() && !turn.toolCalls.length)) {
+        throw new HttpError(502, "upstream_error", `${model} returned neither text nor tool calls`);
+      }
+      return { ...turn, provider: model };
+    },
+  };
+}
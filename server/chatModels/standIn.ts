@@ -0,0 +1,207 @@
+// server/chatModels/standIn.ts
+// A rule-based stand-in for a tool-calling model. It recognizes a few kinds
+// of question by keyword, calls the same tools a model would, and words the
+// answer from their results. It runs offline and always answers the same
+// way, so it is the default when no model is configured and a fixture for
+// exercising the tool loop (../standInServer.ts serves it over HTTP).
+import type {
+  CleanestWindowResult,
+  DescribeDataResult,
+  FuelGenerationResult,
+  MetricStatsResult,
+} from "../gridQueries";
+import { isRecord } from "../validate";
+import type { ChatModel, ChatTurn } from "./index";
+
+export const STAND_IN_MODEL = "stand-in model";
+
+const HELP =
+  "I answer from this state's 14-day hourly forecast. Try “When is the cleanest 4-hour window next Tuesday?”, " +
+  "“How much coal is burned at night?” or “What is the average carbon intensity tomorrow?”";
+
+type DayRef =
+  | { kind: "offset"; days: number; label: string }
+  | { kind: "weekday"; weekday: string; next: boolean; label: string }
+  | { kind: "date"; date: string; label: string };
+
+type Plan = {
+  tool: string;
+  args: Record<string, unknown>;
+  /** A day named in the question, resolved with describe_data first */
+  day?: DayRef;
+  /** Words the answer; `where` is e.g. " on Tue 2025-10-07" or "" */
+  answer(result: unknown, where: string): string;
+};
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, eight: 8, twelve: 12 };
+
+/** Local hour ranges for parts of the day: [pattern, from_hour, to_hour, label] */
+const PARTS_OF_DAY: [RegExp, number, number, string][] = [
+  [/\b(night|overnight|nighttime)\b/, 21, 6, "at night (21:00–06:00)"],
+  [/\bmorning\b/, 6, 12, "in the morning (06:00–12:00)"],
+  [/\bafternoon\b/, 12, 17, "in the afternoon (12:00–17:00)"],
+  [/\bevening\b/, 17, 21, "in the evening (17:00–21:00)"],
+  [/\b(daytime|during the day)\b/, 6, 18, "during the day (06:00–18:00)"],
+];
+
+const FUELS: [RegExp, string][] = [
+  [/\bcoal\b/, "coal"],
+  [/\bgas\b/, "gas"],
+  [/\bnuclear\b/, "nuclear"],
+  [/\bwind\b/, "wind"],
+  [/\bsolar\b/, "solar"],
+  [/\bhydro\b/, "hydro"],
+  [/\b(oil|petroleum)\b/, "petroleum"],
+];
+
+const METRICS: [RegExp, string, string][] = [
+  [/\b(carbon intensity|intensity|ci)\b/, "ci_g_per_kwh", "Carbon intensity"],
+  [/\brenewable/, "renewable_share", "The renewable share"],
+  [/\bfossil/, "fossil_share", "The fossil share"],
+  [/\bclean\b/, "clean_share", "The clean share"],
+  [/\b(emissions?|co2|co₂)\b/, "total_emissions_kg_co2", "Hourly emissions"],
+  [/\b(demand|load|generation)\b/, "total_mwh", "Total generation"],
+];
+
+const num = (n: number) => n.toLocaleString("en-US");
+
+function parseDay(q: string): DayRef | undefined {
+  const iso = q.match(/\b(\d{4}-\d{2}-\d{2})\b/);
+  if (iso) return { kind: "date", date: iso[1], label: iso[1] };
+  if (/\btoday\b/.test(q)) return { kind: "offset", days: 0, label: "Today" };
+  if (/\btomorrow\b/.test(q)) return { kind: "offset", days: 1, label: "Tomorrow" };
+  const wd = q.match(new RegExp(`\\b(?:(next|this)\\s+)?(${WEEKDAYS.join("|")})\\b`));
+  if (!wd) return undefined;
+  const name = wd[2][0].toUpperCase() + wd[2].slice(1);
+  return { kind: "weekday", weekday: name.slice(0, 3), next: wd[1] === "next", label: wd[1] ? `${wd[1]} ${name}` : name };
+}
+
+/** "next Tuesday" is the first Tuesday after today; a bare "Tuesday" may be today */
+function resolveDay(day: DayRef, data: DescribeDataResult): string | undefined {
+  if (day.kind === "date") return data.days.some((d) => d.date === day.date) ? day.date : undefined;
+  if (day.kind === "offset") return data.days[day.days]?.date;
+  return data.days.find((d) => d.weekday === day.weekday && (!day.next || d.date !== data.today))?.date;
+}
+
+function windowLength(q: string): number | undefined {
+  const m = q.match(/\b(\d{1,2}|one|two|three|four|five|six|eight|twelve)[- ]?(?:hour|hr)s?\b/);
+  if (!m) return undefined;
+  return NUMBER_WORDS[m[1]] ?? Number(m[1]);
+}
+
+function partOfDay(q: string): { args: Record<string, number>; label: string } {
+  const part = PARTS_OF_DAY.find(([re]) => re.test(q));
+  return part ? { args: { from_hour: part[1], to_hour: part[2] }, label: ` ${part[3]}` } : { args: {}, label: "" };
+}
+
+function planFor(question: string): Plan | undefined {
+  const q = question.toLowerCase();
+  const day = parseDay(q);
+
+  if (/\b(cleanest|greenest|lowest[- ]carbon|least carbon|best (?:time|window|hours?)|dirtiest|worst)\b/.test(q)) {
+    const hours = windowLength(q) ?? 1;
+    const dirty = /\b(dirtiest|worst)\b/.test(q);
+    return {
+      tool: "cleanest_window",
+      args: { hours },
+      day,
+      answer(result, where) {
+        const r = result as CleanestWindowResult;
+        const w = dirty ? r.dirtiest : r.cleanest;
+        const span = `${hours}-hour window${where || " in the forecast"}`;
+        const head = `The ${dirty ? "dirtiest" : "cleanest"} ${span} runs from ${w.start.local} to ${w.end.local}, averaging ${num(w.average)} ${r.unit}.`;
+        return dirty
+          ? `${head} The cleanest one averages ${num(r.cleanest.average)} ${r.unit}, starting ${r.cleanest.start.local}.`
+          : `${head} That is ${num(r.cleanest_vs_dirtiest_pct)}% below the dirtiest one (${num(r.dirtiest.average)} ${r.unit}, starting ${r.dirtiest.start.local}).`;
+      },
+    };
+  }
+
+  const fuel = FUELS.find(([re]) => re.test(q));
+  if (fuel) {
+    const part = partOfDay(q);
+    return {
+      tool: "fuel_generation",
+      args: { fuel: fuel[1], ...part.args },
+      day,
+      answer(result, where) {
+        const r = result as FuelGenerationResult;
+        const name = [...new Set(r.fuel.map((f) => f.name))].join(" and ");
+        return (
+          `${name} generation${part.label}${where}: ${num(r.total_mwh)} MWh over ${r.hours} hours, ` +
+          `${num(r.average_mwh_per_hour)} MWh per hour on average (${num(r.share_of_generation_pct)}% of generation)` +
+          (r.emissions_t_co2 != null && r.emissions_t_co2 > 0 ? `, emitting about ${num(r.emissions_t_co2)} t CO₂` : "") +
+          `. The highest hour is ${r.peak.local} at ${num(r.peak.mwh)} MWh; ` +
+          `across the whole forecast it averages ${num(r.all_hours_average_mwh_per_hour)} MWh per hour.`
+        );
+      },
+    };
+  }
+
+  const metric = METRICS.find(([re]) => re.test(q));
+  if (metric) {
+    const part = partOfDay(q);
+    return {
+      tool: "metric_stats",
+      args: { metric: metric[1], ...part.args },
+      day,
+      answer(result, where) {
+        const r = result as MetricStatsResult;
+        const u = r.unit === "%" ? "%" : ` ${r.unit}`;
+        return (
+          `${metric[2]}${part.label}${where} averages ${num(r.mean)}${u}, ranging from ${num(r.min.value)}${u} ` +
+          `(${r.min.local}) to ${num(r.max.value)}${u} (${r.max.local}).` +
+          ("total" in r && r.total != null ? ` The total is ${num(r.total)}${u}.` : "")
+        );
+      },
+    };
+  }
+  return undefined;
+}
+
+export function standInChatModel(): ChatModel {
+  let calls = 0;
+  const answer = (text: string): ChatTurn => ({ text, toolCalls: [], provider: STAND_IN_MODEL });
+  const call = (name: string, args: Record<string, unknown>): ChatTurn => ({
+    text: "",
+    toolCalls: [{ id: `call_${++calls}`, name, arguments: args }],
+    provider: STAND_IN_MODEL,
+  });
+
+  return {
+    name: STAND_IN_MODEL,
+    async complete(messages, tools) {
+      const lastUser = messages.findLastIndex((m) => m.role === "user");
+      const plan = lastUser < 0 ? undefined : planFor(messages[lastUser].content);
+      if (!plan) return answer(HELP);
+      if (!tools.some((t) => t.name === plan.tool)) return answer(`I'd need the ${plan.tool} tool to answer that.`);
+
+      // Results of the tools called since the question, by tool name
+      const results = new Map<string, unknown>();
+      for (const m of messages.slice(lastUser + 1)) {
+        if (m.role !== "tool") continue;
+        try { results.set(m.name, JSON.parse(m.content)); } catch { results.set(m.name, null); }
+      }
+
+      let args = plan.args;
+      let where = "";
+      if (plan.day) {
+        const data = results.get("describe_data") as DescribeDataResult | undefined;
+        if (!data) return call("describe_data", {});
+        const date = resolveDay(plan.day, data);
+        if (!date) {
+          const last = data.days[data.days.length - 1]?.date;
+          return answer(`${plan.day.label} isn't in the forecast, which covers ${data.days[0]?.date} to ${last}.`);
+        }
+        args = { ...args, from_date: date, to_date: date };
+        where = ` on ${data.days.find((d) => d.date === date)?.weekday} ${date}`;
+      }
+
+      const result = results.get(plan.tool);
+      if (result === undefined) return call(plan.tool, args);
+      if (isRecord(result) && typeof result.error === "string") return answer(`I couldn't look that up: ${result.error}`);
+      return answer(plan.answer(result, where));
+    },
+  };
+}
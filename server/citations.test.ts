@@ -0,0 +1,63 @@
+// server/citations.test.ts
+import { describe, expect, it } from "vitest";
+import type { Fact } from "../src/figures";
+import { extractCitations } from "./citations";
+
+const fact = (id: string, value: number, display = String(value)): Fact => ({
+  id,
+  label: id,
+  value,
+  unit: "g CO2/kWh",
+  display,
+  source: { file: "hourly_summary_14d.csv", field: "ci_g_per_kwh", calc: "mean over 336 hours" },
+});
+
+const facts = [fact("mean_ci", 150.55, "150.6"), fact("change_pct", -12.4, "-12.4")];
+const cite = (summary: string) =>
+  extractCitations(summary, facts).map(({ id, quoted, verified }) => ({ id, quoted, verified }));
+
+describe("extractCitations", () => {
+  it("checks the number right before the marker", () => {
+    expect(cite("Intensity averaged 150.6 g CO₂/kWh [mean_ci].")).toEqual([
+      { id: "mean_ci", quoted: 150.6, verified: true },
+    ]);
+  });
+
+  it("does not accept an earlier number in the same sentence", () => {
+    expect(cite("Intensity fell from 151 to 999 g CO₂/kWh [mean_ci]")).toEqual([
+      { id: "mean_ci", quoted: 999, verified: false },
+    ]);
+  });
+
+  it("reads thousands separators and ignores unknown facts", () => {
+    expect(cite("About 1,506 dg [mean_ci_dg] or 150.55 [mean_ci]")).toEqual([
+      { id: "mean_ci", quoted: 150.55, verified: true },
+    ]);
+  });
+
+  it("reports a marker with no number as unverified", () => {
+    expect(cite("See the average [mean_ci].")).toEqual([{ id: "mean_ci", quoted: null, verified: false }]);
+  });
+
+  it("verifies a fact cited twice only if both quotes agree", () => {
+    expect(cite("Average 150.6 [mean_ci].\nStill 150.6 [mean_ci].")).toEqual([
+      { id: "mean_ci", quoted: 150.6, verified: true },
+    ]);
+    expect(cite("Average 150.6 [mean_ci].\nLater 180 [mean_ci].")).toEqual([
+      { id: "mean_ci", quoted: 180, verified: false },
+    ]);
+  });
+
+  it("ignores the sign, but keeps a written minus in the quote", () => {
+    expect(cite("Emissions fall by 12.4% [change_pct]")).toEqual([
+      { id: "change_pct", quoted: 12.4, verified: true },
+    ]);
+    expect(cite("A change of −12.4% [change_pct]")).toEqual([
+      { id: "change_pct", quoted: -12.4, verified: true },
+    ]);
+  });
+
+  it("does not read hyphens in dates and ranges as minus signs", () => {
+    expect(cite("On 2025-09-30 [change_pct]")).toEqual([{ id: "change_pct", quoted: 30, verified: false }]);
+  });
+});
@@ -0,0 +1,50 @@
+// server/citations.ts
+// Find the `[fact_id]` markers in a summary and check that the number quoted
+// next to each one matches the cited fact, so a model cannot slip an invented
+// figure past the reader under a real reference.
+import type { Citation, Fact } from "../src/figures";
+
+const MARKER = /\[([a-z][a-z0-9_]*)\]/g;
+/** A minus sign counts only where it can't be a hyphen, as in "2025-09-29" or "10-20" */
+const NUMBER = /(?:(?<![\d.])[-−])?\d[\d,]*(?:\.\d+)?/g;
+
+const toNumber = (text: string) => Number(text.replace(/,/g, "").replace("−", "-"));
+
+/**
+ * Agreement up to the precision the number was written with (or 0.5%),
+ * ignoring sign: "rises by 0.8 points" may cite a reduction of -0.8.
+ */
+function agrees(quoted: string, value: number): boolean {
+  const q = toNumber(quoted);
+  const decimals = quoted.split(".")[1]?.length ?? 0;
+  const tolerance = Math.max(0.5 * 10 ** -decimals, Math.abs(value) * 0.005) + 1e-9;
+  return Math.abs(Math.abs(q) - Math.abs(value)) <= tolerance;
+}
+
+/** Citations in order of first appearance; markers naming unknown facts are ignored */
+export function extractCitations(summary: string, facts: Fact[]): Citation[] {
+  const byId = new Map(facts.map((f) => [f.id, f]));
+  const seen = new Map<string, Citation>();
+  let segmentStart = 0;
+
+  for (const m of summary.matchAll(MARKER)) {
+    // Only look back to the previous marker or line break
+    const lineStart = summary.lastIndexOf("\n", m.index) + 1;
+    const segment = summary.slice(Math.max(segmentStart, lineStart), m.index);
+    segmentStart = m.index + m[0].length;
+
+    const f = byId.get(m[1]);
+    if (!f) continue;
+    // The quote is the number right before the marker; earlier ones in the
+    // segment belong to the sentence ("fell from 151 to 150.6 [mean_ci]")
+    const quotedText = segment.match(NUMBER)?.at(-1);
+    const quoted = quotedText != null ? toNumber(quotedText) : null;
+    const verified = quotedText != null && agrees(quotedText, f.value);
+
+    const prev = seen.get(f.id);
+    // A fact cited twice is verified only if every quote agrees
+    if (!prev) seen.set(f.id, { ...f, quoted, verified });
+    else if (prev.verified && !verified) seen.set(f.id, { ...prev, quoted, verified: false });
+  }
+  return [...seen.values()];
+}
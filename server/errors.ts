@@ -0,0 +1,62 @@
+// server/errors.ts
+// Structured API errors: every failure is answered as
+// { error: <message>, code: <machine code>, details?: ... }.
+// `error` stays a plain string so existing clients can show it as-is.
+import type { ErrorRequestHandler, RequestHandler } from "express";
+import { SchemaError } from "../src/stateSchema";
+
+/** An error that maps directly onto an HTTP response */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details?: unknown;
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export const badRequest = (message: string, details?: unknown) =>
+  new HttpError(400, "bad_request", message, details);
+
+export const notFound = (message: string) => new HttpError(404, "not_found", message);
+
+/** Errors thrown by express.json() carry a status and a `type` */
+type BodyParserError = Error & { status?: number; type?: string; limit?: number };
+
+export function toHttpError(err: unknown): HttpError {
+  if (err instanceof HttpError) return err;
+  if (err instanceof SchemaError) {
+    // Bad data on disk is our fault, not the caller's
+    return new HttpError(500, "invalid_data", err.message, err.issues.slice(0, 10));
+  }
+  const e = err as BodyParserError;
+  if (e?.type === "entity.parse.failed") return badRequest("Request body is not valid JSON");
+  if (e?.type === "entity.too.large") {
+    return new HttpError(413, "payload_too_large", "Request body is too large", { limitBytes: e.limit });
+  }
+  return new HttpError(500, "internal", "Internal server error");
+}
+
+export const notFoundHandler: RequestHandler = (req, _res, next) => {
+  next(notFound(`No route for ${req.method} ${req.path}`));
+};
+
+/** The JSON error shape, also sent as an SSE "error" event by streaming routes */
+export function errorBody(err: HttpError) {
+  return {
+    error: err.message,
+    code: err.code,
+    ...(err.details !== undefined ? { details: err.details } : {}),
+  };
+}
+
+export const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
+  if (res.headersSent) return next(err);
+  const httpErr = toHttpError(err);
+  if (httpErr.status >= 500) console.error(`${req.method} ${req.originalUrl}:`, err);
+  res.status(httpErr.status).json(errorBody(httpErr));
+};
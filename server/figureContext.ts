@@ -0,0 +1,300 @@
+// server/figureContext.ts
+// The numbers behind each dashboard figure, read from the state folder:
+// headline facts a summary can cite by id, plus daily series for context.
+// Every fact is computed from the same series the figure plots.
+import { parseTimestamp } from "../src/chartUtils";
+import { FIGURES, type Fact, type FactSource, type FigureKind } from "../src/figures";
+import { STATE_FILES } from "../src/stateSchema";
+import { loadStateFile } from "./stateStore";
+
+export type DailySeries = {
+  name: string;
+  unit: string;
+  points: { date: string; value: number }[];
+};
+
+export type FigureContext = {
+  state: string;
+  figure: FigureKind;
+  title: string;
+  window: { start: string; end: string; hours: number };
+  facts: Fact[];
+  series: DailySeries[];
+};
+
+type FigureData = { timestamps: string[]; facts: Fact[]; series: DailySeries[] };
+
+const FUEL_NAMES: Record<string, string> = {
+  COL: "Coal", NG: "Natural gas", PET: "Petroleum", OIL: "Oil", OTH: "Other",
+  NUC: "Nuclear", WAT: "Hydro", WND: "Wind", SUN: "Solar",
+};
+const FOSSIL_FUELS = ["COL", "NG", "PET", "OIL"];
+const RENEWABLE_FUELS = ["SUN", "WND", "WAT"];
+
+const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+const argMax = (xs: number[]) => xs.reduce((best, x, i) => (x > xs[best] ? i : best), 0);
+const argMin = (xs: number[]) => xs.reduce((best, x, i) => (x < xs[best] ? i : best), 0);
+const pctOf = (part: number, whole: number) => (whole ? (part / whole) * 100 : 0);
+
+function fact(id: string, label: string, value: number, unit: string, digits: number, source: FactSource): Fact {
+  const display = value.toLocaleString("en-US", { maximumFractionDigits: digits, minimumFractionDigits: digits });
+  return { id, label, value, unit, display, source };
+}
+
+/** Hour indices grouped by UTC date, in time order */
+function byDay(timestamps: string[]): [string, number[]][] {
+  const days = new Map<string, number[]>();
+  timestamps.forEach((ts, i) => {
+    const day = parseTimestamp(ts).toISOString().slice(0, 10);
+    const idx = days.get(day);
+    if (idx) idx.push(i);
+    else days.set(day, [i]);
+  });
+  return [...days];
+}
+
+function daily(
+  timestamps: string[],
+  name: string,
+  unit: string,
+  reduce: (idx: number[]) => number
+): DailySeries {
+  return { name, unit, points: byDay(timestamps).map(([date, idx]) => ({ date, value: reduce(idx) })) };
+}
+
+const pick = (xs: number[], idx: number[]) => idx.map((i) => xs[i]);
+
+/* ---------- one builder per figure ---------- */
+
+async function generation(state: string): Promise<FigureData> {
+  const fe = await loadStateFile(state, "frontend");
+  const file = STATE_FILES.frontend;
+  const n = fe.timestamps.length;
+  const codes = Object.keys(fe.fuels);
+  const hourlyOf = (group: string[]) =>
+    fe.timestamps.map((_, i) => group.reduce((a, c) => a + (fe.fuels[c]?.[i] ?? 0), 0));
+  const hourly = hourlyOf(codes);
+  const renewable = hourlyOf(RENEWABLE_FUELS);
+  const total = sum(hourly);
+  const hi = argMax(hourly), lo = argMin(hourly);
+  const renShare = renewable.map((r, i) => pctOf(r, hourly[i]));
+  const renPeak = argMax(renShare);
+
+  const fuels = codes
+    .map((code) => ({ code, total: sum(fe.fuels[code]) }))
+    .filter((f) => pctOf(f.total, total) >= 1)
+    .sort((a, b) => b.total - a.total);
+
+  return {
+    timestamps: fe.timestamps,
+    facts: [
+      fact("total_generation", "Total generation", total, "MWh", 0,
+        { file, field: "fuels.*", calc: `sum of all fuels over ${n} hours` }),
+      fact("peak_generation", "Highest hourly generation", hourly[hi], "MWh", 0,
+        { file, field: "fuels.*", calc: "largest hourly sum of all fuels", at: fe.timestamps[hi] }),
+      fact("min_generation", "Lowest hourly generation", hourly[lo], "MWh", 0,
+        { file, field: "fuels.*", calc: "smallest hourly sum of all fuels", at: fe.timestamps[lo] }),
+      fact("fossil_share", "Fossil share of generation", pctOf(sum(hourlyOf(FOSSIL_FUELS)), total), "%", 1,
+        { file, field: `fuels.${FOSSIL_FUELS.join("+")}`, calc: "share of total generation" }),
+      fact("renewable_share", "Renewable share of generation", pctOf(sum(renewable), total), "%", 1,
+        { file, field: `fuels.${RENEWABLE_FUELS.join("+")}`, calc: "share of total generation" }),
+      fact("peak_renewable_share", "Highest hourly renewable share", renShare[renPeak], "%", 1,
+        { file, field: `fuels.${RENEWABLE_FUELS.join("+")}`, calc: "largest hourly share", at: fe.timestamps[renPeak] }),
+      ...fuels.map((f) =>
+        fact(`share_${f.code.toLowerCase()}`, `${FUEL_NAMES[f.code] ?? f.code} share of generation`,
+          pctOf(f.total, total), "%", 1, { file, field: `fuels.${f.code}`, calc: "share of total generation" })
+      ),
+    ],
+    series: fuels.map((f) =>
+      daily(fe.timestamps, FUEL_NAMES[f.code] ?? f.code, "MWh/day", (idx) => sum(pick(fe.fuels[f.code], idx)))
+    ),
+  };
+}
+
+async function intensity(state: string): Promise<FigureData> {
+  const rows = await loadStateFile(state, "hourlySummary");
+  const file = STATE_FILES.hourlySummary;
+  const field = "ci_g_per_kwh";
+  const timestamps = rows.map((r) => r.timestamp_utc);
+  const ci = rows.map((r) => r.ci_g_per_kwh);
+  const hi = argMax(ci), lo = argMin(ci);
+
+  // Average by hour of day (UTC) to expose the daily cycle
+  const byHour = Array.from({ length: 24 }, () => [] as number[]);
+  timestamps.forEach((ts, i) => byHour[parseTimestamp(ts).getUTCHours()].push(ci[i]));
+  const hourMeans = byHour.map((xs) => (xs.length ? sum(xs) / xs.length : NaN));
+  const valid = hourMeans.map((m, h) => [m, h] as const).filter(([m]) => Number.isFinite(m));
+  const [cleanMean, cleanHour] = valid.reduce((a, b) => (b[0] < a[0] ? b : a));
+  const [dirtyMean, dirtyHour] = valid.reduce((a, b) => (b[0] > a[0] ? b : a));
+  const hh = (h: number) => `${String(h).padStart(2, "0")}:00 UTC`;
+
+  return {
+    timestamps,
+    facts: [
+      fact("mean_ci", "Average carbon intensity", sum(ci) / ci.length, "g CO₂/kWh", 0,
+        { file, field, calc: `mean of ${ci.length} hours` }),
+      fact("min_ci", "Lowest hourly carbon intensity", ci[lo], "g CO₂/kWh", 0,
+        { file, field, calc: "minimum", at: timestamps[lo] }),
+      fact("max_ci", "Highest hourly carbon intensity", ci[hi], "g CO₂/kWh", 0,
+        { file, field, calc: "maximum", at: timestamps[hi] }),
+      fact("cleanest_hour", `Average at ${hh(cleanHour)}, the cleanest hour of day`, cleanMean, "g CO₂/kWh", 0,
+        { file, field, calc: "lowest mean by hour of day", at: hh(cleanHour) }),
+      fact("dirtiest_hour", `Average at ${hh(dirtyHour)}, the dirtiest hour of day`, dirtyMean, "g CO₂/kWh", 0,
+        { file, field, calc: "highest mean by hour of day", at: hh(dirtyHour) }),
+      fact("timing_saving_pct", "Emissions cut by moving use from the dirtiest to the cleanest hour",
+        pctOf(dirtyMean - cleanMean, dirtyMean), "%", 0,
+        { file, field, calc: "(dirtiest − cleanest hour-of-day mean) ÷ dirtiest" }),
+    ],
+    series: [daily(timestamps, "Daily mean carbon intensity", "g CO₂/kWh", (idx) => sum(pick(ci, idx)) / idx.length)],
+  };
+}
+
+/** Both fossil figures plot fossil_kwh_baseline vs fossil_kwh_opt; A hourly, B per day */
+async function fossil(state: string, granularity: "hourly" | "daily"): Promise<FigureData> {
+  const opt = await loadStateFile(state, "frontendOpt");
+  const file = STATE_FILES.frontendOpt;
+  const { timestamps, fossil_kwh_baseline: base, fossil_kwh_opt: optimized } = opt;
+  const days = timestamps.length / 24;
+  const totalBase = sum(base), totalOpt = sum(optimized);
+  const totals = [
+    fact("fossil_baseline", "Fossil-attributed consumption, baseline", totalBase, "kWh", 1,
+      { file, field: "fossil_kwh_baseline", calc: `sum over ${timestamps.length} hours` }),
+    fact("fossil_opt", "Fossil-attributed consumption, optimized", totalOpt, "kWh", 1,
+      { file, field: "fossil_kwh_opt", calc: `sum over ${timestamps.length} hours` }),
+    fact("fossil_saved", "Fossil-attributed consumption avoided", totalBase - totalOpt, "kWh", 1,
+      { file, field: "fossil_kwh_baseline − fossil_kwh_opt", calc: "difference of sums" }),
+    fact("fossil_reduction_pct", "Reduction in fossil-attributed consumption", pctOf(totalBase - totalOpt, totalBase), "%", 1,
+      { file, field: "fossil_kwh_baseline, fossil_kwh_opt", calc: "avoided ÷ baseline" }),
+  ];
+  const series = [
+    daily(timestamps, "Fossil-attributed consumption, baseline", "kWh/day", (idx) => sum(pick(base, idx))),
+    daily(timestamps, "Fossil-attributed consumption, optimized", "kWh/day", (idx) => sum(pick(optimized, idx))),
+  ];
+
+  if (granularity === "hourly") {
+    const hb = argMax(base), ho = argMax(optimized);
+    return {
+      timestamps,
+      facts: [
+        fact("peak_baseline", "Highest hourly fossil-attributed use, baseline", base[hb], "kWh", 1,
+          { file, field: "fossil_kwh_baseline", calc: "maximum", at: timestamps[hb] }),
+        fact("peak_opt", "Highest hourly fossil-attributed use, optimized", optimized[ho], "kWh", 1,
+          { file, field: "fossil_kwh_opt", calc: "maximum", at: timestamps[ho] }),
+        ...totals,
+      ],
+      series,
+    };
+  }
+
+  const savings = series[0].points.map((p, i) => ({ date: p.date, saved: p.value - series[1].points[i].value }));
+  const best = savings.reduce((a, b) => (b.saved > a.saved ? b : a));
+  return {
+    timestamps,
+    facts: [
+      fact("mean_daily_baseline", "Fossil-attributed use per day, baseline", totalBase / days, "kWh", 1,
+        { file, field: "fossil_kwh_baseline", calc: `sum ÷ ${days.toFixed(0)} days` }),
+      fact("mean_daily_opt", "Fossil-attributed use per day, optimized", totalOpt / days, "kWh", 1,
+        { file, field: "fossil_kwh_opt", calc: `sum ÷ ${days.toFixed(0)} days` }),
+      fact("biggest_daily_saving", "Largest one-day saving", best.saved, "kWh", 1,
+        { file, field: "fossil_kwh_baseline − fossil_kwh_opt", calc: "largest daily difference", at: best.date }),
+      ...totals,
+    ],
+    series,
+  };
+}
+
+async function shares(state: string): Promise<FigureData> {
+  const [opt, fe] = await Promise.all([loadStateFile(state, "frontendOpt"), loadStateFile(state, "frontend")]);
+  const file = STATE_FILES.frontendOpt;
+  const both = `${STATE_FILES.frontendOpt} + ${STATE_FILES.frontend}`;
+  const { timestamps, grid_baseline_kwh: gridB, grid_opt_kwh: gridO } = opt;
+  const renewable = fe.shares.renewable;
+  const weighted = (grid: number[]) => pctOf(sum(grid.map((g, i) => g * (renewable[i] ?? 0))), sum(grid));
+  const fossilB = pctOf(sum(opt.fossil_kwh_baseline), sum(gridB));
+  const fossilO = pctOf(sum(opt.fossil_kwh_opt), sum(gridO));
+  const calc = `energy-weighted over all ${timestamps.length} hours`;
+
+  return {
+    timestamps,
+    facts: [
+      fact("fossil_share_baseline", "Fossil share of grid use, baseline", fossilB, "%", 1,
+        { file, field: "fossil_kwh_baseline ÷ grid_baseline_kwh", calc }),
+      fact("fossil_share_opt", "Fossil share of grid use, optimized", fossilO, "%", 1,
+        { file, field: "fossil_kwh_opt ÷ grid_opt_kwh", calc }),
+      fact("fossil_share_reduction_pp", "Fossil share reduction", fossilB - fossilO, "points", 2,
+        { file, field: "fossil share baseline − optimized", calc }),
+      fact("renewable_share_baseline", "Renewable share of grid use, baseline", weighted(gridB), "%", 1,
+        { file: both, field: "grid_baseline_kwh × shares.renewable", calc }),
+      fact("renewable_share_opt", "Renewable share of grid use, optimized", weighted(gridO), "%", 1,
+        { file: both, field: "grid_opt_kwh × shares.renewable", calc }),
+    ],
+    series: [
+      daily(timestamps, "Fossil share, baseline", "%", (idx) =>
+        pctOf(sum(pick(opt.fossil_kwh_baseline, idx)), sum(pick(gridB, idx)))),
+      daily(timestamps, "Fossil share, optimized", "%", (idx) =>
+        pctOf(sum(pick(opt.fossil_kwh_opt, idx)), sum(pick(gridO, idx)))),
+    ],
+  };
+}
+
+async function emissions(state: string): Promise<FigureData> {
+  const opt = await loadStateFile(state, "frontendOpt");
+  const file = STATE_FILES.frontendOpt;
+  const { timestamps, emissions_baseline_kg: base, emissions_opt_kg: optimized } = opt;
+  const totalBase = sum(base), totalOpt = sum(optimized);
+  const saved = totalBase - totalOpt;
+  const calc = `cumulative sum over ${timestamps.length} hours`;
+  const cumulative = (xs: number[]) => {
+    let run = 0;
+    return xs.map((x) => (run += x));
+  };
+  const cumBase = cumulative(base), cumOpt = cumulative(optimized);
+  const endOfDay = (xs: number[]) => (idx: number[]) => xs[idx[idx.length - 1]];
+
+  return {
+    timestamps,
+    facts: [
+      fact("emissions_baseline", "Cumulative emissions, baseline", totalBase, "kg CO₂", 1,
+        { file, field: "emissions_baseline_kg", calc }),
+      fact("emissions_opt", "Cumulative emissions, optimized", totalOpt, "kg CO₂", 1,
+        { file, field: "emissions_opt_kg", calc }),
+      fact("emissions_saved", "Emissions avoided", saved, "kg CO₂", 1,
+        { file, field: "emissions_baseline_kg − emissions_opt_kg", calc: "difference of sums" }),
+      fact("emissions_saved_pct", "Emissions avoided vs baseline", pctOf(saved, totalBase), "%", 1,
+        { file, field: "emissions_baseline_kg, emissions_opt_kg", calc: "avoided ÷ baseline" }),
+      fact("saved_per_day", "Emissions avoided per day", saved / (timestamps.length / 24), "kg CO₂", 2,
+        { file, field: "emissions_baseline_kg − emissions_opt_kg", calc: `avoided ÷ ${(timestamps.length / 24).toFixed(0)} days` }),
+    ],
+    series: [
+      daily(timestamps, "Cumulative emissions, baseline", "kg CO₂", endOfDay(cumBase)),
+      daily(timestamps, "Cumulative emissions, optimized", "kg CO₂", endOfDay(cumOpt)),
+    ],
+  };
+}
+
+const BUILDERS: Record<FigureKind, (state: string) => Promise<FigureData>> = {
+  generation,
+  intensity,
+  "fossil-hourly": (state) => fossil(state, "hourly"),
+  "fossil-daily": (state) => fossil(state, "daily"),
+  shares,
+  emissions,
+};
+
+/** Facts and daily series behind one figure for a resolved state folder name */
+export async function buildFigureContext(state: string, figure: FigureKind): Promise<FigureContext> {
+  const { timestamps, facts, series } = await BUILDERS[figure](state);
+  const times = timestamps.map((ts) => parseTimestamp(ts).getTime());
+  return {
+    state,
+    figure,
+    title: FIGURES.find((f) => f.kind === figure)?.title ?? figure,
+    window: {
+      start: new Date(Math.min(...times)).toISOString(),
+      end: new Date(Math.max(...times)).toISOString(),
+      hours: timestamps.length,
+    },
+    facts,
+    series,
+  };
+}
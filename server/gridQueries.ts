@@ -0,0 +1,401 @@
+// server/gridQueries.ts
+// Deterministic queries over one state's hourly forecast
+// (hourly_summary_14d.csv and hourly_fuel_forecast_14d.csv), exposed as tools
+// for /api/chat. Models decide which query answers a question; every number
+// in an answer comes from here. Times are read and reported on the state's
+// local clock.
+import { parseTimestamp } from "../src/chartUtils";
+import { STATE_FILES, type HourlySummaryRow } from "../src/stateSchema";
+import { localTime, stateTimeZone, type LocalTime } from "../src/timeZones";
+import type { ToolSpec } from "./chatModels";
+import { loadStateFile } from "./stateStore";
+import { isRecord } from "./validate";
+
+/** Hourly summary columns a question can ask about, with how they are reported */
+const METRICS = {
+  ci_g_per_kwh: { label: "carbon intensity", unit: "g CO₂/kWh", scale: 1 },
+  fossil_share: { label: "fossil share", unit: "%", scale: 100 },
+  renewable_share: { label: "renewable share", unit: "%", scale: 100 },
+  clean_share: { label: "clean (renewable + nuclear) share", unit: "%", scale: 100 },
+  total_mwh: { label: "total generation", unit: "MWh", scale: 1 },
+  fossil_mwh: { label: "fossil generation", unit: "MWh", scale: 1 },
+  renewable_mwh: { label: "renewable generation", unit: "MWh", scale: 1 },
+  nuclear_mwh: { label: "nuclear generation", unit: "MWh", scale: 1 },
+  total_emissions_kg_co2: { label: "emissions", unit: "kg CO₂", scale: 1 },
+} as const satisfies Partial<Record<keyof HourlySummaryRow, { label: string; unit: string; scale: number }>>;
+type Metric = keyof typeof METRICS;
+const METRIC_NAMES = Object.keys(METRICS) as Metric[];
+const WINDOW_METRICS = ["ci_g_per_kwh", "fossil_share"] as const satisfies readonly Metric[];
+
+/** A tool was called with arguments it can't use; the message goes back to the model */
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+type Hour = {
+  utc: Date;
+  local: LocalTime;
+  row: HourlySummaryRow;
+  /** MWh and kg CO₂ by fuel code; kg is null where the export has no emissions */
+  fuels: Map<string, { mwh: number; kg: number | null }>;
+};
+
+type Grid = {
+  state: string;
+  timeZone: string;
+  hours: Hour[];
+  fuelNames: Map<string, string>;
+};
+
+async function loadGrid(state: string): Promise<Grid> {
+  const [summary, fuelRows] = await Promise.all([
+    loadStateFile(state, "hourlySummary"),
+    loadStateFile(state, "hourlyFuel"),
+  ]);
+  const timeZone = stateTimeZone(state);
+  const byTs = new Map<string, Hour["fuels"]>();
+  const fuelNames = new Map<string, string>();
+  for (const r of fuelRows) {
+    let fuels = byTs.get(r.timestamp_utc);
+    if (!fuels) byTs.set(r.timestamp_utc, (fuels = new Map()));
+    fuels.set(r.fueltype, { mwh: r.forecast_mwh, kg: r.emissions_kg_co2 });
+    fuelNames.set(r.fueltype, r.fuel_name);
+  }
+  const hours = summary.map((row) => {
+    const utc = parseTimestamp(row.timestamp_utc);
+    return { utc, local: localTime(utc, timeZone), row, fuels: byTs.get(row.timestamp_utc) ?? new Map() };
+  });
+  return { state, timeZone, hours, fuelNames };
+}
+
+/* ---------- formatting ---------- */
+
+const round = (x: number, digits = 1) => Number(x.toFixed(digits));
+const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : NaN);
+
+/** "Tue 2025-10-07 14:00 CDT" */
+function fmtLocal(t: LocalTime): string {
+  return `${t.weekday} ${t.date} ${String(t.hour).padStart(2, "0")}:00 ${t.zone}`;
+}
+
+/** An hour's start as both local and UTC text */
+const when = (h: Hour) => ({ local: fmtLocal(h.local), utc: h.utc.toISOString() });
+
+const HOUR_MS = 3600_000;
+
+/* ---------- argument parsing ---------- */
+
+type Args = Record<string, unknown>;
+
+function dateArg(args: Args, key: string): string | undefined {
+  const v = args[key];
+  if (v == null || v === "") return undefined;
+  if (typeof v !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(v)) throw new ToolError(`${key} must be a YYYY-MM-DD date`);
+  return v;
+}
+
+function intArg(args: Args, key: string, min: number, max: number): number | undefined {
+  const v = args[key];
+  if (v == null || v === "") return undefined;
+  const n = typeof v === "string" ? Number(v) : v;
+  if (typeof n !== "number" || !Number.isInteger(n) || n < min || n > max) {
+    throw new ToolError(`${key} must be a whole number from ${min} to ${max}`);
+  }
+  return n;
+}
+
+function oneOfArg<T extends string>(args: Args, key: string, allowed: readonly T[]): T | undefined {
+  const v = args[key];
+  if (v == null || v === "") return undefined;
+  if (typeof v !== "string" || !(allowed as readonly string[]).includes(v)) {
+    throw new ToolError(`${key} must be one of ${allowed.join(", ")}`);
+  }
+  return v as T;
+}
+
+/**
+ * Hours on local dates from_date..to_date (inclusive) whose local hour is in
+ * [from_hour, to_hour); the hour range may wrap past midnight (21 → 6).
+ */
+function selectHours(grid: Grid, args: Args): Hour[] {
+  const fromDate = dateArg(args, "from_date");
+  const toDate = dateArg(args, "to_date");
+  const fromHour = intArg(args, "from_hour", 0, 23);
+  const toHour = intArg(args, "to_hour", 0, 24);
+  const inHours = (h: number) => {
+    if (fromHour == null && toHour == null) return true;
+    const a = fromHour ?? 0, b = toHour ?? 24;
+    return a <= b ? h >= a && h < b : h >= a || h < b;
+  };
+  const hours = grid.hours.filter(
+    (h) => (!fromDate || h.local.date >= fromDate) && (!toDate || h.local.date <= toDate) && inHours(h.local.hour)
+  );
+  if (!hours.length) {
+    const first = grid.hours[0], last = grid.hours[grid.hours.length - 1];
+    throw new ToolError(
+      `No hours match. The data covers ${first ? first.local.date : "?"} to ${last ? last.local.date : "?"} (${grid.timeZone}).`
+    );
+  }
+  return hours;
+}
+
+/** Fuel codes matching a code ("COL") or a name ("coal", "gas") */
+function matchFuels(grid: Grid, raw: unknown): string[] {
+  if (typeof raw !== "string" || !raw.trim()) throw new ToolError("fuel is required");
+  const wanted = raw.trim().toLowerCase();
+  const codes = [...grid.fuelNames].filter(
+    ([code, name]) => code.toLowerCase() === wanted || name.toLowerCase().includes(wanted)
+  ).map(([code]) => code);
+  if (!codes.length) {
+    const known = [...grid.fuelNames].map(([code, name]) => `${code} (${name})`).join(", ");
+    throw new ToolError(`Unknown fuel "${raw}". Available: ${known}`);
+  }
+  return codes;
+}
+
+/* ---------- queries ---------- */
+
+function metricValue(h: Hour, metric: Metric): number {
+  const v = h.row[metric];
+  if (v == null) throw new ToolError(`${METRICS[metric].label} is not available for ${h.row.state}`);
+  return v * METRICS[metric].scale;
+}
+
+function describeData(grid: Grid) {
+  const { hours } = grid;
+  const days = [...new Map(hours.map((h) => [h.local.date, h.local.weekday]))].map(([date, weekday]) => ({ date, weekday }));
+  return {
+    state: grid.state,
+    time_zone: grid.timeZone,
+    today: days[0]?.date,
+    start: hours.length ? when(hours[0]) : null,
+    end: hours.length ? when(hours[hours.length - 1]) : null,
+    hours: hours.length,
+    days,
+    fuels: [...grid.fuelNames].map(([code, name]) => ({ code, name })),
+    metrics: METRIC_NAMES.map((name) => ({ name, label: METRICS[name].label, unit: METRICS[name].unit })),
+    sources: [STATE_FILES.hourlySummary, STATE_FILES.hourlyFuel],
+  };
+}
+
+function cleanestWindow(grid: Grid, args: Args) {
+  const length = intArg(args, "hours", 1, 24);
+  if (length == null) throw new ToolError("hours is required");
+  const metric = oneOfArg(args, "metric", WINDOW_METRICS) ?? "ci_g_per_kwh";
+  const hours = selectHours(grid, { from_date: args.from_date, to_date: args.to_date });
+
+  // Every run of `length` consecutive hours inside the selection
+  const windows: { start: number; average: number }[] = [];
+  for (let i = 0; i + length <= hours.length; i++) {
+    const last = hours[i + length - 1];
+    if (last.utc.getTime() - hours[i].utc.getTime() !== (length - 1) * HOUR_MS) continue;
+    windows.push({ start: i, average: mean(hours.slice(i, i + length).map((h) => metricValue(h, metric))) });
+  }
+  if (!windows.length) throw new ToolError(`No run of ${length} consecutive hours fits in that range`);
+
+  const best = windows.reduce((a, b) => (b.average < a.average ? b : a));
+  const worst = windows.reduce((a, b) => (b.average > a.average ? b : a));
+  const describe = (w: { start: number; average: number }) => {
+    // Windows end when their last hour does
+    const end = new Date(hours[w.start + length - 1].utc.getTime() + HOUR_MS);
+    return {
+      start: when(hours[w.start]),
+      end: { local: fmtLocal(localTime(end, grid.timeZone)), utc: end.toISOString() },
+      average: round(w.average),
+    };
+  };
+  return {
+    metric,
+    unit: METRICS[metric].unit,
+    window_hours: length,
+    windows_considered: windows.length,
+    cleanest: describe(best),
+    dirtiest: describe(worst),
+    period_average: round(mean(hours.map((h) => metricValue(h, metric)))),
+    cleanest_vs_dirtiest_pct: round(((worst.average - best.average) / worst.average) * 100),
+  };
+}
+
+function fuelGeneration(grid: Grid, args: Args) {
+  const codes = matchFuels(grid, args.fuel);
+  const hours = selectHours(grid, args);
+  const fuelMwh = (h: Hour) => codes.reduce((a, c) => a + (h.fuels.get(c)?.mwh ?? 0), 0);
+  // Emissions are unknown if any hour's are
+  const kgs = hours.flatMap((h) => codes.map((c) => h.fuels.get(c)?.kg ?? 0));
+  const kg = kgs.every((x): x is number => x != null) ? kgs.reduce((a, b) => a + b, 0) : null;
+  const total = hours.reduce((a, h) => a + fuelMwh(h), 0);
+  const all = hours.reduce((a, h) => a + h.row.total_mwh, 0);
+  const peak = hours.reduce((a, h) => (fuelMwh(h) > fuelMwh(a) ? h : a));
+  const everyHour = mean(grid.hours.map(fuelMwh));
+  return {
+    fuel: codes.map((code) => ({ code, name: grid.fuelNames.get(code) })),
+    hours: hours.length,
+    from: when(hours[0]),
+    to: when(hours[hours.length - 1]),
+    total_mwh: round(total, 0),
+    average_mwh_per_hour: round(total / hours.length),
+    share_of_generation_pct: round(all ? (total / all) * 100 : 0),
+    emissions_t_co2: kg != null ? round(kg / 1000, 0) : null,
+    peak: { ...when(peak), mwh: round(fuelMwh(peak)) },
+    all_hours_average_mwh_per_hour: round(everyHour),
+  };
+}
+
+function metricStats(grid: Grid, args: Args) {
+  const metric = oneOfArg(args, "metric", METRIC_NAMES);
+  if (!metric) throw new ToolError(`metric is required (one of ${METRIC_NAMES.join(", ")})`);
+  const hours = selectHours(grid, args);
+  const values = hours.map((h) => metricValue(h, metric));
+  let lo = 0, hi = 0;
+  values.forEach((v, i) => {
+    if (v < values[lo]) lo = i;
+    if (v > values[hi]) hi = i;
+  });
+  const { unit } = METRICS[metric];
+  return {
+    metric,
+    unit,
+    hours: hours.length,
+    from: when(hours[0]),
+    to: when(hours[hours.length - 1]),
+    mean: round(mean(values)),
+    ...(unit === "%" || unit === "g CO₂/kWh" ? {} : { total: round(values.reduce((a, b) => a + b, 0), 0) }),
+    min: { ...when(hours[lo]), value: round(values[lo]) },
+    max: { ...when(hours[hi]), value: round(values[hi]) },
+  };
+}
+
+function hourlyProfile(grid: Grid, args: Args) {
+  const metric = oneOfArg(args, "metric", METRIC_NAMES);
+  if ((metric == null) === (args.fuel == null || args.fuel === "")) throw new ToolError("Give either metric or fuel");
+  const codes = metric ? [] : matchFuels(grid, args.fuel);
+  const value = metric
+    ? (h: Hour) => metricValue(h, metric)
+    : (h: Hour) => codes.reduce((a, c) => a + (h.fuels.get(c)?.mwh ?? 0), 0);
+  const hours = selectHours(grid, { from_date: args.from_date, to_date: args.to_date });
+
+  const byHour = Array.from({ length: 24 }, () => [] as number[]);
+  for (const h of hours) byHour[h.local.hour].push(value(h));
+  const profile = byHour
+    .map((xs, hour) => ({ hour, average: xs.length ? round(mean(xs)) : null }))
+    .filter((p): p is { hour: number; average: number } => p.average != null);
+  return {
+    ...(metric ? { metric } : { fuel: codes.map((code) => ({ code, name: grid.fuelNames.get(code) })) }),
+    unit: metric ? METRICS[metric].unit : "MWh",
+    time_zone: grid.timeZone,
+    days: new Set(hours.map((h) => h.local.date)).size,
+    by_local_hour: profile,
+    lowest_hour: profile.reduce((a, b) => (b.average < a.average ? b : a)),
+    highest_hour: profile.reduce((a, b) => (b.average > a.average ? b : a)),
+  };
+}
+
+export type DescribeDataResult = ReturnType<typeof describeData>;
+export type CleanestWindowResult = ReturnType<typeof cleanestWindow>;
+export type FuelGenerationResult = ReturnType<typeof fuelGeneration>;
+export type MetricStatsResult = ReturnType<typeof metricStats>;
+
+/* ---------- tool registry ---------- */
+
+const dateRange = {
+  from_date: { type: "string", description: "First local date to include, YYYY-MM-DD" },
+  to_date: { type: "string", description: "Last local date to include, YYYY-MM-DD" },
+};
+const hourRange = {
+  from_hour: { type: "integer", description: "Local hour the range starts at, 0-23" },
+  to_hour: { type: "integer", description: "Local hour the range ends before, 1-24; may be less than from_hour to wrap past midnight" },
+};
+
+const QUERIES: Record<string, { spec: ToolSpec; run: (grid: Grid, args: Args) => unknown }> = {
+  describe_data: {
+    spec: {
+      name: "describe_data",
+      description: "The forecast window (local dates and weekdays, with the first one as today), time zone, fuels and metrics available.",
+      parameters: { type: "object", properties: {} },
+    },
+    run: describeData,
+  },
+  cleanest_window: {
+    spec: {
+      name: "cleanest_window",
+      description: "The run of consecutive hours with the lowest average carbon intensity (or fossil share), and the highest for comparison.",
+      parameters: {
+        type: "object",
+        properties: {
+          hours: { type: "integer", description: "Window length in hours, 1-24" },
+          metric: { type: "string", description: "What to minimize", enum: WINDOW_METRICS },
+          ...dateRange,
+        },
+        required: ["hours"],
+      },
+    },
+    run: cleanestWindow,
+  },
+  fuel_generation: {
+    spec: {
+      name: "fuel_generation",
+      description: "How much one fuel generates (MWh, share, emissions, peak hour) over a date and time-of-day range.",
+      parameters: {
+        type: "object",
+        properties: {
+          fuel: { type: "string", description: "Fuel code or name, e.g. COL or coal, NG or gas, SUN or solar" },
+          ...dateRange,
+          ...hourRange,
+        },
+        required: ["fuel"],
+      },
+    },
+    run: fuelGeneration,
+  },
+  metric_stats: {
+    spec: {
+      name: "metric_stats",
+      description: "Mean, minimum and maximum (with times) of an hourly metric over a date and time-of-day range.",
+      parameters: {
+        type: "object",
+        properties: {
+          metric: { type: "string", description: "Hourly metric", enum: METRIC_NAMES },
+          ...dateRange,
+          ...hourRange,
+        },
+        required: ["metric"],
+      },
+    },
+    run: metricStats,
+  },
+  hourly_profile: {
+    spec: {
+      name: "hourly_profile",
+      description: "Average of a metric, or of one fuel's generation, for each local hour of the day.",
+      parameters: {
+        type: "object",
+        properties: {
+          metric: { type: "string", description: "Hourly metric (give this or fuel)", enum: METRIC_NAMES },
+          fuel: { type: "string", description: "Fuel code or name (give this or metric)" },
+          ...dateRange,
+        },
+      },
+    },
+    run: hourlyProfile,
+  },
+};
+
+export const GRID_TOOLS: ToolSpec[] = Object.values(QUERIES).map((q) => q.spec);
+
+/**
+ * Run one tool call for `state`. Bad arguments come back as `{ error }` for
+ * the model to correct; anything else (missing data files) is thrown.
+ */
+export async function runGridTool(state: string, name: string, args: unknown): Promise<unknown> {
+  const query = QUERIES[name];
+  if (!query) return { error: `Unknown tool ${name}. Available: ${Object.keys(QUERIES).join(", ")}` };
+  try {
+    return query.run(await loadGrid(state), isRecord(args) ? args : {});
+  } catch (e) {
+    if (e instanceof ToolError) return { error: e.message };
+    throw e;
+  }
+}
@@ -0,0 +1,38 @@
+// server/index.ts
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createApp } from "./app";
+import { createChatModel } from "./chatModels";
+import { createSummarizer } from "./summarizers";
+import { createSummaryCache } from "./summaryCache";
+
+// Configure the summarizer in .env (see server/summarizers/index.ts); with
+// nothing set, summaries come from the state data and no network is needed.
+const summarizer = createSummarizer();
+const chatModel = createChatModel();
+// Finished summaries are kept on disk (SUMMARY_CACHE_DIR, default server/.cache/summaries)
+const summaryCache = createSummaryCache(
+  process.env.SUMMARY_CACHE_DIR || path.join(path.dirname(fileURLToPath(import.meta.url)), ".cache", "summaries")
+);
+
+// Model-backed routes allow RATE_LIMIT_PER_MIN requests per client (bursts of
+// RATE_LIMIT_BURST); 0 turns the limit off. Behind a reverse proxy, set
+// TRUST_PROXY (e.g. 1 or "loopback") so clients are told apart by their own IP.
+const envNumber = (key: string, fallback: number) => {
+  const n = Number(process.env[key] || fallback);
+  return Number.isFinite(n) ? n : fallback;
+};
+const perMinute = envNumber("RATE_LIMIT_PER_MIN", 10);
+const burst = envNumber("RATE_LIMIT_BURST", 5);
+const rateLimit = perMinute > 0 && burst > 0 ? { perMinute, burst } : false;
+const trustProxyEnv = process.env.TRUST_PROXY;
+const trustProxy =
+  trustProxyEnv == null || trustProxyEnv === "" ? false
+  : trustProxyEnv === "true" ? true
+  : /^\d+$/.test(trustProxyEnv) ? Number(trustProxyEnv)
+  : trustProxyEnv;
+
+const PORT = Number(process.env.PORT) || 8787;
+createApp({ summarizer, chatModel, summaryCache, rateLimit, trustProxy }).listen(PORT, () => {
+  console.log(`API listening on http://localhost:${PORT}/api (summarizer: ${summarizer.name}, chat: ${chatModel.name})`);
+});
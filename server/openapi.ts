@@ -0,0 +1,127 @@
+// server/openapi.ts
+// OpenAPI 3.1 description of the public endpoints, served at
+// /api/openapi.json for client generators and home-automation integrations.
+import { SIGNAL_FORMATS, SIGNALS } from "./signal";
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+export const openApiSpec = {
+  openapi: "3.1.0",
+  info: {
+    title: "Rizz The Grid API",
+    version: "1.0.0",
+    description:
+      "Hourly carbon-intensity forecasts for US states, from each state's 14-day forecast. " +
+      "Signals are rated against the state's own forecast: green is its cleanest third of hours, red its dirtiest third.",
+  },
+  paths: {
+    "/api/signal/{state}": {
+      get: {
+        operationId: "getSignal",
+        summary: "Hourly carbon-intensity signal for a state",
+        parameters: [
+          {
+            name: "state",
+            in: "path",
+            required: true,
+            description: 'State name in any case; "-" or "_" may stand for spaces (e.g. new-york).',
+            schema: { type: "string" },
+          },
+          {
+            name: "from",
+            in: "query",
+            description: "First hour to include (ISO 8601, inclusive).",
+            schema: { type: "string", format: "date-time" },
+          },
+          {
+            name: "to",
+            in: "query",
+            description: "Last hour to include (ISO 8601, inclusive).",
+            schema: { type: "string", format: "date-time" },
+          },
+          {
+            name: "format",
+            in: "query",
+            description: "Response format; defaults to the Accept header, then JSON.",
+            schema: { type: "string", enum: SIGNAL_FORMATS },
+          },
+          {
+            name: "If-None-Match",
+            in: "header",
+            description: "ETag from an earlier response; unchanged data is answered 304.",
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "One entry per forecast hour in the range.",
+            headers: {
+              ETag: { schema: { type: "string" } },
+              "Cache-Control": { schema: { type: "string" } },
+            },
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/SignalResponse" } },
+              "text/csv": {
+                schema: { type: "string" },
+                example:
+                  "timestamp_utc,ci_g_per_kwh,fossil_share,signal,score\n2025-09-29T01:00:00Z,212.4,0.4123,amber,0.418\n",
+              },
+            },
+          },
+          "304": { description: "Not modified since the ETag in If-None-Match." },
+          "400": errorResponse("Invalid from, to or format."),
+          "404": errorResponse("Unknown state."),
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      SignalHour: {
+        type: "object",
+        required: ["timestamp_utc", "ci_g_per_kwh", "fossil_share", "signal", "score"],
+        properties: {
+          timestamp_utc: { type: "string", format: "date-time", description: "Start of the hour, UTC." },
+          ci_g_per_kwh: { type: "number", description: "Carbon intensity, g CO2 per kWh generated." },
+          fossil_share: { type: "number", minimum: 0, maximum: 1, description: "Share of generation from fossil fuels." },
+          signal: { type: "string", enum: SIGNALS },
+          score: {
+            type: "number",
+            minimum: 0,
+            maximum: 1,
+            description: "0 is the cleanest hour in the state's forecast, 1 the dirtiest.",
+          },
+        },
+      },
+      SignalResponse: {
+        type: "object",
+        required: ["state", "unit", "thresholds", "hours"],
+        properties: {
+          state: { type: "string" },
+          unit: { type: "string", const: "g CO2/kWh" },
+          thresholds: {
+            type: "object",
+            required: ["green_max_g_per_kwh", "red_min_g_per_kwh"],
+            properties: {
+              green_max_g_per_kwh: { type: "number", description: "Hours at or below this are green." },
+              red_min_g_per_kwh: { type: "number", description: "Hours at or above this are red." },
+            },
+          },
+          hours: { type: "array", items: { $ref: "#/components/schemas/SignalHour" } },
+        },
+      },
+      Error: {
+        type: "object",
+        required: ["error", "code"],
+        properties: {
+          error: { type: "string" },
+          code: { type: "string" },
+          details: {},
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,54 @@
+// server/rateLimit.ts
+// Per-client token buckets for the routes that spend model quota. Each
+// client (by req.ip) holds up to `burst` tokens, refilled at `perMinute`;
+// a request takes one, and with none left it is answered 429 with a
+// Retry-After header.
+import type { RequestHandler } from "express";
+import { HttpError } from "./errors";
+
+export type RateLimitOptions = {
+  /** Sustained requests per minute per client */
+  perMinute: number;
+  /** Requests a client may make back to back */
+  burst: number;
+};
+
+type Bucket = { tokens: number; at: number };
+
+export function rateLimit({ perMinute, burst }: RateLimitOptions, now: () => number = Date.now): RequestHandler {
+  const perMs = perMinute / 60_000;
+  const buckets = new Map<string, Bucket>();
+  let lastSweep = now();
+
+  const refill = (b: Bucket, t: number) => {
+    b.tokens = Math.min(burst, b.tokens + (t - b.at) * perMs);
+    b.at = t;
+  };
+
+  return (req, res, next) => {
+    const t = now();
+    // Forget clients whose bucket is full again; they look like new ones
+    if (t - lastSweep > 60_000) {
+      for (const [key, b] of buckets) {
+        refill(b, t);
+        if (b.tokens >= burst) buckets.delete(key);
+      }
+      lastSweep = t;
+    }
+
+    const key = req.ip ?? req.socket.remoteAddress ?? "unknown";
+    let bucket = buckets.get(key);
+    if (!bucket) buckets.set(key, (bucket = { tokens: burst, at: t }));
+    refill(bucket, t);
+
+    if (bucket.tokens < 1) {
+      const retryAfterSec = Math.ceil((1 - bucket.tokens) / perMs / 1000);
+      res.setHeader("Retry-After", String(retryAfterSec));
+      next(new HttpError(429, "rate_limited", `Too many requests; try again in ${retryAfterSec} s`, { retryAfterSec }));
+      return;
+    }
+    bucket.tokens -= 1;
+    res.setHeader("X-RateLimit-Remaining", String(Math.floor(bucket.tokens)));
+    next();
+  };
+}
@@ -0,0 +1,115 @@
+// server/signal.ts
+// /api/signal/:state: a public, cacheable carbon-intensity signal for home
+// automation (Home Assistant, EV chargers). Each forecast hour is rated
+// green, amber or red against the state's own 14 days, so "green" always
+// means "one of this grid's cleaner hours", whatever its typical mix.
+import { createHash } from "node:crypto";
+import { Router } from "express";
+import { parseTimestamp } from "../src/chartUtils";
+import type { HourlySummaryRow } from "../src/stateSchema";
+import { badRequest } from "./errors";
+import { loadStateFile, resolveState } from "./stateStore";
+import { optionalOneOf, optionalTime } from "./validate";
+
+export const SIGNALS = ["green", "amber", "red"] as const;
+export type Signal = (typeof SIGNALS)[number];
+
+export const SIGNAL_FORMATS = ["json", "csv"] as const;
+type SignalFormat = (typeof SIGNAL_FORMATS)[number];
+
+/** The data only changes on deploy; clients revalidate with If-None-Match */
+const CACHE_CONTROL = "public, max-age=300";
+
+export type SignalHour = {
+  /** Start of the hour, ISO 8601 in UTC */
+  timestamp_utc: string;
+  ci_g_per_kwh: number;
+  /** 0–1 */
+  fossil_share: number;
+  signal: Signal;
+  /** 0 = the cleanest hour in the state's forecast, 1 = the dirtiest */
+  score: number;
+};
+
+export type SignalThresholds = {
+  /** Hours at or below this are green (lower third of the forecast) */
+  green_max_g_per_kwh: number;
+  /** Hours at or above this are red (upper third) */
+  red_min_g_per_kwh: number;
+};
+
+const round = (n: number, digits: number) => Number(n.toFixed(digits));
+
+/** Linear-interpolated quantile of ascending `sorted` */
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.min(lo + 1, sorted.length - 1);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/** Thresholds come from all hours, so an hour's signal doesn't depend on ?from=/?to= */
+export function rateHours(rows: HourlySummaryRow[]): { thresholds: SignalThresholds; hours: SignalHour[] } {
+  const sorted = rows.map((r) => r.ci_g_per_kwh).sort((a, b) => a - b);
+  const min = sorted[0] ?? 0;
+  const range = (sorted[sorted.length - 1] ?? 0) - min;
+  const greenMax = sorted.length ? quantile(sorted, 1 / 3) : 0;
+  const redMin = sorted.length ? quantile(sorted, 2 / 3) : 0;
+
+  const hours = rows.map((r): SignalHour => {
+    const ci = r.ci_g_per_kwh;
+    return {
+      timestamp_utc: parseTimestamp(r.timestamp_utc).toISOString().replace(".000Z", "Z"),
+      ci_g_per_kwh: round(ci, 1),
+      fossil_share: round(r.fossil_share, 4),
+      signal: ci <= greenMax ? "green" : ci >= redMin ? "red" : "amber",
+      score: range > 0 ? round((ci - min) / range, 3) : 0,
+    };
+  });
+  return {
+    thresholds: { green_max_g_per_kwh: round(greenMax, 1), red_min_g_per_kwh: round(redMin, 1) },
+    hours,
+  };
+}
+
+const CSV_COLUMNS = ["timestamp_utc", "ci_g_per_kwh", "fossil_share", "signal", "score"] as const satisfies readonly (keyof SignalHour)[];
+
+function toCsv(hours: SignalHour[]): string {
+  const lines = hours.map((h) => CSV_COLUMNS.map((c) => h[c]).join(","));
+  return [CSV_COLUMNS.join(","), ...lines].join("\n") + "\n";
+}
+
+export const signalRouter = Router();
+
+/**
+ * Hourly signal for one state, narrowed to an ISO ?from= / ?to= range
+ * (inclusive). ?format=csv, or Accept: text/csv, returns CSV instead of JSON.
+ */
+signalRouter.get("/:state", async (req, res) => {
+  const query = req.query as Record<string, unknown>;
+  const from = optionalTime(query.from, "from");
+  const to = optionalTime(query.to, "to");
+  if (from != null && to != null && from > to) throw badRequest("from must not be after to");
+  const format: SignalFormat =
+    optionalOneOf(query, "format", SIGNAL_FORMATS) ?? (req.accepts(["json", "csv"]) === "csv" ? "csv" : "json");
+
+  const state = await resolveState(req.params.state);
+  const { thresholds, hours } = rateHours(await loadStateFile(state, "hourlySummary"));
+  const selected = hours.filter((h) => {
+    const t = Date.parse(h.timestamp_utc);
+    return (from == null || t >= from) && (to == null || t <= to);
+  });
+
+  const body =
+    format === "csv"
+      ? toCsv(selected)
+      : JSON.stringify({ state, unit: "g CO2/kWh", thresholds, hours: selected });
+  res.setHeader("Cache-Control", CACHE_CONTROL);
+  res.setHeader("Vary", "Accept");
+  res.setHeader("ETag", `"${createHash("sha1").update(body).digest("base64url")}"`);
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+  res.type(format === "csv" ? "text/csv" : "application/json").send(body);
+});
@@ -0,0 +1,83 @@
+// server/standInServer.ts
+// The stand-in chat model behind an OpenAI-compatible /v1/chat/completions
+// endpoint, for exercising the real HTTP tool-calling path without a model:
+//
+//   npm run server:stand-in
+//   SUMMARIZER=openai SUMMARIZER_BASE_URL=http://localhost:8788/v1 SUMMARIZER_MODEL=stand-in npm run server
+//
+// It only answers requests that offer tools, so summaries fall back to data.
+import express from "express";
+import type { ChatMessage, ToolSpec } from "./chatModels";
+import { standInChatModel } from "./chatModels/standIn";
+import { isRecord } from "./validate";
+
+function fromWire(m: unknown): ChatMessage {
+  const msg = isRecord(m) ? m : {};
+  const content = typeof msg.content === "string" ? msg.content : "";
+  if (msg.role === "tool") {
+    return { role: "tool", toolCallId: String(msg.tool_call_id ?? ""), name: String(msg.name ?? ""), content };
+  }
+  if (msg.role === "assistant") {
+    const toolCalls = (Array.isArray(msg.tool_calls) ? msg.tool_calls : []).filter(isRecord).map((c) => {
+      const fn = isRecord(c.function) ? c.function : {};
+      const args: unknown = typeof fn.arguments === "string" ? JSON.parse(fn.arguments || "{}") : fn.arguments;
+      return { id: String(c.id ?? ""), name: String(fn.name ?? ""), arguments: isRecord(args) ? args : {} };
+    });
+    return { role: "assistant", content, toolCalls };
+  }
+  return { role: msg.role === "system" ? "system" : "user", content };
+}
+
+/** OpenAI tool messages carry only the call id; recover each one's tool name */
+function nameToolResults(messages: ChatMessage[]): ChatMessage[] {
+  const names = new Map<string, string>();
+  for (const m of messages) if (m.role === "assistant") for (const c of m.toolCalls ?? []) names.set(c.id, c.name);
+  return messages.map((m) => (m.role === "tool" && !m.name ? { ...m, name: names.get(m.toolCallId) ?? "" } : m));
+}
+
+const model = standInChatModel();
+const app = express();
+app.use(express.json({ limit: "1mb" }));
+
+app.post("/v1/chat/completions", async (req, res) => {
+  const body = isRecord(req.body) ? req.body : {};
+  const tools: ToolSpec[] = (Array.isArray(body.tools) ? body.tools : [])
+    .filter(isRecord)
+    .map((t) => t.function as ToolSpec)
+    .filter((f) => isRecord(f) && typeof f.name === "string");
+  if (!tools.length) {
+    res.status(400).json({ error: { message: "The stand-in only answers tool-calling chat requests" } });
+    return;
+  }
+  const messages = nameToolResults((Array.isArray(body.messages) ? body.messages : []).map(fromWire));
+  const turn = await model.complete(messages, tools);
+  res.json({
+    id: `chatcmpl-${Date.now()}`,
+    object: "chat.completion",
+    model: typeof body.model === "string" ? body.model : model.name,
+    choices: [
+      {
+        index: 0,
+        finish_reason: turn.toolCalls.length ? "tool_calls" : "stop",
+        message: {
+          role: "assistant",
+          content: turn.toolCalls.length ? null : turn.text,
+          ...(turn.toolCalls.length
+            ? {
+                tool_calls: turn.toolCalls.map((c) => ({
+                  id: c.id,
+                  type: "function",
+                  function: { name: c.name, arguments: JSON.stringify(c.arguments) },
+                })),
+              }
+            : {}),
+        },
+      },
+    ],
+  });
+});
+
+const PORT = Number(process.env.STAND_IN_PORT) || 8788;
+app.listen(PORT, () => {
+  console.log(`Stand-in model listening on http://localhost:${PORT}/v1`);
+});
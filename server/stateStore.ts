@@ -0,0 +1,79 @@
+// server/stateStore.ts
+// Filesystem counterpart of src/stateData.ts: reads src/states/<State>/ and
+// src/data/ from disk, validates with the shared stateSchema parsers and
+// caches the parsed result for the life of the process.
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  NATIONAL_FILES,
+  STATE_FILES,
+  normalizeStateName,
+  parseNationalFile,
+  parseStateFile,
+  type NationalData,
+  type NationalKind,
+  type StateFileData,
+  type StateFileKind,
+} from "../src/stateSchema";
+import { notFound } from "./errors";
+
+const SRC_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../src");
+const STATES_DIR = path.join(SRC_DIR, "states");
+const DATA_DIR = path.join(SRC_DIR, "data");
+
+// Promise cache; failed loads are evicted so a later request can retry
+const cache = new Map<string, Promise<unknown>>();
+
+function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+  let p = cache.get(key) as Promise<T> | undefined;
+  if (!p) {
+    p = load().catch((e) => {
+      cache.delete(key);
+      throw e;
+    });
+    cache.set(key, p);
+  }
+  return p;
+}
+
+async function readText(file: string, source: string): Promise<string> {
+  try {
+    return await readFile(file, "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") throw notFound(`${source} not found`);
+    throw e;
+  }
+}
+
+/** State folder names present in src/states, sorted */
+export function listStates(): Promise<string[]> {
+  return cached("states", async () => {
+    const entries = await readdir(STATES_DIR, { withFileTypes: true });
+    return entries.filter((e) => e.isDirectory()).map((e) => e.name).sort();
+  });
+}
+
+/** Folder name for a state given in any case, with "-" or "_" for spaces */
+export async function resolveState(name: string): Promise<string> {
+  const wanted = normalizeStateName(name.replace(/[-_]+/g, " "));
+  const match = (await listStates()).find((s) => normalizeStateName(s) === wanted);
+  if (!match) throw notFound(`Unknown state "${name}"`);
+  return match;
+}
+
+export function loadStateFile<K extends StateFileKind>(state: string, kind: K): Promise<StateFileData[K]> {
+  return cached(`state/${state}/${kind}`, async () => {
+    const source = `${state}/${STATE_FILES[kind]}`;
+    const text = await readText(path.join(STATES_DIR, state, STATE_FILES[kind]), source);
+    return parseStateFile(kind, text, source);
+  });
+}
+
+export function loadNational<K extends NationalKind>(kind: K): Promise<NationalData[K]> {
+  return cached(`national/${kind}`, async () => {
+    const source = NATIONAL_FILES[kind];
+    const text = await readText(path.join(DATA_DIR, source), source);
+    return parseNationalFile(kind, text, source);
+  });
+}
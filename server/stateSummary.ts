@@ -0,0 +1,97 @@
+// server/stateSummary.ts
+// Headline numbers for one state's 14-day window, computed from the same
+// files the dashboard reads.
+import { parseTimestamp } from "../src/chartUtils";
+import {
+  indexByState,
+  normalizeStateName,
+  type FuelBreakdownRow,
+  type HourlySummaryRow,
+  type StateImpactRow,
+} from "../src/stateSchema";
+import { HttpError } from "./errors";
+import { loadNational, loadStateFile } from "./stateStore";
+
+export type StateSummary = {
+  state: string;
+  respondent: string;
+  window: { start: string; end: string; hours: number };
+  /** Totals over the window, MWh */
+  energy: { demandMWh: number; fossilMWh: number; renewableMWh: number; nuclearMWh: number };
+  /** Energy-weighted shares of demand, % */
+  sharesPct: { fossil: number; renewable: number; clean: number };
+  /** Grid carbon intensity, g CO₂/kWh */
+  carbonIntensity: { mean: number; min: number; minAt: string; max: number; maxAt: string };
+  /** null when the file has no usable emissions column */
+  emissionsTons: number | null;
+  /** Optimizer result from fossil_reduction_percent_14d.txt, when present */
+  fossilReductionPercent: number | null;
+  /** Rows for this state from the national CSVs, when present */
+  impact: StateImpactRow | null;
+  fuelBreakdown: FuelBreakdownRow | null;
+};
+
+/** Missing optional files read as null; anything else still fails */
+async function optional<T>(p: Promise<T>): Promise<T | null> {
+  try {
+    return await p;
+  } catch (e) {
+    if (e instanceof HttpError && e.status === 404) return null;
+    throw e;
+  }
+}
+
+export function summarizeHourly(rows: HourlySummaryRow[]) {
+  if (!rows.length) throw new HttpError(500, "invalid_data", "hourly summary has no rows");
+  const sum = (f: (r: HourlySummaryRow) => number) => rows.reduce((a, r) => a + f(r), 0);
+  const demand = sum((r) => r.total_mwh);
+  const fossil = sum((r) => r.fossil_mwh);
+  const renewable = sum((r) => r.renewable_mwh);
+  const nuclear = sum((r) => r.nuclear_mwh);
+  const emissionsKg = rows.every((r) => r.total_emissions_kg_co2 != null)
+    ? sum((r) => r.total_emissions_kg_co2 ?? 0)
+    : null;
+  let lo = rows[0], hi = rows[0];
+  for (const r of rows) {
+    if (r.ci_g_per_kwh < lo.ci_g_per_kwh) lo = r;
+    if (r.ci_g_per_kwh > hi.ci_g_per_kwh) hi = r;
+  }
+  const sorted = rows.map((r) => parseTimestamp(r.timestamp_utc).getTime()).sort((a, b) => a - b);
+  const pct = (x: number) => (demand > 0 ? (x / demand) * 100 : 0);
+  return {
+    respondent: rows[0].respondent,
+    window: {
+      start: new Date(sorted[0]).toISOString(),
+      end: new Date(sorted[sorted.length - 1]).toISOString(),
+      hours: rows.length,
+    },
+    energy: { demandMWh: demand, fossilMWh: fossil, renewableMWh: renewable, nuclearMWh: nuclear },
+    sharesPct: { fossil: pct(fossil), renewable: pct(renewable), clean: pct(demand - fossil) },
+    carbonIntensity: {
+      // kg/MWh equals g/kWh; without emissions, weight each hour's intensity by its demand
+      mean: demand > 0 ? (emissionsKg ?? sum((r) => r.ci_g_per_kwh * r.total_mwh)) / demand : 0,
+      min: lo.ci_g_per_kwh,
+      minAt: lo.timestamp_utc,
+      max: hi.ci_g_per_kwh,
+      maxAt: hi.timestamp_utc,
+    },
+    emissionsTons: emissionsKg != null ? emissionsKg / 1000 : null,
+  };
+}
+
+export async function buildStateSummary(state: string): Promise<StateSummary> {
+  const [rows, reduction, impact, fuels] = await Promise.all([
+    loadStateFile(state, "hourlySummary"),
+    optional(loadStateFile(state, "fossilReductionPercent")),
+    optional(loadNational("stateImpact")),
+    optional(loadNational("fuelBreakdown")),
+  ]);
+  const key = normalizeStateName(state);
+  return {
+    state,
+    ...summarizeHourly(rows),
+    fossilReductionPercent: reduction,
+    impact: impact ? indexByState(impact)[key] ?? null : null,
+    fuelBreakdown: fuels ? indexByState(fuels)[key] ?? null : null,
+  };
+}
@@ -0,0 +1,73 @@
+// server/states.ts
+// /api/states: the state datasets the dashboard is built from.
+import { Router } from "express";
+import type { HourlySummaryRow } from "../src/stateSchema";
+import { parseTimestamp } from "../src/chartUtils";
+import { FIGURE_KINDS, type FigureKind } from "../src/figures";
+import { badRequest } from "./errors";
+import { buildFigureContext } from "./figureContext";
+import { buildStateSummary } from "./stateSummary";
+import { listStates, loadStateFile, resolveState } from "./stateStore";
+import { optionalList, optionalTime } from "./validate";
+
+/** Columns of hourly_summary_14d.csv that ?fields= may select */
+const HOURLY_FIELDS = [
+  "total_mwh",
+  "fossil_mwh",
+  "renewable_mwh",
+  "nuclear_mwh",
+  "total_emissions_kg_co2",
+  "fossil_share",
+  "renewable_share",
+  "clean_share",
+  "ci_g_per_kwh",
+] as const satisfies readonly (keyof HourlySummaryRow)[];
+
+const stateLinks = (name: string) => {
+  const base = `/api/states/${encodeURIComponent(name)}`;
+  return { summary: `${base}/summary`, hourly: `${base}/hourly` };
+};
+
+export const statesRouter = Router();
+
+statesRouter.get("/", async (_req, res) => {
+  const names = await listStates();
+  res.json({ states: names.map((name) => ({ name, links: stateLinks(name) })) });
+});
+
+statesRouter.get("/:name/summary", async (req, res) => {
+  const state = await resolveState(req.params.name);
+  res.json(await buildStateSummary(state));
+});
+
+/** Hourly rows, optionally narrowed to ?fields=a,b and an ISO ?from= / ?to= range (inclusive) */
+statesRouter.get("/:name/hourly", async (req, res) => {
+  const fields = optionalList(req.query.fields, "fields", HOURLY_FIELDS) ?? [...HOURLY_FIELDS];
+  const from = optionalTime(req.query.from, "from");
+  const to = optionalTime(req.query.to, "to");
+  if (from != null && to != null && from > to) throw badRequest("from must not be after to");
+
+  const state = await resolveState(req.params.name);
+  const rows = (await loadStateFile(state, "hourlySummary")).filter((r) => {
+    const t = parseTimestamp(r.timestamp_utc).getTime();
+    return (from == null || t >= from) && (to == null || t <= to);
+  });
+  res.json({
+    state,
+    fields,
+    rows: rows.map((r) => ({
+      timestamp_utc: r.timestamp_utc,
+      ...Object.fromEntries(fields.map((f) => [f, r[f]])),
+    })),
+  });
+});
+
+/** Facts and daily series behind one dashboard figure (what summaries cite) */
+statesRouter.get("/:name/figures/:figure", async (req, res) => {
+  const figure = req.params.figure;
+  if (!(FIGURE_KINDS as readonly string[]).includes(figure)) {
+    throw badRequest(`Unknown figure: ${figure}`, { field: "figure", allowed: FIGURE_KINDS });
+  }
+  const state = await resolveState(req.params.name);
+  res.json(await buildFigureContext(state, figure as FigureKind));
+});
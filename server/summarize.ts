@@ -0,0 +1,155 @@
+// server/summarize.ts
+// POST /api/summarize: describe a dashboard figure in three bullets.
+// With { state, figure } the summarizer works from the numbers behind the
+// figure and the reply lists the facts it cites; a bare image is still
+// accepted for callers that only have a screenshot. The prompt is the
+// server's own: callers may add a short `focus`, and a `title` for images.
+//
+// Replies are JSON, or server-sent events when the request accepts
+// text/event-stream: "delta" events carry text as it is generated, then one
+// "done" event carries the same body as the JSON reply (or an "error" event).
+// Finished summaries are cached on disk; a client that disconnects cancels
+// generation.
+import { createHash } from "node:crypto";
+import { Router, type Response } from "express";
+import { FIGURE_KINDS } from "../src/figures";
+import { extractCitations } from "./citations";
+import { HttpError, badRequest, errorBody, toHttpError } from "./errors";
+import { buildFigureContext } from "./figureContext";
+import { resolveState } from "./stateStore";
+import { summaryCacheKey, type CachedSummary, type SummaryCache } from "./summaryCache";
+import type { Summarizer } from "./summarizers";
+import { optionalOneOf, optionalString, optionalText, requireObject } from "./validate";
+
+/** Longest focus and title accepted; both end up quoted in the prompt */
+const MAX_FOCUS_LENGTH = 200;
+const MAX_TITLE_LENGTH = 150;
+
+/** Image types models accept, with the bytes each file starts with */
+const IMAGE_TYPES = {
+  "image/png": (b: Buffer) => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  "image/jpeg": (b: Buffer) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff,
+  "image/webp": (b: Buffer) => b.toString("latin1", 0, 4) === "RIFF" && b.toString("latin1", 8, 12) === "WEBP",
+} as const;
+type ImageType = keyof typeof IMAGE_TYPES;
+const IMAGE_MIME_TYPES = Object.keys(IMAGE_TYPES) as ImageType[];
+
+/** The declared (or, if absent, detected) type of a base64 image; rejects anything not on the list */
+function checkImage(base64: string, declared: string | undefined): ImageType {
+  if (declared != null && !(IMAGE_MIME_TYPES as string[]).includes(declared)) {
+    throw new HttpError(415, "unsupported_media_type", `Unsupported mimeType: ${declared}`, {
+      field: "mimeType",
+      allowed: IMAGE_MIME_TYPES,
+    });
+  }
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(base64)) throw badRequest("imageBase64 is not valid base64", { field: "imageBase64" });
+  const bytes = Buffer.from(base64.slice(0, 64), "base64");
+  const detected = IMAGE_MIME_TYPES.find((t) => IMAGE_TYPES[t](bytes));
+  if (!detected) {
+    throw new HttpError(415, "unsupported_media_type", "imageBase64 is not a PNG, JPEG or WebP image", {
+      field: "imageBase64",
+      allowed: IMAGE_MIME_TYPES,
+    });
+  }
+  if (declared != null && declared !== detected) {
+    throw badRequest(`imageBase64 holds ${detected}, not ${declared}`, { field: "mimeType" });
+  }
+  return detected;
+}
+
+function openEventStream(res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Keep reverse proxies from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  return (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export function summarizeRouter(summarizer: Summarizer, cache?: SummaryCache) {
+  const router = Router();
+
+  router.post("/", async (req, res) => {
+    const body = requireObject(req.body);
+    const stateName = optionalString(body, "state");
+    const figure = optionalOneOf(body, "figure", FIGURE_KINDS);
+    if ((stateName == null) !== (figure == null)) {
+      throw badRequest("state and figure must be sent together", { field: stateName == null ? "state" : "figure" });
+    }
+    if (body.prompt != null) {
+      throw badRequest("prompt is not accepted: the server writes the prompt. Send focus (a short topic) instead", {
+        field: "prompt",
+      });
+    }
+    const focus = optionalText(body, "focus", MAX_FOCUS_LENGTH);
+    const title = optionalText(body, "title", MAX_TITLE_LENGTH);
+    const imageBase64 = optionalString(body, "imageBase64");
+    const mimeType = imageBase64 ? checkImage(imageBase64, optionalString(body, "mimeType")) : undefined;
+    const stream = req.accepts(["application/json", "text/event-stream"]) === "text/event-stream";
+
+    const state = stateName ? await resolveState(stateName) : undefined;
+    const context = state && figure ? await buildFigureContext(state, figure) : undefined;
+    const key = summaryCacheKey({
+      summarizer: summarizer.name,
+      state,
+      figure,
+      focus,
+      title,
+      image: imageBase64 ? createHash("sha256").update(imageBase64).digest("hex") : null,
+    });
+
+    const hit = await cache?.get(key);
+    if (hit) {
+      const reply = { ...hit, cached: true };
+      if (stream) {
+        const send = openEventStream(res);
+        send("delta", { text: hit.summary });
+        send("done", reply);
+        res.end();
+      } else {
+        res.json(reply);
+      }
+      return;
+    }
+
+    // Stop generating if the client goes away before we finish
+    const abort = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) abort.abort();
+    });
+    const send = stream ? openEventStream(res) : null;
+
+    try {
+      const result = await summarizer.summarize(
+        { focus, title, image: imageBase64 && mimeType ? { base64: imageBase64, mimeType } : undefined, context },
+        { signal: abort.signal, onText: send ? (text) => send("delta", { text }) : undefined }
+      );
+      const entry: CachedSummary = {
+        ...result,
+        citations: context ? extractCitations(result.summary, context.facts) : [],
+        createdAt: new Date().toISOString(),
+      };
+      // Fallback answers aren't cached, so the configured model gets another chance next time
+      if (result.provider === summarizer.name) await cache?.set(key, entry);
+      const reply = { ...entry, cached: false };
+      if (send) {
+        send("done", reply);
+        res.end();
+      } else {
+        res.json(reply);
+      }
+    } catch (e) {
+      if (abort.signal.aborted) return;
+      if (!send) throw e;
+      // Headers are gone; report the failure in-band
+      const httpErr = toHttpError(e);
+      if (httpErr.status >= 500) console.error(`${req.method} ${req.originalUrl}:`, e);
+      send("error", errorBody(httpErr));
+      res.end();
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,44 @@
+// server/summarizers/data.test.ts
+import { describe, expect, it } from "vitest";
+import { FIGURE_KINDS } from "../../src/figures";
+import { extractCitations } from "../citations";
+import { HttpError } from "../errors";
+import { buildFigureContext } from "../figureContext";
+import { listStates } from "../stateStore";
+import { DATA_SUMMARIZER, dataSummarizer, summarizeFigure } from "./data";
+
+const states = await listStates();
+
+describe("summarizeFigure", () => {
+  // Every number it writes is a cited fact, so every citation must verify
+  it.each(FIGURE_KINDS)("%s: cites only facts its own numbers agree with, for every state", async (figure) => {
+    for (const state of states) {
+      const context = await buildFigureContext(state, figure).catch((e) => {
+        // A few states don't ship every file (North Dakota has no frontend_opt_14d.json)
+        if (e instanceof HttpError && e.status === 404) return null;
+        throw e;
+      });
+      if (!context) continue;
+      const summary = summarizeFigure(context);
+      expect(summary.split("\n"), `${state}`).toHaveLength(3);
+      const citations = extractCitations(summary, context.facts);
+      expect(citations.length, `${state}: ${summary}`).toBeGreaterThan(0);
+      expect(citations.filter((c) => !c.verified), `${state}: ${summary}`).toEqual([]);
+    }
+  });
+});
+
+describe("dataSummarizer", () => {
+  it("streams the summary line by line", async () => {
+    const context = await buildFigureContext("Texas", "intensity");
+    const chunks: string[] = [];
+    const result = await dataSummarizer().summarize({ context }, { onText: (t) => chunks.push(t) });
+    expect(result.provider).toBe(DATA_SUMMARIZER);
+    expect(chunks).toHaveLength(3);
+    expect(chunks.join("")).toBe(result.summary);
+  });
+
+  it("needs a figure to work from", async () => {
+    await expect(dataSummarizer().summarize({})).rejects.toMatchObject({ status: 400 });
+  });
+});
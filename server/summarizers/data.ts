@@ -0,0 +1,140 @@
+// server/summarizers/data.ts
+// Rule-based summarizer: three bullets per figure, filled in from the
+// figure's facts with no model and no network. Every number it writes is a
+// cited fact, so its citations always verify.
+import { parseTimestamp } from "../../src/chartUtils";
+import type { Fact, FigureKind } from "../../src/figures";
+import { badRequest } from "../errors";
+import type { FigureContext } from "../figureContext";
+import type { Summarizer } from "./index";
+
+export const DATA_SUMMARIZER = "data summarizer";
+
+/** Looks up a fact by id; `q` quotes it with its marker, `at`/`v` expose its time and value */
+type Facts = {
+  q: (id: string) => string;
+  at: (id: string) => string;
+  v: (id: string) => number;
+  facts: Fact[];
+};
+
+const when = (ts: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(ts)
+    ? new Date(`${ts}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })
+    : parseTimestamp(ts).toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+        timeZone: "UTC",
+      }) + " UTC";
+
+function factsOf(context: FigureContext): Facts {
+  const byId = new Map(context.facts.map((f) => [f.id, f]));
+  const get = (id: string) => {
+    const f = byId.get(id);
+    if (!f) throw new Error(`${context.figure} has no fact "${id}"`);
+    return f;
+  };
+  return {
+    // Sign is carried by the wording ("rises"/"falls"), so quote magnitudes
+    q: (id) => {
+      const f = get(id);
+      const n = f.display.replace(/^-/, "");
+      return `${f.unit === "%" ? `${n}%` : `${n} ${f.unit}`} [${id}]`;
+    },
+    at: (id) => {
+      const at = get(id).source.at;
+      return at && /^\d{4}-/.test(at) ? when(at) : at ?? "";
+    },
+    v: (id) => get(id).value,
+    facts: context.facts,
+  };
+}
+
+const change = (from: number, to: number, down = "falls", up = "rises") => (to < from ? down : up);
+
+function fossilBenefit({ q, v }: Facts): string {
+  return v("fossil_saved") >= 0
+    ? `Benefit: ${q("fossil_saved")} less fossil-attributed energy, a ${q("fossil_reduction_pct")} reduction.`
+    : `The optimized schedule uses ${q("fossil_saved")} more fossil-attributed energy ` +
+        `(${q("fossil_reduction_pct")} above baseline), so it brings no fossil benefit here.`;
+}
+
+const TEMPLATES: Record<FigureKind, (f: Facts, c: FigureContext) => string[]> = {
+  generation: (f, c) => {
+    const top = f.facts.find((x) => x.id.startsWith("share_"));
+    return [
+      `Generation totalled ${f.q("total_generation")} over ${Math.round(c.window.hours / 24)} days, ` +
+        `swinging between ${f.q("min_generation")} and ${f.q("peak_generation")} in a single hour.`,
+      `Fossil fuels supplied ${f.q("fossil_share")} of it` +
+        (top ? `, led by ${top.label.replace(/ share of generation$/, "").toLowerCase()} at ${f.q(top.id)}` : "") +
+        `; renewables supplied ${f.q("renewable_share")}.`,
+      `Benefit: renewables reach ${f.q("peak_renewable_share")} of hourly generation at their peak ` +
+        `(${f.at("peak_renewable_share")}), so shifting flexible load into those hours displaces fossil output.`,
+    ];
+  },
+  intensity: (f) => [
+    `Carbon intensity averaged ${f.q("mean_ci")}, ranging from ${f.q("min_ci")} on ${f.at("min_ci")} ` +
+      `to ${f.q("max_ci")} on ${f.at("max_ci")}.`,
+    `It follows a daily cycle: ${f.at("cleanest_hour")} averages ${f.q("cleanest_hour")}, ` +
+      `while ${f.at("dirtiest_hour")} averages ${f.q("dirtiest_hour")}.`,
+    `Benefit: moving flexible use from the dirtiest to the cleanest hour of day cuts its emissions by about ` +
+      `${f.q("timing_saving_pct")}.`,
+  ],
+  "fossil-hourly": (f) => [
+    `Baseline fossil-attributed use peaks at ${f.q("peak_baseline")} in one hour (${f.at("peak_baseline")}), ` +
+      `against ${f.q("peak_opt")} at the optimized schedule's peak.`,
+    `Over the window it ${change(f.v("fossil_baseline"), f.v("fossil_opt"))} from ${f.q("fossil_baseline")} ` +
+      `to ${f.q("fossil_opt")}.`,
+    fossilBenefit(f),
+  ],
+  "fossil-daily": (f) => [
+    `Fossil-attributed use averages ${f.q("mean_daily_baseline")} per day at baseline versus ` +
+      `${f.q("mean_daily_opt")} with the optimized schedule.`,
+    `The largest daily gap is on ${f.at("biggest_daily_saving")}, when optimization saves ${f.q("biggest_daily_saving")}.`,
+    fossilBenefit(f),
+  ],
+  shares: (f) => {
+    const cut = f.v("fossil_share_reduction_pp") >= 0;
+    return [
+      `The energy-weighted fossil share ${change(f.v("fossil_share_baseline"), f.v("fossil_share_opt"))} from ` +
+        `${f.q("fossil_share_baseline")} at baseline to ${f.q("fossil_share_opt")} with optimized scheduling.`,
+      `The renewable share ${change(f.v("renewable_share_baseline"), f.v("renewable_share_opt"))} from ` +
+        `${f.q("renewable_share_baseline")} to ${f.q("renewable_share_opt")}.`,
+      cut
+        ? `Benefit: the same energy use leans ${f.q("fossil_share_reduction_pp")} less on fossil generation.`
+        : `Optimization raises the fossil share by ${f.q("fossil_share_reduction_pp")}, ` +
+          `so this state sees no share benefit from the optimized schedule.`,
+    ];
+  },
+  emissions: (f) => {
+    const saved = f.v("emissions_saved") >= 0;
+    return [
+      `Cumulative emissions reach ${f.q("emissions_baseline")} at baseline versus ${f.q("emissions_opt")} ` +
+        `with the optimized schedule by the end of the window.`,
+      `The gap ${saved ? "grows" : "shrinks"} by about ${f.q("saved_per_day")} per day.`,
+      saved
+        ? `Benefit: ${f.q("emissions_saved")} avoided, ${f.q("emissions_saved_pct")} below baseline.`
+        : `The optimized schedule emits ${f.q("emissions_saved")} more (${f.q("emissions_saved_pct")} above baseline).`,
+    ];
+  },
+};
+
+export function summarizeFigure(context: FigureContext): string {
+  return TEMPLATES[context.figure](factsOf(context), context).map((l) => `- ${l}`).join("\n");
+}
+
+export function dataSummarizer(): Summarizer {
+  return {
+    name: DATA_SUMMARIZER,
+    async summarize({ context }, { onText } = {}) {
+      if (!context) throw badRequest("state and figure are required to summarize from data", { field: "figure" });
+      const summary = summarizeFigure(context);
+      // Nothing to wait for, but stream line by line like the models do
+      summary.split(/(?<=\n)/).forEach((line) => onText?.(line));
+      return { summary, provider: DATA_SUMMARIZER };
+    },
+  };
+}
@@ -0,0 +1,34 @@
+// server/summarizers/gemini.ts
+// Google Gemini: reads the figure data, or the chart image itself.
+import { GoogleGenerativeAI, type Part } from "@google/generative-ai";
+import { HttpError } from "../errors";
+import type { Summarizer } from "./index";
+import { modelRequest } from "./prompt";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+export function geminiSummarizer(apiKey: string, modelName = DEFAULT_GEMINI_MODEL): Summarizer {
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: modelName });
+  return {
+    name: modelName,
+    async summarize(input, { signal, onText } = {}) {
+      const { text, image } = modelRequest(input);
+      const parts: Part[] = [{ text }];
+      if (image) parts.push({ inlineData: { mimeType: image.mimeType, data: image.base64 } });
+      try {
+        const result = await model.generateContentStream({ contents: [{ role: "user", parts }] }, { signal });
+        let summary = "";
+        for await (const chunk of result.stream) {
+          const piece = chunk.text();
+          summary += piece;
+          if (piece) onText?.(piece);
+        }
+        return { summary, provider: modelName };
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        const detail = e instanceof Error ? e.message : undefined;
+        throw new HttpError(502, "upstream_error", `${modelName} request failed`, detail);
+      }
+    },
+  };
+}
@@ -0,0 +1,74 @@
+// server/summarizers/index.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HttpError } from "../errors";
+import { withFallback, type SummarizeOptions, type Summarizer } from "./index";
+
+/** A summarizer that streams `chunks` and then fails with `error` (or answers) */
+function failing(error: unknown, chunks: string[] = []): Summarizer {
+  return {
+    name: "model",
+    async summarize(_input, { onText }: SummarizeOptions = {}) {
+      chunks.forEach((c) => onText?.(c));
+      if (error) throw error;
+      return { summary: chunks.join(""), provider: "model" };
+    },
+  };
+}
+
+const data: Summarizer = {
+  name: "data",
+  summarize: async () => ({ summary: "- from data", provider: "data" }),
+};
+
+describe("withFallback", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("keeps the primary's name and answer when it succeeds", async () => {
+    const s = withFallback(failing(null, ["- ok"]), data);
+    expect(s.name).toBe("model");
+    expect(await s.summarize({})).toEqual({ summary: "- ok", provider: "model" });
+  });
+
+  it("falls back when the primary fails upstream or can't be reached", async () => {
+    for (const error of [
+      new HttpError(502, "upstream_error", "Bad gateway"),
+      new HttpError(503, "upstream_unavailable", "Overloaded"),
+      new TypeError("fetch failed"),
+    ]) {
+      expect(await withFallback(failing(error), data).summarize({})).toEqual({ summary: "- from data", provider: "data" });
+    }
+  });
+
+  it("passes caller mistakes through", async () => {
+    for (const status of [400, 413, 429]) {
+      const error = new HttpError(status, "bad_request", "No");
+      await expect(withFallback(failing(error), data).summarize({})).rejects.toBe(error);
+    }
+  });
+
+  it("does not fall back once the request is cancelled", async () => {
+    const abort = new AbortController();
+    abort.abort();
+    const error = new DOMException("Aborted", "AbortError");
+    await expect(withFallback(failing(error), data).summarize({}, { signal: abort.signal })).rejects.toBe(error);
+  });
+
+  it("does not fall back after text has been streamed", async () => {
+    const error = new HttpError(502, "upstream_error", "Connection reset");
+    const chunks: string[] = [];
+    const s = withFallback(failing(error, ["- half a"]), data);
+    await expect(s.summarize({}, { onText: (t) => chunks.push(t) })).rejects.toBe(error);
+    expect(chunks).toEqual(["- half a"]);
+  });
+
+  it("reports the primary's failure when the fallback fails too", async () => {
+    const error = new HttpError(502, "upstream_error", "Bad gateway");
+    const broken: Summarizer = { name: "data", summarize: () => Promise.reject(new Error("no figure")) };
+    await expect(withFallback(failing(error), broken).summarize({})).rejects.toBe(error);
+  });
+});
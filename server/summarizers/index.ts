@@ -0,0 +1,110 @@
+// server/summarizers/index.ts
+// Pluggable back ends for /api/summarize. Which one runs is decided by the
+// environment, and the server starts without any credentials: with no
+// model configured, summaries are computed from the state data instead.
+import { HttpError } from "../errors";
+import type { FigureContext } from "../figureContext";
+import { dataSummarizer } from "./data";
+import { DEFAULT_GEMINI_MODEL, geminiSummarizer } from "./gemini";
+import { openAICompatibleSummarizer } from "./openaiCompatible";
+
+export type SummarizeInput = {
+  /** Topic the reader cares about; quoted into the server's prompt, never used as one */
+  focus?: string;
+  /** Chart title, for image requests */
+  title?: string;
+  /** The chart image, for requests that don't name a figure */
+  image?: { base64: string; mimeType: string };
+  /** Numbers behind the figure, when the request names a state and figure */
+  context?: FigureContext;
+};
+
+export type SummarizeResult = {
+  summary: string;
+  /** Which back end actually answered */
+  provider: string;
+};
+
+export type SummarizeOptions = {
+  /** Aborted when the caller goes away; providers stop generating */
+  signal?: AbortSignal;
+  /** Receives the text as it is generated, in order */
+  onText?: (chunk: string) => void;
+};
+
+export type Summarizer = {
+  name: string;
+  /** Resolves with the whole text once generation ends */
+  summarize(input: SummarizeInput, options?: SummarizeOptions): Promise<SummarizeResult>;
+};
+
+export const SUMMARIZER_KINDS = ["gemini", "openai", "data"] as const;
+export type SummarizerKind = (typeof SUMMARIZER_KINDS)[number];
+
+/**
+ * Try `fallback` when `primary` is unreachable or fails upstream. Caller
+ * mistakes (4xx), cancellation and failures after text has been streamed
+ * still surface as they are.
+ */
+export function withFallback(primary: Summarizer, fallback: Summarizer): Summarizer {
+  return {
+    name: primary.name,
+    async summarize(input, options = {}) {
+      let streamed = false;
+      const onText = (chunk: string) => {
+        streamed = true;
+        options.onText?.(chunk);
+      };
+      try {
+        return await primary.summarize(input, { ...options, onText });
+      } catch (e) {
+        if (streamed || options.signal?.aborted || (e instanceof HttpError && e.status < 500)) throw e;
+        console.warn(`${primary.name} failed, trying ${fallback.name}:`, e instanceof Error ? e.message : e);
+        // If the fallback can't help either (e.g. no figure named), report the original failure
+        return fallback.summarize(input, options).catch(() => { throw e; });
+      }
+    },
+  };
+}
+
+/** Which back end the environment asks for (also used by the chat models) */
+export function pickKind(env: NodeJS.ProcessEnv): SummarizerKind {
+  const wanted = env.SUMMARIZER?.trim().toLowerCase();
+  if (wanted && (SUMMARIZER_KINDS as readonly string[]).includes(wanted)) return wanted as SummarizerKind;
+  if (wanted) console.warn(`Unknown SUMMARIZER "${env.SUMMARIZER}", expected one of ${SUMMARIZER_KINDS.join(", ")}`);
+  if (env.GEMINI_API_KEY) return "gemini";
+  if (env.SUMMARIZER_BASE_URL) return "openai";
+  return "data";
+}
+
+/**
+ * Build the summarizer described by the environment:
+ * - SUMMARIZER: gemini | openai | data (default: the first one configured)
+ * - gemini: GEMINI_API_KEY, optional GEMINI_MODEL
+ * - openai: SUMMARIZER_BASE_URL (an OpenAI-compatible /v1 root),
+ *   SUMMARIZER_MODEL, optional SUMMARIZER_API_KEY
+ * Model-backed providers fall back to the data summarizer when they fail.
+ */
+export function createSummarizer(env: NodeJS.ProcessEnv = process.env): Summarizer {
+  const data = dataSummarizer();
+  const kind = pickKind(env);
+
+  if (kind === "gemini") {
+    if (env.GEMINI_API_KEY) {
+      return withFallback(geminiSummarizer(env.GEMINI_API_KEY, env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL), data);
+    }
+    console.warn("SUMMARIZER=gemini but GEMINI_API_KEY is not set; summarizing from data");
+  }
+  if (kind === "openai") {
+    if (env.SUMMARIZER_BASE_URL && env.SUMMARIZER_MODEL) {
+      const model = openAICompatibleSummarizer({
+        baseUrl: env.SUMMARIZER_BASE_URL,
+        model: env.SUMMARIZER_MODEL,
+        apiKey: env.SUMMARIZER_API_KEY,
+      });
+      return withFallback(model, data);
+    }
+    console.warn("SUMMARIZER=openai needs SUMMARIZER_BASE_URL and SUMMARIZER_MODEL; summarizing from data");
+  }
+  return data;
+}
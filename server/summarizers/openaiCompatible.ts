@@ -0,0 +1,91 @@
+// server/summarizers/openaiCompatible.ts
+// Any server speaking the OpenAI chat-completions API (Ollama, LM Studio,
+// llama.cpp, vLLM, ...). Figure data goes as plain text; an image, when
+// that is all the request has, is sent as a data URL and needs a
+// vision-capable model.
+import { readSse } from "../../src/sse";
+import { HttpError } from "../errors";
+import { isRecord } from "../validate";
+import type { Summarizer } from "./index";
+import { modelRequest } from "./prompt";
+
+export type OpenAICompatibleOptions = {
+  /** e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+};
+
+function parseJson(text: string): unknown {
+  try { return JSON.parse(text); } catch { return null; }
+}
+
+/** Text of one streamed chat-completions chunk */
+function deltaText(data: unknown): string | undefined {
+  if (!isRecord(data) || !Array.isArray(data.choices)) return undefined;
+  const choice: unknown = data.choices[0];
+  if (!isRecord(choice) || !isRecord(choice.delta)) return undefined;
+  const content = choice.delta.content;
+  return typeof content === "string" ? content : undefined;
+}
+
+export function openAICompatibleSummarizer({
+  baseUrl,
+  model,
+  apiKey,
+  timeoutMs = 60_000,
+}: OpenAICompatibleOptions): Summarizer {
+  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  return {
+    name: model,
+    async summarize(input, { signal, onText } = {}) {
+      const { text, image } = modelRequest(input);
+      const content = image
+        ? [
+            { type: "text", text },
+            { type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.base64}` } },
+          ]
+        : text;
+      const body = JSON.stringify({ model, messages: [{ role: "user", content }], stream: true });
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body,
+          signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]) : AbortSignal.timeout(timeoutMs),
+        });
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        const detail = e instanceof Error ? e.message : undefined;
+        throw new HttpError(502, "upstream_error", `${model} is unreachable at ${baseUrl}`, detail);
+      }
+      if (!res.ok || !res.body) {
+        const data: unknown = await res.json().catch(() => null);
+        const detail = isRecord(data) && isRecord(data.error) ? data.error.message : undefined;
+        throw new HttpError(502, "upstream_error", `${model} request failed (HTTP ${res.status})`, detail);
+      }
+
+      let summary = "";
+      try {
+        for await (const ev of readSse(res.body)) {
+          if (ev.data === "[DONE]") break;
+          const piece = deltaText(parseJson(ev.data));
+          if (!piece) continue;
+          summary += piece;
+          onText?.(piece);
+        }
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        const detail = e instanceof Error ? e.message : undefined;
+        throw new HttpError(502, "upstream_error", `${model} stream was interrupted`, detail);
+      }
+      if (!summary.trim()) throw new HttpError(502, "upstream_error", `${model} returned no text`);
+      return { summary, provider: model };
+    },
+  };
+}
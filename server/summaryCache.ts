@@ -0,0 +1,54 @@
+// server/summaryCache.ts
+// Finished summaries on disk, one JSON file per request key, so asking for
+// the same figure twice doesn't call the model twice. Cache failures are
+// logged and otherwise ignored: a summary is never lost because of them.
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Citation } from "../src/figures";
+
+/** Bump to invalidate entries written by older versions */
+const CACHE_VERSION = 1;
+
+export type CachedSummary = {
+  summary: string;
+  provider: string;
+  citations: Citation[];
+  createdAt: string;
+};
+
+export type SummaryCache = {
+  get(key: string): Promise<CachedSummary | null>;
+  set(key: string, value: CachedSummary): Promise<void>;
+};
+
+/** Stable key for everything that shapes a summary */
+export function summaryCacheKey(parts: Record<string, string | null | undefined>): string {
+  const sorted = Object.fromEntries(Object.entries(parts).sort(([a], [b]) => a.localeCompare(b)));
+  return createHash("sha256").update(JSON.stringify({ v: CACHE_VERSION, ...sorted })).digest("hex");
+}
+
+export function createSummaryCache(dir: string): SummaryCache {
+  const file = (key: string) => path.join(dir, `${key}.json`);
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(file(key), "utf8")) as CachedSummary;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "ENOENT") console.warn(`Ignoring summary cache entry ${key}:`, e);
+        return null;
+      }
+    },
+    async set(key, value) {
+      try {
+        await mkdir(dir, { recursive: true });
+        // Write then rename so a concurrent reader never sees half a file
+        const tmp = `${file(key)}.${randomUUID()}.tmp`;
+        await writeFile(tmp, JSON.stringify(value));
+        await rename(tmp, file(key));
+      } catch (e) {
+        console.warn("Could not write summary cache:", e);
+      }
+    },
+  };
+}
@@ -0,0 +1,94 @@
+// server/validate.ts
+// Small runtime checks for request input; failures become 400 responses.
+import express, { type RequestHandler } from "express";
+import { HttpError, badRequest } from "./errors";
+
+export function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v != null && !Array.isArray(v);
+}
+
+/** The JSON body as an object (an absent body counts as `{}`) */
+export function requireObject(body: unknown): Record<string, unknown> {
+  if (body == null) return {};
+  if (!isRecord(body)) throw badRequest("Request body must be a JSON object");
+  return body;
+}
+
+export function requireString(obj: Record<string, unknown>, key: string): string {
+  const v = obj[key];
+  if (typeof v !== "string" || !v.trim()) throw badRequest(`${key} is required`, { field: key });
+  return v;
+}
+
+export function optionalString(obj: Record<string, unknown>, key: string): string | undefined {
+  const v = obj[key];
+  if (v == null || v === "") return undefined;
+  if (typeof v !== "string") throw badRequest(`${key} must be a string`, { field: key });
+  return v;
+}
+
+/**
+ * Free text for a model, as one line of at most `maxLength` characters:
+ * runs of whitespace and control characters collapse to a single space.
+ */
+export function optionalText(obj: Record<string, unknown>, key: string, maxLength: number): string | undefined {
+  const v = optionalString(obj, key);
+  if (v == null) return undefined;
+  const text = v.replace(/[\s\p{Cc}]+/gu, " ").trim();
+  if (text.length > maxLength) {
+    throw badRequest(`${key} must be at most ${maxLength} characters`, { field: key, maxLength, length: text.length });
+  }
+  return text || undefined;
+}
+
+export function requireText(obj: Record<string, unknown>, key: string, maxLength: number): string {
+  const text = optionalText(obj, key, maxLength);
+  if (!text) throw badRequest(`${key} is required`, { field: key });
+  return text;
+}
+
+/** Parse a JSON body of at most `limit`; other content types get 415 */
+export function jsonBody(limit: string): RequestHandler[] {
+  const requireJson: RequestHandler = (req, _res, next) => {
+    if (req.is("application/json") === false) {
+      next(new HttpError(415, "unsupported_media_type", "Send the request body as application/json"));
+    } else {
+      next();
+    }
+  };
+  return [requireJson, express.json({ limit })];
+}
+
+/** Comma-separated list restricted to `allowed`; undefined when absent */
+export function optionalList<T extends string>(
+  raw: unknown,
+  key: string,
+  allowed: readonly T[]
+): T[] | undefined {
+  if (raw == null || raw === "") return undefined;
+  if (typeof raw !== "string") throw badRequest(`${key} must be a comma-separated list`, { field: key });
+  const items = raw.split(",").map((s) => s.trim()).filter(Boolean);
+  const unknown = items.filter((s) => !(allowed as readonly string[]).includes(s));
+  if (unknown.length) throw badRequest(`Unknown ${key}: ${unknown.join(", ")}`, { field: key, allowed });
+  return items as T[];
+}
+
+/** ISO-8601 date/time query parameter as epoch ms; undefined when absent */
+export function optionalTime(raw: unknown, key: string): number | undefined {
+  if (raw == null || raw === "") return undefined;
+  const t = typeof raw === "string" ? Date.parse(raw) : NaN;
+  if (!Number.isFinite(t)) throw badRequest(`${key} must be an ISO date/time`, { field: key });
+  return t;
+}
+
+/** One of `allowed`; undefined when absent */
+export function optionalOneOf<T extends string>(
+  obj: Record<string, unknown>,
+  key: string,
+  allowed: readonly T[]
+): T | undefined {
+  const v = optionalString(obj, key);
+  if (v == null) return undefined;
+  if (!(allowed as readonly string[]).includes(v)) throw badRequest(`Unknown ${key}: ${v}`, { field: key, allowed });
+  return v as T;
+}
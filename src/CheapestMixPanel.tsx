@@ -0,0 +1,161 @@
+// src/CheapestMixPanel.tsx
+import React, { useState } from "react";
+import { cheapestMix, costCurve, type Mix, type PortfolioInput } from "./portfolio";
+
+const TARGETS = [80, 90, 100] as const;
+
+const W = 480;
+const H = 200;
+const PAD = { l: 52, r: 12, t: 12, b: 28 };
+const INNER_W = W - PAD.l - PAD.r;
+const INNER_H = H - PAD.t - PAD.b;
+
+const fmtInt = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(Math.round(n));
+const fmt1 = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 1 }).format(n);
+const fmtUSD = (n: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(n);
+const fmtBn = (n: number) => `$${fmt1(n / 1e9)}B`;
+
+type Props = {
+  /** Grid, profiles and costs; `maxUnits` here are the tech specs' caps */
+  input: PortfolioInput;
+  /** Uncapped search bounds (units) used when the hard cap is off */
+  searchBounds: { solar: number; wind: number };
+  onApply: (solarUnits: number, windUnits: number) => void;
+};
+
+type Result = { input: PortfolioInput; key: string; mix: Mix | null; curve: Mix[] };
+
+/** "Find cheapest mix" for a clean-share target, plus the cost-vs-share curve */
+const CheapestMixPanel: React.FC<Props> = ({ input, searchBounds, onApply }) => {
+  const [target, setTarget] = useState<number>(100);
+  const [hardCap, setHardCap] = useState(false);
+  const [result, setResult] = useState<Result | null>(null);
+
+  const key = `${target}|${hardCap}|${searchBounds.solar}|${searchBounds.wind}`;
+  // Stale once the grid, specs or options change
+  const current = result && result.input === input && result.key === key ? result : null;
+
+  const find = () => {
+    const bounded: PortfolioInput = {
+      ...input,
+      solar: { ...input.solar, maxUnits: hardCap ? input.solar.maxUnits : searchBounds.solar },
+      wind: { ...input.wind, maxUnits: hardCap ? input.wind.maxUnits : searchBounds.wind },
+    };
+    const mix = cheapestMix(bounded, target);
+    setResult({ input, key, mix, curve: costCurve(bounded) });
+    if (mix) onApply(mix.solarUnits, mix.windUnits);
+  };
+
+  const chart = (() => {
+    if (!current || current.curve.length < 2) return null;
+    const pts = current.curve;
+    const x0 = Math.floor(pts[0].sharePct / 10) * 10;
+    const x = (share: number) => PAD.l + ((share - x0) / Math.max(100 - x0, 1)) * INNER_W;
+    const maxCost = Math.max(...pts.map((p) => p.cost), 1);
+    const y = (cost: number) => PAD.t + INNER_H - (cost / maxCost) * INNER_H;
+    const d = pts.map((p, i) => `${i ? "L" : "M"}${x(p.sharePct)},${y(p.cost)}`).join("");
+    const xTicks: number[] = [];
+    for (let t = x0; t <= 100; t += 10) xTicks.push(t);
+    return { x, y, d, xTicks, yTicks: [0, maxCost / 2, maxCost] };
+  })();
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <h3 className="font-semibold text-lg">Cheapest Mix</h3>
+        <div className="inline-flex rounded-md border border-white/20 overflow-hidden text-xs">
+          {TARGETS.map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTarget(t)}
+              className={`px-2.5 py-1 ${target === t ? "bg-white/25 font-semibold" : "hover:bg-white/10"}`}
+            >
+              {t}%
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-3 flex items-center justify-between gap-3 flex-wrap text-sm">
+        <label className="flex items-center gap-2 text-slate-300">
+          <input type="checkbox" checked={hardCap} onChange={(e) => setHardCap(e.target.checked)} className="accent-sky-400" />
+          Cap at maxUnits ({fmtInt(input.solar.maxUnits)} solar / {fmtInt(input.wind.maxUnits)} wind)
+        </label>
+        <button
+          type="button"
+          onClick={find}
+          className="rounded-full bg-white px-4 py-1.5 text-sm text-black font-semibold hover:bg-sky-300"
+        >
+          Find cheapest mix
+        </button>
+      </div>
+
+      {current && (
+        <div className="mt-4 text-sm">
+          {current.mix ? (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">Solar units</div>
+                <div className="text-slate-50 font-semibold">{fmtInt(current.mix.solarUnits)}</div>
+              </div>
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">Wind units</div>
+                <div className="text-slate-50 font-semibold">{fmtInt(current.mix.windUnits)}</div>
+              </div>
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">Cost</div>
+                <div className="text-sky-200 font-semibold">{fmtUSD(current.mix.cost)}</div>
+              </div>
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">Clean share</div>
+                <div className="text-slate-50 font-semibold">{fmt1(current.mix.sharePct)}%</div>
+              </div>
+            </div>
+          ) : (
+            <p className="text-amber-300 text-xs">
+              {target}% isn’t reachable {hardCap ? "within maxUnits" : "with solar and wind alone"} at the current
+              storage size. Add storage{hardCap ? " or lift the cap" : ""} and try again.
+            </p>
+          )}
+        </div>
+      )}
+
+      {chart && current && (
+        <svg viewBox={`0 0 ${W} ${H}`} width="100%" role="img" aria-label="Least cost versus clean share" className="mt-4 block">
+          {chart.yTicks.map((t) => (
+            <g key={t}>
+              <line x1={PAD.l} x2={W - PAD.r} y1={chart.y(t)} y2={chart.y(t)} stroke="white" strokeOpacity={0.08} />
+              <text x={PAD.l - 6} y={chart.y(t) + 4} textAnchor="end" fontSize="10" fill="white" opacity={0.6}>
+                {fmtBn(t)}
+              </text>
+            </g>
+          ))}
+          {chart.xTicks.map((t) => (
+            <text key={t} x={chart.x(t)} y={H - 8} textAnchor="middle" fontSize="10" fill="white" opacity={0.6}>
+              {t}%
+            </text>
+          ))}
+          <path d={chart.d} fill="none" stroke="#38bdf8" strokeWidth={1.8} />
+          {current.curve.map((p, i) => (
+            <circle key={i} cx={chart.x(p.sharePct)} cy={chart.y(p.cost)} r={2.5} fill="#38bdf8">
+              <title>{`${fmt1(p.sharePct)}% • ${fmtUSD(p.cost)} • ${fmtInt(p.solarUnits)} solar / ${fmtInt(p.windUnits)} wind`}</title>
+            </circle>
+          ))}
+          {current.mix && (
+            <circle cx={chart.x(current.mix.sharePct)} cy={chart.y(current.mix.cost)} r={5} fill="none" stroke="#fbbf24" strokeWidth={2} />
+          )}
+        </svg>
+      )}
+      <p className="mt-2 text-[11px] text-slate-400 leading-5">
+        Minimizes build cost (units × cost per unit) subject to the hourly non-fossil share reaching the target,
+        with storage held at its current size.
+      </p>
+    </div>
+  );
+};
+
+export default CheapestMixPanel;
@@ -0,0 +1,94 @@
+// src/CitedSummary.tsx
+import React from "react";
+import type { Citation } from "./figures";
+
+type Props = {
+  summary: string;
+  citations: Citation[];
+  /** Back end that wrote the summary */
+  provider?: string;
+  /** Served from a cache rather than written just now */
+  cached?: boolean;
+  /** Still being written: markers are hidden until the citations arrive */
+  pending?: boolean;
+};
+
+const MARKER = /\[([a-z][a-z0-9_]*)\]/g;
+/** A marker cut off at the end of streamed text */
+const PARTIAL_MARKER = /\[[a-z0-9_]*$/;
+
+const fmtQuoted = (n: number) => new Intl.NumberFormat("en-US", { maximumFractionDigits: 3 }).format(n);
+
+const withUnit = (c: Citation) => (c.unit === "%" ? `${c.display}%` : `${c.display} ${c.unit}`);
+
+const sourceText = (c: Citation) =>
+  `${c.source.file} › ${c.source.field} (${c.source.calc}${c.source.at ? `, ${c.source.at}` : ""})`;
+
+/**
+ * A summary whose `[fact_id]` markers become numbered references, followed by
+ * the cited values and where each one comes from. References whose quoted
+ * number doesn't match the data are flagged.
+ */
+const CitedSummary: React.FC<Props> = ({ summary, citations, provider, cached, pending }) => {
+  if (pending) {
+    return (
+      <div className="text-white/90 text-sm whitespace-pre-wrap" aria-live="polite">
+        {summary.replace(MARKER, "").replace(PARTIAL_MARKER, "")}
+        <span className="ml-0.5 inline-block h-3 w-1.5 animate-pulse bg-white/60 align-middle" aria-hidden="true" />
+      </div>
+    );
+  }
+
+  const index = new Map(citations.map((c, i) => [c.id, i + 1]));
+  const byId = new Map(citations.map((c) => [c.id, c]));
+  // split() with a capture group alternates text and marker ids
+  const parts = summary.split(MARKER);
+
+  return (
+    <div>
+      <div className="text-white/90 text-sm whitespace-pre-wrap">
+        {parts.map((part, i) => {
+          if (i % 2 === 0) return <React.Fragment key={i}>{part}</React.Fragment>;
+          const c = byId.get(part);
+          if (!c) return <React.Fragment key={i}>[{part}]</React.Fragment>;
+          return (
+            <sup
+              key={i}
+              title={`${c.label}: ${withUnit(c)} — ${sourceText(c)}`}
+              className={`ml-0.5 font-semibold ${c.verified ? "text-emerald-300" : "text-amber-300"}`}
+            >
+              [{index.get(c.id)}]
+            </sup>
+          );
+        })}
+      </div>
+
+      {citations.length > 0 && (
+        <ol className="mt-3 space-y-1 border-t border-white/10 pt-2 text-xs">
+          {citations.map((c, i) => (
+            <li key={c.id} className="flex gap-2">
+              <span className={c.verified ? "text-emerald-300" : "text-amber-300"}>[{i + 1}]</span>
+              <span className="min-w-0">
+                <span className="text-white/80">
+                  {c.label}: <span className="font-semibold tabular-nums">{withUnit(c)}</span>
+                </span>
+                {c.verified ? (
+                  <span className="ml-1 text-emerald-300" title="Quoted number matches the data">✓</span>
+                ) : (
+                  <span className="ml-1 text-amber-300">
+                    ⚠ {c.quoted != null ? `summary says ${fmtQuoted(c.quoted)}` : "no number quoted"}
+                  </span>
+                )}
+                <span className="block truncate text-white/40" title={sourceText(c)}>{sourceText(c)}</span>
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {provider && <div className="mt-2 text-white/40 text-xs">via {provider}{cached ? " · cached" : ""}</div>}
+    </div>
+  );
+};
+
+export default CitedSummary;
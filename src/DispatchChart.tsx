@@ -0,0 +1,185 @@
+// src/DispatchChart.tsx
+import React, { useMemo, useState } from "react";
+import { dayTicks, fmtHour, niceTicks } from "./chartUtils";
+import type { DispatchHour, HourlyGrid } from "./dispatch";
+
+const W = 960;
+const H = 220;
+const PAD = { l: 56, r: 16, t: 12, b: 24 };
+const INNER_W = W - PAD.l - PAD.r;
+const INNER_H = H - PAD.t - PAD.b;
+
+const xScale = (n: number) => (i: number) => PAD.l + (n > 1 ? (i / (n - 1)) * INNER_W : 0);
+
+const fmtInt = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(Math.round(n));
+
+type Layer = { key: string; name: string; color: string };
+
+/** Stacking order (bottom → top); extra sources go after wind, charging and curtailment sit above the demand line */
+const LAYERS_BELOW: Layer[] = [
+  { key: "clean", name: "Existing clean", color: "#10b981" },
+  { key: "solar", name: "New solar", color: "#f59e0b" },
+  { key: "wind", name: "New wind", color: "#3b82f6" },
+];
+const LAYERS_ABOVE: Layer[] = [
+  { key: "discharge", name: "Storage discharge", color: "#a78bfa" },
+  { key: "fossil", name: "Fossil residual", color: "#64748b" },
+  { key: "charge", name: "Storage charging", color: "#c4b5fd" },
+  { key: "curtailed", name: "Curtailed", color: "#f87171" },
+];
+
+/** Layers drawn translucent because they are not serving demand */
+const ABOVE_DEMAND = new Set(["charge", "curtailed"]);
+
+type Props = {
+  grid: HourlyGrid;
+  hours: DispatchHour[];
+  /** Names/colours for `DispatchHour.newExtra`, same order */
+  extras?: { name: string; color: string }[];
+  className?: string;
+};
+
+/** Hourly stack of the simulated supply: what served demand and what was spilled */
+const DispatchChart: React.FC<Props> = ({ grid, hours, extras, className }) => {
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+  const n = hours.length;
+  const x = xScale(n);
+
+  const allLayers = useMemo<Layer[]>(
+    () => [...LAYERS_BELOW, ...(extras ?? []).map((e, k) => ({ key: `extra${k}`, ...e })), ...LAYERS_ABOVE],
+    [extras]
+  );
+  const hasStorage = hours.some((h) => h.charge > 0 || h.discharge > 0);
+  const layers = allLayers.filter((l) => hasStorage || (l.key !== "charge" && l.key !== "discharge"));
+
+  const series = useMemo(() => {
+    const out: Record<string, number[]> = Object.fromEntries(allLayers.map((l) => [l.key, []]));
+    hours.forEach((h, i) => {
+      out.clean.push(Math.max(0, (grid.demand[i] ?? 0) - (grid.fossil[i] ?? 0)));
+      out.solar.push(h.newSolar);
+      out.wind.push(h.newWind);
+      h.newExtra.forEach((v, k) => out[`extra${k}`]?.push(v));
+      out.discharge.push(h.discharge);
+      out.fossil.push(h.fossil);
+      out.charge.push(h.charge);
+      out.curtailed.push(h.curtailed);
+    });
+    return out;
+  }, [grid, hours, allLayers]);
+
+  const chart = useMemo(() => {
+    if (!n) return null;
+    const x = xScale(n);
+    const cum = new Array<number>(n).fill(0);
+    const layers = allLayers.map((l) => {
+      const lower = cum.slice();
+      for (let i = 0; i < n; i++) cum[i] += series[l.key][i] ?? 0;
+      return { ...l, lower, upper: cum.slice() };
+    });
+    const max = Math.max(...cum, 1);
+    const y = (v: number) => PAD.t + INNER_H - (v / max) * INNER_H;
+    const paths = layers.map((l) => {
+      const top = l.upper.map((v, i) => `${x(i)},${y(v)}`);
+      const bottom = l.lower.map((v, i) => `${x(i)},${y(v)}`).reverse();
+      return { ...l, d: `M${top.join("L")}L${bottom.join("L")}Z` };
+    });
+    const demand = grid.demand.slice(0, n).map((v, i) => `${i ? "L" : "M"}${x(i)},${y(v)}`).join("");
+    return { paths, demand, y, ticks: niceTicks(max) };
+  }, [series, allLayers, grid.demand, n]);
+
+  const days = useMemo(() => dayTicks(grid.timestamps.slice(0, n)), [grid.timestamps, n]);
+
+  const onMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!n) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const sx = ((e.clientX - rect.left) / rect.width) * W;
+    const i = Math.round(((sx - PAD.l) / INNER_W) * (n - 1));
+    setHoverIdx(i >= 0 && i < n ? i : null);
+  };
+
+  if (!chart) return null;
+  const tooltipLeftPct = hoverIdx != null ? (x(hoverIdx) / W) * 100 : 0;
+
+  return (
+    <div className={["relative", className].filter(Boolean).join(" ")} onMouseLeave={() => setHoverIdx(null)}>
+      <div className="text-sm font-semibold mb-2">Hourly dispatch (14 days)</div>
+      <svg
+        viewBox={`0 0 ${W} ${H}`}
+        width="100%"
+        role="img"
+        aria-label="Hourly dispatch of existing clean, new and fossil generation"
+        onMouseMove={onMove}
+        className="block"
+      >
+        {chart.ticks.map((t) => (
+          <g key={t}>
+            <line x1={PAD.l} x2={W - PAD.r} y1={chart.y(t)} y2={chart.y(t)} stroke="white" strokeOpacity={0.08} />
+            <text x={PAD.l - 6} y={chart.y(t) + 4} textAnchor="end" fontSize="10" fill="white" opacity={0.6}>
+              {fmtInt(t)}
+            </text>
+          </g>
+        ))}
+        {chart.paths.map((p) => (
+          <path key={p.key} d={p.d} fill={p.color} fillOpacity={ABOVE_DEMAND.has(p.key) ? 0.45 : 0.85} />
+        ))}
+        <path d={chart.demand} fill="none" stroke="white" strokeOpacity={0.8} strokeWidth={1} />
+        {days.map((t) => (
+          <text key={t.i} x={x(t.i)} y={H - 6} textAnchor="middle" fontSize="10" fill="white" opacity={0.6}>
+            {t.label}
+          </text>
+        ))}
+        {hoverIdx != null && (
+          <line x1={x(hoverIdx)} x2={x(hoverIdx)} y1={PAD.t} y2={H - PAD.b} stroke="white" strokeOpacity={0.7} />
+        )}
+        <text x={PAD.l} y={PAD.t + 10} fontSize="10" fill="white" opacity={0.6} dx={6}>MWh</text>
+      </svg>
+
+      {hoverIdx != null && (
+        <div
+          className="pointer-events-none absolute top-8 z-10 w-52 rounded-lg border border-white/15 bg-slate-900/95 p-3 text-xs shadow-xl"
+          style={{
+            left: `${tooltipLeftPct}%`,
+            transform: tooltipLeftPct > 60 ? "translateX(calc(-100% - 12px))" : "translateX(12px)",
+          }}
+        >
+          <div className="font-semibold mb-1">{fmtHour(grid.timestamps[hoverIdx])}</div>
+          <div className="flex justify-between mb-1">
+            <span className="text-white/70">Demand</span>
+            <span>{fmtInt(grid.demand[hoverIdx] ?? 0)} MWh</span>
+          </div>
+          {layers.map((l) => (
+            <div key={l.key} className="flex items-center justify-between">
+              <span className="flex items-center gap-1.5">
+                <span className="inline-block h-2 w-2 rounded-full" style={{ background: l.color }} />
+                {l.name}
+              </span>
+              <span>{fmtInt(series[l.key][hoverIdx] ?? 0)} MWh</span>
+            </div>
+          ))}
+          {hasStorage && (
+            <div className="flex justify-between mt-1">
+              <span className="text-white/70">Stored</span>
+              <span>{fmtInt(hours[hoverIdx].soc)} MWh</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="mt-2 flex flex-wrap gap-3 text-xs text-white/80">
+        {layers.map((l) => (
+          <span key={l.key} className="flex items-center gap-1.5">
+            <span className="inline-block h-3 w-3 rounded-sm" style={{ background: l.color }} />
+            {l.name}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="inline-block h-0.5 w-4 bg-white/80" />
+          Demand
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default DispatchChart;
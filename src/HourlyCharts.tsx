@@ -0,0 +1,213 @@
+// src/HourlyCharts.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import { dayTicks, fmtHour, niceTicks } from "./chartUtils";
+import { useStateFile } from "./useStateData";
+
+/** Stacking order (bottom → top) and colors for each EIA fuel code */
+const FUELS: { code: string; name: string; color: string }[] = [
+  { code: "COL", name: "Coal",        color: "#475569" },
+  { code: "NG",  name: "Natural Gas", color: "#94a3b8" },
+  { code: "PET", name: "Petroleum",   color: "#78716c" },
+  { code: "OIL", name: "Oil",         color: "#a8a29e" },
+  { code: "OTH", name: "Other",       color: "#c084fc" },
+  { code: "NUC", name: "Nuclear",     color: "#10b981" },
+  { code: "WAT", name: "Hydro",       color: "#22d3ee" },
+  { code: "WND", name: "Wind",        color: "#3b82f6" },
+  { code: "SUN", name: "Solar",       color: "#f59e0b" },
+];
+
+// Chart geometry (SVG user units; the SVG scales to its container)
+const W = 960;
+const H_MIX = 260;
+const H_CI = 160;
+const PAD = { l: 56, r: 16, t: 12, b: 24 };
+const INNER_W = W - PAD.l - PAD.r;
+
+/** x position of hour i out of n */
+const xScale = (n: number) => (i: number) => PAD.l + (n > 1 ? (i / (n - 1)) * INNER_W : 0);
+
+const fmtInt = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(Math.round(n));
+const fmt1 = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 1 }).format(n);
+
+type Props = {
+  stateName: string;
+  className?: string;
+};
+
+const HourlyCharts: React.FC<Props> = ({ stateName, className }) => {
+  const { data, error } = useStateFile(stateName, "frontend");
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+
+  useEffect(() => { setHoverIdx(null); }, [stateName]);
+
+  const n = data?.timestamps.length ?? 0;
+  const x = xScale(n);
+
+  // Stacked areas: cumulative sums per hour in FUELS order
+  const mix = useMemo(() => {
+    if (!data) return null;
+    const x = xScale(n);
+    const fuels = FUELS.filter((f) => (data.fuels[f.code] ?? []).some((v) => v > 0));
+    const cum = new Array<number>(n).fill(0);
+    const layers = fuels.map((f) => {
+      const series = data.fuels[f.code];
+      const lower = cum.slice();
+      for (let i = 0; i < n; i++) cum[i] += Math.max(0, series[i] ?? 0);
+      return { ...f, lower, upper: cum.slice() };
+    });
+    const max = Math.max(...cum, 1);
+    const innerH = H_MIX - PAD.t - PAD.b;
+    const y = (v: number) => PAD.t + innerH - (v / max) * innerH;
+    const paths = layers.map((l) => {
+      const top = l.upper.map((v, i) => `${x(i)},${y(v)}`);
+      const bottom = l.lower.map((v, i) => `${x(i)},${y(v)}`).reverse();
+      return { ...l, d: `M${top.join("L")}L${bottom.join("L")}Z` };
+    });
+    return { paths, ticks: niceTicks(max), y };
+  }, [data, n]);
+
+  const ci = useMemo(() => {
+    if (!data) return null;
+    const x = xScale(n);
+    const max = Math.max(...data.ci_g_per_kwh, 1);
+    const innerH = H_CI - PAD.t - PAD.b;
+    const y = (v: number) => PAD.t + innerH - (v / max) * innerH;
+    const d = data.ci_g_per_kwh.map((v, i) => `${i ? "L" : "M"}${x(i)},${y(v)}`).join("");
+    return { d, ticks: niceTicks(max), y };
+  }, [data, n]);
+
+  // Day boundaries for the x-axis
+  const days = useMemo(() => (data ? dayTicks(data.timestamps) : []), [data]);
+
+  const onMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!n) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const sx = ((e.clientX - rect.left) / rect.width) * W;
+    const i = Math.round(((sx - PAD.l) / INNER_W) * (n - 1));
+    setHoverIdx(i >= 0 && i < n ? i : null);
+  };
+
+  const tooltipLeftPct = hoverIdx != null ? (x(hoverIdx) / W) * 100 : 0;
+
+  return (
+    <section
+      className={[
+        "w-full bg-white/5 text-white rounded-2xl border border-white/10 p-5 shadow-xl",
+        className,
+      ].filter(Boolean).join(" ")}
+    >
+      <div className="flex items-center justify-between mb-4 gap-3">
+        <h3 className="text-lg font-semibold">{stateName} — Hourly Generation & Carbon Intensity</h3>
+        {data && <span className="text-white/60 text-xs">{data.respondent} • {n} hours</span>}
+      </div>
+
+      {error && <div className="text-red-300 text-sm">{error.message}</div>}
+      {!error && !data && <div className="text-white/60 text-sm">Loading hourly data…</div>}
+
+      {data && mix && ci && (
+        <div className="relative" onMouseLeave={() => setHoverIdx(null)}>
+          {/* Stacked fuel mix */}
+          <svg
+            viewBox={`0 0 ${W} ${H_MIX}`}
+            width="100%"
+            role="img"
+            aria-label={`${stateName} hourly generation by fuel`}
+            onMouseMove={onMove}
+            className="block"
+          >
+            {mix.ticks.map((t) => (
+              <g key={t}>
+                <line x1={PAD.l} x2={W - PAD.r} y1={mix.y(t)} y2={mix.y(t)} stroke="white" strokeOpacity={0.08} />
+                <text x={PAD.l - 6} y={mix.y(t) + 4} textAnchor="end" fontSize="10" fill="white" opacity={0.6}>
+                  {fmtInt(t)}
+                </text>
+              </g>
+            ))}
+            {mix.paths.map((p) => (
+              <path key={p.code} d={p.d} fill={p.color} fillOpacity={0.85} />
+            ))}
+            {hoverIdx != null && (
+              <line x1={x(hoverIdx)} x2={x(hoverIdx)} y1={PAD.t} y2={H_MIX - PAD.b} stroke="white" strokeOpacity={0.7} />
+            )}
+            <text x={PAD.l} y={H_MIX - 6} fontSize="10" fill="white" opacity={0.6}>MWh</text>
+          </svg>
+
+          {/* Carbon intensity line */}
+          <svg
+            viewBox={`0 0 ${W} ${H_CI}`}
+            width="100%"
+            role="img"
+            aria-label={`${stateName} hourly carbon intensity`}
+            onMouseMove={onMove}
+            className="block mt-2"
+          >
+            {ci.ticks.map((t) => (
+              <g key={t}>
+                <line x1={PAD.l} x2={W - PAD.r} y1={ci.y(t)} y2={ci.y(t)} stroke="white" strokeOpacity={0.08} />
+                <text x={PAD.l - 6} y={ci.y(t) + 4} textAnchor="end" fontSize="10" fill="white" opacity={0.6}>
+                  {fmtInt(t)}
+                </text>
+              </g>
+            ))}
+            {days.map((t) => (
+              <text key={t.i} x={x(t.i)} y={H_CI - 6} textAnchor="middle" fontSize="10" fill="white" opacity={0.6}>
+                {t.label}
+              </text>
+            ))}
+            <path d={ci.d} fill="none" stroke="#f472b6" strokeWidth={1.6} />
+            {hoverIdx != null && (
+              <>
+                <line x1={x(hoverIdx)} x2={x(hoverIdx)} y1={PAD.t} y2={H_CI - PAD.b} stroke="white" strokeOpacity={0.7} />
+                <circle cx={x(hoverIdx)} cy={ci.y(data.ci_g_per_kwh[hoverIdx])} r={3.5} fill="#f472b6" stroke="white" />
+              </>
+            )}
+            <text x={PAD.l} y={PAD.t + 10} fontSize="10" fill="white" opacity={0.6} dx={6}>g CO₂/kWh</text>
+          </svg>
+
+          {/* Tooltip */}
+          {hoverIdx != null && (
+            <div
+              className="pointer-events-none absolute top-2 z-10 w-56 rounded-lg border border-white/15 bg-slate-900/95 p-3 text-xs shadow-xl"
+              style={{
+                left: `${tooltipLeftPct}%`,
+                transform: tooltipLeftPct > 60 ? "translateX(calc(-100% - 12px))" : "translateX(12px)",
+              }}
+            >
+              <div className="font-semibold mb-1">{fmtHour(data.timestamps[hoverIdx])}</div>
+              <div className="flex justify-between"><span className="text-white/70">Carbon intensity</span><span>{fmt1(data.ci_g_per_kwh[hoverIdx])} g/kWh</span></div>
+              <div className="flex justify-between"><span className="text-white/70">Total</span><span>{fmtInt(data.total_mwh[hoverIdx])} MWh</span></div>
+              <div className="flex justify-between mb-1"><span className="text-white/70">Fossil share</span><span>{fmt1(data.shares.fossil[hoverIdx] * 100)}%</span></div>
+              {mix.paths.slice().reverse().map((p) => (
+                <div key={p.code} className="flex items-center justify-between">
+                  <span className="flex items-center gap-1.5">
+                    <span className="inline-block h-2 w-2 rounded-full" style={{ background: p.color }} />
+                    {p.name}
+                  </span>
+                  <span>{fmtInt(data.fuels[p.code][hoverIdx] ?? 0)} MWh</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Legend */}
+          <div className="mt-3 flex flex-wrap gap-3 text-xs text-white/80">
+            {mix.paths.map((p) => (
+              <span key={p.code} className="flex items-center gap-1.5">
+                <span className="inline-block h-3 w-3 rounded-sm" style={{ background: p.color }} />
+                {p.name}
+              </span>
+            ))}
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block h-0.5 w-4" style={{ background: "#f472b6" }} />
+              Carbon intensity
+            </span>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default HourlyCharts;
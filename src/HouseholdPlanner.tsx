@@ -0,0 +1,352 @@
+// src/HouseholdPlanner.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import { fmtHour, parseTimestamp } from "./chartUtils";
+import { useStateFile } from "./useStateData";
+import {
+  emissionsKg,
+  optimizeSchedule,
+  scheduleEven,
+  scheduleNow,
+  windowMask,
+  type Device,
+} from "./optimizer";
+
+/** A user-described appliance; energy is per daily window occurrence */
+export type HouseholdDevice = {
+  id: string;
+  name: string;
+  energyKwh: number;
+  maxPowerKw: number;
+  windowStart: string; // "HH:MM", viewer's local time
+  windowEnd: string;
+  contiguous: boolean;
+};
+
+const STORAGE_KEY = "rizz.household.devices";
+
+const DEFAULT_DEVICES: HouseholdDevice[] = [
+  { id: "ev", name: "EV", energyKwh: 20, maxPowerKw: 7, windowStart: "00:00", windowEnd: "23:59", contiguous: false },
+  { id: "dishwasher", name: "Dishwasher", energyKwh: 1.5, maxPowerKw: 1.5, windowStart: "19:00", windowEnd: "07:00", contiguous: true },
+  { id: "heatpump", name: "Heat pump water heater", energyKwh: 3, maxPowerKw: 1, windowStart: "00:00", windowEnd: "23:59", contiguous: false },
+];
+
+const fmt1 = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 1 }).format(n);
+const fmt2 = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 }).format(n);
+
+const HHMM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * A stored entry from this or an older version of the planner. A window
+ * time that isn't HH:MM is reset to the whole day; anything else unreadable
+ * drops the entry.
+ */
+function readDevice(v: unknown): HouseholdDevice | null {
+  if (typeof v !== "object" || v == null) return null;
+  const d = v as Record<string, unknown>;
+  const valid =
+    typeof d.id === "string" && d.id !== "" &&
+    typeof d.name === "string" &&
+    typeof d.energyKwh === "number" && Number.isFinite(d.energyKwh) && d.energyKwh >= 0 &&
+    typeof d.maxPowerKw === "number" && Number.isFinite(d.maxPowerKw) && d.maxPowerKw > 0 &&
+    typeof d.contiguous === "boolean";
+  if (!valid) return null;
+  const time = (t: unknown, fallback: string) => (typeof t === "string" && HHMM.test(t) ? t : fallback);
+  return {
+    id: d.id as string,
+    name: d.name as string,
+    energyKwh: d.energyKwh as number,
+    maxPowerKw: d.maxPowerKw as number,
+    windowStart: time(d.windowStart, "00:00"),
+    windowEnd: time(d.windowEnd, "23:59"),
+    contiguous: d.contiguous as boolean,
+  };
+}
+
+/** Saved devices, minus any that can't be read; no readable list falls back to the defaults */
+function loadDevices(): HouseholdDevice[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_DEVICES;
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return DEFAULT_DEVICES;
+    return parsed.map(readDevice).filter((d): d is HouseholdDevice => d != null);
+  } catch {
+    return DEFAULT_DEVICES;
+  }
+}
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+/**
+ * Split a daily window into one optimizer Device per occurrence, so e.g. a
+ * 19:00–07:00 dishwasher window runs once per night across midnight.
+ */
+function expandDevice(d: HouseholdDevice, timestamps: string[]): Device[] {
+  const inWindow = windowMask(timestamps, d.windowStart, d.windowEnd, true);
+  const shiftMs = toMinutes(d.windowStart) * 60_000;
+  const byOccurrence = new Map<string, boolean[]>();
+  timestamps.forEach((ts, t) => {
+    if (!inWindow[t]) return;
+    const key = new Date(parseTimestamp(ts).getTime() - shiftMs).toDateString();
+    let mask = byOccurrence.get(key);
+    if (!mask) {
+      mask = new Array<boolean>(timestamps.length).fill(false);
+      byOccurrence.set(key, mask);
+    }
+    mask[t] = true;
+  });
+  return [...byOccurrence.entries()].map(([key, allowed]) => ({
+    id: `${d.id}@${key}`,
+    energyKwh: d.energyKwh,
+    maxPowerKw: d.maxPowerKw,
+    allowed,
+    contiguous: d.contiguous,
+  }));
+}
+
+const inputCls =
+  "w-full rounded-md bg-black/30 border border-white/15 px-2 py-1 text-sm text-white focus:outline-none focus:ring-1 focus:ring-sky-300";
+
+type Props = {
+  stateName: string;
+  className?: string;
+};
+
+const HouseholdPlanner: React.FC<Props> = ({ stateName, className }) => {
+  const [devices, setDevices] = useState<HouseholdDevice[]>(loadDevices);
+  const { data: series, error } = useStateFile(stateName, "frontend");
+
+  useEffect(() => {
+    try { localStorage.setItem(STORAGE_KEY, JSON.stringify(devices)); } catch { /* storage full or disabled */ }
+  }, [devices]);
+
+  const update = (id: string, patch: Partial<HouseholdDevice>) =>
+    setDevices((ds) => ds.map((d) => (d.id === id ? { ...d, ...patch } : d)));
+  // Clearing a time input keeps the last time rather than storing ""
+  const setTime = (id: string, field: "windowStart" | "windowEnd", value: string) => {
+    if (value) update(id, { [field]: value });
+  };
+  const remove = (id: string) => setDevices((ds) => ds.filter((d) => d.id !== id));
+  const add = () =>
+    setDevices((ds) => [
+      ...ds,
+      {
+        id: `dev-${Date.now().toString(36)}`,
+        name: "New device",
+        energyKwh: 2,
+        maxPowerKw: 1,
+        windowStart: "00:00",
+        windowEnd: "23:59",
+        contiguous: false,
+      },
+    ]);
+
+  const plan = useMemo(() => {
+    if (!series) return null;
+    const { timestamps, ci_g_per_kwh: ci } = series;
+    const n = timestamps.length;
+
+    const perDevice = devices.map((d) => ({ d, occurrences: expandDevice(d, timestamps) }));
+    const flat = perDevice.flatMap((p) => p.occurrences);
+    const schedule = optimizeSchedule({ ci, devices: flat });
+
+    let offset = 0;
+    const rows = perDevice.map(({ d, occurrences }) => {
+      const placed = schedule.devices.slice(offset, offset + occurrences.length);
+      offset += occurrences.length;
+
+      const sumSeries = (xs: number[][]) =>
+        Array.from({ length: n }, (_, t) => xs.reduce((s, x) => s + x[t], 0));
+      const opt = sumSeries(placed.map((p) => p.kwh));
+      // Baselines deliver what the optimized plan delivered, so the kg compare like for like
+      const delivered = occurrences.map((o, j) => ({ ...o, energyKwh: placed[j].deliveredKwh }));
+      const now = sumSeries(delivered.map((o) => scheduleNow(o, n)));
+      const even = sumSeries(delivered.map((o) => scheduleEven(o, n)));
+
+      const firstRun = opt.findIndex((v) => v > 0);
+      return {
+        device: d,
+        occurrences: occurrences.length,
+        deliveredKwh: placed.reduce((s, p) => s + p.deliveredKwh, 0),
+        shortfallKwh: placed.reduce((s, p) => s + p.shortfallKwh, 0),
+        optKg: emissionsKg(ci, opt),
+        nowKg: emissionsKg(ci, now),
+        evenKg: emissionsKg(ci, even),
+        firstRun: firstRun >= 0 ? timestamps[firstRun] : null,
+      };
+    });
+
+    const total = rows.reduce(
+      (acc, r) => ({
+        opt: acc.opt + r.optKg,
+        now: acc.now + r.nowKg,
+        even: acc.even + r.evenKg,
+        shortfallKwh: acc.shortfallKwh + r.shortfallKwh,
+      }),
+      { opt: 0, now: 0, even: 0, shortfallKwh: 0 }
+    );
+    return { rows, total };
+  }, [series, devices]);
+
+  return (
+    <section
+      className={[
+        "w-full bg-white/5 text-white rounded-2xl border border-white/10 p-5 shadow-xl",
+        className,
+      ].filter(Boolean).join(" ")}
+    >
+      <div className="flex items-center justify-between mb-4 gap-3">
+        <h3 className="text-lg font-semibold">My Household — Personal Schedule for {stateName}</h3>
+        <button
+          type="button"
+          onClick={add}
+          className="rounded-full bg-sky-400 px-4 py-1.5 text-sm text-slate-900 font-semibold hover:bg-sky-300"
+        >
+          + Add device
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-white/60 text-xs uppercase tracking-wide">
+            <tr className="text-left">
+              <th className="py-1 pr-2">Device</th>
+              <th className="py-1 pr-2">kWh / day</th>
+              <th className="py-1 pr-2">Max kW</th>
+              <th className="py-1 pr-2">From</th>
+              <th className="py-1 pr-2">To</th>
+              <th className="py-1 pr-2">Contiguous</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {devices.map((d) => (
+              <tr key={d.id} className="border-t border-white/10">
+                <td className="py-1.5 pr-2">
+                  <input className={inputCls} value={d.name} onChange={(e) => update(d.id, { name: e.target.value })} />
+                </td>
+                <td className="py-1.5 pr-2 w-24">
+                  <input
+                    className={inputCls}
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={d.energyKwh}
+                    onChange={(e) => update(d.id, { energyKwh: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                </td>
+                <td className="py-1.5 pr-2 w-24">
+                  <input
+                    className={inputCls}
+                    type="number"
+                    min={0.1}
+                    step={0.1}
+                    value={d.maxPowerKw}
+                    onChange={(e) => update(d.id, { maxPowerKw: Math.max(0.1, Number(e.target.value) || 0.1) })}
+                  />
+                </td>
+                <td className="py-1.5 pr-2 w-28">
+                  <input className={inputCls} type="time" value={d.windowStart} onChange={(e) => setTime(d.id, "windowStart", e.target.value)} />
+                </td>
+                <td className="py-1.5 pr-2 w-28">
+                  <input className={inputCls} type="time" value={d.windowEnd} onChange={(e) => setTime(d.id, "windowEnd", e.target.value)} />
+                </td>
+                <td className="py-1.5 pr-2 text-center">
+                  <input
+                    type="checkbox"
+                    className="accent-sky-400"
+                    checked={d.contiguous}
+                    onChange={(e) => update(d.id, { contiguous: e.target.checked })}
+                  />
+                </td>
+                <td className="py-1.5 text-right">
+                  <button
+                    type="button"
+                    onClick={() => remove(d.id)}
+                    aria-label={`Remove ${d.name}`}
+                    className="text-white/60 hover:text-red-300 px-2"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {error && <div className="mt-3 text-red-300 text-sm">{error.message}</div>}
+      {!error && !series && <div className="mt-3 text-white/60 text-sm">Loading carbon intensity…</div>}
+
+      {plan && (
+        <>
+          <div className="mt-5 grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+            <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+              <div className="text-white/70">Optimized</div>
+              <div className="font-semibold text-emerald-300">{fmt2(plan.total.opt)} kg CO₂</div>
+              {plan.total.shortfallKwh > 0 && (
+                <div className="text-xs text-amber-300">{fmt1(plan.total.shortfallKwh)} kWh not placed</div>
+              )}
+            </div>
+            <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+              <div className="text-white/70">Charge now</div>
+              <div className="font-semibold">{fmt2(plan.total.now)} kg CO₂</div>
+            </div>
+            <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+              <div className="text-white/70">Saved vs now</div>
+              <div className="font-semibold text-sky-200">{fmt2(plan.total.now - plan.total.opt)} kg</div>
+            </div>
+            <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+              <div className="text-white/70">Saved vs even spread</div>
+              <div className="font-semibold text-sky-200">{fmt2(plan.total.even - plan.total.opt)} kg</div>
+            </div>
+          </div>
+
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="text-white/60 uppercase tracking-wide">
+                <tr className="text-left">
+                  <th className="py-1 pr-2">Device</th>
+                  <th className="py-1 pr-2">Runs</th>
+                  <th className="py-1 pr-2">First optimized run</th>
+                  <th className="py-1 pr-2 text-right">Opt kg</th>
+                  <th className="py-1 pr-2 text-right">Now kg</th>
+                  <th className="py-1 pr-2 text-right">Even kg</th>
+                  <th className="py-1 text-right">Not placed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.rows.map((r) => (
+                  <tr key={r.device.id} className="border-t border-white/10">
+                    <td className="py-1 pr-2 font-semibold">{r.device.name}</td>
+                    <td className="py-1 pr-2">{r.occurrences}</td>
+                    <td className="py-1 pr-2">{r.firstRun ? fmtHour(r.firstRun) : "—"}</td>
+                    <td className="py-1 pr-2 text-right text-emerald-300">{fmt2(r.optKg)}</td>
+                    <td className="py-1 pr-2 text-right">{fmt2(r.nowKg)}</td>
+                    <td className="py-1 pr-2 text-right">{fmt2(r.evenKg)}</td>
+                    <td className={`py-1 text-right ${r.shortfallKwh > 0 ? "text-amber-300" : "text-white/50"}`}>
+                      {fmt1(r.shortfallKwh)} kWh
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-3 text-[11px] text-white/50 leading-5">
+            Energy is required once per daily window (your local time) over the 14-day forecast. “Charge now” runs at
+            full power from the start of each window; “even spread” uses the same power in every window hour.
+            Partial windows at the edges of the forecast may leave energy unplaced; both baselines then deliver only the
+            energy the optimized plan placed, so the savings compare the same kWh.
+          </p>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default HouseholdPlanner;
@@ -2,6 +2,25 @@
 import React, { useMemo, useRef, useState, useEffect } from "react";
 import ImpactHighlights, { DEFAULT_METRICS, type Metric } from "./ImpactHighlights";
 import RenewablePlanner from "./RenewablePlanner";
+import HourlyCharts from "./HourlyCharts";
+import SchedulePanel from "./SchedulePanel";
+import HouseholdPlanner from "./HouseholdPlanner";
+import { COMPARE_COLORS, makeScale, type ScaleKind } from "./colorScale";
+import TimelineControls from "./TimelineControls";
+import { useHourlyIntensity } from "./useHourlyIntensity";
+import {
+  TOPOLOGY_RESOLUTIONS,
+  useUsTopology,
+  type TopologyResolution,
+  type USObjects,
+} from "./useUsTopology";
+import StateComparison from "./StateComparison";
+import CitedSummary from "./CitedSummary";
+import RunWindowFinder from "./RunWindowFinder";
+import StateChat from "./StateChat";
+import { FIGURES, type Citation } from "./figures";
+import { cachedSummary, streamSummary, summaryKey } from "./summarizeClient";
+import { QUERY_KEYS, readInt, updateQuery, useQueryParams } from "./useQueryState";
 import * as d3 from "d3-geo";
 import { feature } from "topojson-client";
 import type {
@@ -10,16 +29,11 @@ import type {
   Geometry,
   GeoJsonProperties,
 } from "geojson";
-import type {
-  Topology,
-  GeometryCollection,
-  Polygon,
-  MultiPolygon,
-  GeometryObject,
-} from "topojson-specification";
+import type { Topology, GeometryObject } from "topojson-specification";
 
-// CSV assets
-import stateCsvUrl from "./data/energy_weighted_reduction_oct1_state.csv?url";
+// Typed national datasets (src/data)
+import { useNationalData } from "./useStateData";
+import { indexByState, normalizeStateName } from "./stateSchema";
 
 // ---------- AUTO-LOAD STATE IMAGES (Vite) ----------
 const allStateImages = import.meta.glob(
@@ -42,8 +56,6 @@ function buildImagesIndex() {
 const STATE_IMAGES_INDEX = buildImagesIndex();
 // ---------------------------------------------------
 
-type USObjects = { states: GeometryCollection<Polygon | MultiPolygon> };
-
 const FIPS_TO_NAME: Record<string, string> = {
   "01": "Alabama","02": "Alaska","04": "Arizona","05": "Arkansas","06": "California","08": "Colorado","09": "Connecticut","10": "Delaware","11": "District of Columbia","12": "Florida","13": "Georgia","15": "Hawaii","16": "Idaho","17": "Illinois","18": "Indiana","19": "Iowa","20": "Kansas","21": "Kentucky","22": "Louisiana","23": "Maine","24": "Maryland","25": "Massachusetts","26": "Michigan","27": "Minnesota","28": "Mississippi","29": "Missouri","30": "Montana","31": "Nebraska","32": "Nevada","33": "New Hampshire","34": "New Jersey","35": "New Mexico","36": "New York","37": "North Carolina","38": "North Dakota","39": "Ohio","40": "Oklahoma","41": "Oregon","42": "Pennsylvania","44": "Rhode Island","45": "South Carolina","46": "South Dakota","47": "Tennessee","48": "Texas","49": "Utah","50": "Vermont","51": "Virginia","53": "Washington","54": "West Virginia","55": "Wisconsin","56": "Wyoming",
 };
@@ -59,76 +71,6 @@ const PREVIEW_H = 380;
 function clamp(n: number, a: number, b: number) { return Math.max(a, Math.min(b, n)); }
 function lerp(a: number, b: number, t: number) { return a + (b - a) * t; }
 
-// Endpoint (override with VITE_SUMMARIZE_ENDPOINT if you like)
-const SUMMARIZE_ENDPOINT =
-  import.meta.env.VITE_SUMMARIZE_ENDPOINT || "/api/summarize";
-
-// --- robust JSON helpers to avoid "Unexpected end of JSON input" ---
-function parseJsonSafe(text: string | null) {
-  if (!text) return null;
-  const trimmed = text.trim();
-  if (!trimmed) return null;
-  const looksJson = trimmed.startsWith("{") || trimmed.startsWith("[");
-  if (!looksJson) return null;
-  try { return JSON.parse(trimmed); } catch { return null; }
-}
-
-async function fetchJsonWithTimeout(
-  url: string,
-  options: RequestInit = {},
-  timeoutMs = 20000
-) {
-  const ac = new AbortController();
-  const id = setTimeout(() => ac.abort(), timeoutMs);
-  try {
-    const res = await fetch(url, { ...options, signal: ac.signal });
-    const text = await res.text();
-    const data = parseJsonSafe(text);
-    if (!res.ok) {
-      const msg =
-        (data && (data.error || (data.message as string))) ||
-        (text && text.trim()) ||
-        res.statusText ||
-        `HTTP ${res.status}`;
-      throw new Error(msg);
-    }
-    if (!data) {
-      throw new Error("Empty or non-JSON response from the summarize endpoint.");
-    }
-    return data as any;
-  } finally {
-    clearTimeout(id);
-  }
-}
-
-// simple CSV parser that supports quoted fields
-function parseCSV(text: string): Record<string, string>[] {
-  const lines = text.trim().split(/\r?\n/);
-  if (!lines.length) return [];
-  const headers = splitCSVLine(lines[0]);
-  return lines.slice(1).map((line) => {
-    const cells = splitCSVLine(line);
-    const obj: Record<string, string> = {};
-    headers.forEach((h, i) => { obj[h] = cells[i] ?? ""; });
-    return obj;
-  });
-}
-function splitCSVLine(line: string): string[] {
-  const out: string[] = [];
-  const re = /(?:^|,)(?:"([^"]*(?:""[^"]*)*)"|([^",]*))/g;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(line))) {
-    if (m[1] != null) out.push(m[1].replace(/""/g, '"'));
-    else out.push(m[2] ?? "");
-  }
-  if (line.endsWith(",")) out.push("");
-  return out;
-}
-function toNumber(x: string | undefined): number | null {
-  if (x == null) return null;
-  const n = Number(String(x).replace(/[$,%\s]/g, ""));
-  return Number.isFinite(n) ? n : null;
-}
 function fmtPercent(n: number | null): string {
   if (n == null) return "—";
   return `${n.toFixed(2)}%`;
@@ -141,10 +83,6 @@ function fmtUSD(n: number | null): string {
   if (n == null) return "—";
   return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(n);
 }
-function normalizeStateName(name: string): string {
-  return name.trim().toLowerCase();
-}
-
 // ---- image downscale helper to keep payloads small (prevents 500s) ----
 async function loadImageFromBlob(blob: Blob): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
@@ -212,17 +150,74 @@ function useSize<T extends HTMLElement>() {
   return { ref, ...size } as const;
 }
 
-type StateRow = {
-  state?: string;
-  fossil_share_reduction_pct_points?: string;
-  state_co2_saved_tons?: string;
-  co2_cost_saved_usd?: string;
-  [k: string]: string | undefined;
+// ---------- Choropleth metrics ----------
+type MapMetric =
+  | "none"
+  | "fossil_share_reduction_pct_points"
+  | "state_co2_saved_tons"
+  | "co2_cost_saved_usd"
+  | "avg_fossil_share_baseline_pct"
+  | "renewable_share_pct"
+  | "ci_hourly";
+
+const MAP_METRICS: { key: MapMetric; label: string; format: (n: number | null) => string }[] = [
+  { key: "none", label: "No coloring", format: () => "—" },
+  { key: "fossil_share_reduction_pct_points", label: "Fossil share reduction (pct pts)", format: fmtPercent },
+  { key: "state_co2_saved_tons", label: "CO₂ saved (tons)", format: fmtTons },
+  { key: "co2_cost_saved_usd", label: "Social cost saved (USD)", format: fmtUSD },
+  { key: "avg_fossil_share_baseline_pct", label: "Baseline fossil share (%)", format: fmtPercent },
+  { key: "renewable_share_pct", label: "Solar + wind share (%)", format: fmtPercent },
+  { key: "ci_hourly", label: "Carbon intensity by hour (g/kWh)", format: fmtCi },
+];
+
+function fmtCi(n: number | null): string {
+  if (n == null) return "—";
+  return `${n.toFixed(0)} g/kWh`;
+}
+
+function fmtCompact(n: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(n);
+}
+
+const MAX_COMPARE = COMPARE_COLORS.length;
+
+/** Map outline detail is a per-device choice, so it lives in localStorage rather than the URL */
+const RESOLUTION_KEY = "rizz.map.resolution";
+const RESOLUTION_LABELS: Record<TopologyResolution, string> = {
+  auto: "Detail: auto",
+  full: "Detail: full",
+  low: "Detail: low (faster)",
 };
 
+function loadResolution(): TopologyResolution {
+  try {
+    const v = localStorage.getItem(RESOLUTION_KEY);
+    return TOPOLOGY_RESOLUTIONS.find((r) => r === v) ?? "auto";
+  } catch {
+    return "auto";
+  }
+}
+
+/** `?state=` accepts a FIPS code ("48") or a name ("Texas", "new-york") */
+function stateIdFromParam(value: string | null): string | null {
+  if (!value) return null;
+  const v = value.trim();
+  if (/^\d{1,2}$/.test(v)) {
+    const fips = v.padStart(2, "0");
+    return FIPS_TO_NAME[fips] ? fips : null;
+  }
+  const key = v.toLowerCase().replace(/[-_+]+/g, " ").replace(/\s+/g, " ");
+  const hit = Object.entries(FIPS_TO_NAME).find(([, name]) => name.toLowerCase() === key);
+  return hit ? hit[0] : null;
+}
+
 export default function USInteractiveMap() {
   const { ref, width, height } = useSize<HTMLDivElement>();
-  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Selected state, slide and lightbox live in the query string (deep links, back/forward)
+  const query = useQueryParams();
+  const selectedId = stateIdFromParam(query.get(QUERY_KEYS.state));
+  // shift-click builds a comparison set (FIPS ids, in selection order)
+  const [compareIds, setCompareIds] = useState<string[]>([]);
   const [hoverId, setHoverId] = useState<string | null>(null);
 
   // zoom/pan (animated on select/reset)
@@ -239,39 +234,62 @@ export default function USInteractiveMap() {
   // Touch swipe for carousel
   const touchXRef = useRef<number | null>(null);
 
-  const [topology, setTopology] = useState<Topology<USObjects> | null>(null);
-
-  // ⬇️ Load per-state CSV once and index by state name (impact highlights)
-  const [stateDataMap, setStateDataMap] = useState<Record<string, StateRow>>({});
+  // Self-hosted topology (low-res outline on small screens unless the viewer picks one)
+  const [resolution, setResolution] = useState<TopologyResolution>(loadResolution);
   useEffect(() => {
-    let cancelled = false;
-    (async () => {
-      try {
-        const resp = await fetch(stateCsvUrl);
-        const txt = await resp.text();
-        const rows = parseCSV(txt) as StateRow[];
-        const map: Record<string, StateRow> = {};
-        for (const r of rows) {
-          const key = r.state ? normalizeStateName(r.state) : "";
-          if (key) map[key] = r;
-        }
-        if (!cancelled) setStateDataMap(map);
-      } catch {
-        if (!cancelled) setStateDataMap({});
-      }
-    })();
-    return () => { cancelled = true; };
-  }, []);
-
-  // Optional fuel mix (not required by planner anymore, but cheap to keep)
-  useEffect(() => {
-    let aborted = false;
-    fetch("https://cdn.jsdelivr.net/npm/us-atlas@3/states-10m.json")
-      .then((r) => r.json())
-      .then((j: unknown) => { if (!aborted) setTopology(j as Topology<USObjects>); })
-      .catch(() => {});
-    return () => { aborted = true; };
-  }, []);
+    try { localStorage.setItem(RESOLUTION_KEY, resolution); } catch { /* storage full or disabled */ }
+  }, [resolution]);
+  const { topology, status: topoStatus, error: topoError, retry: retryTopology } = useUsTopology(resolution);
+
+  // ⬇️ Typed per-state impact CSV, indexed by state name (impact highlights)
+  const { data: impactRows, error: impactError } = useNationalData("stateImpact");
+  const stateDataMap = useMemo(() => indexByState(impactRows ?? []), [impactRows]);
+
+  // Solar + wind share per state from the national fuel breakdown (for the choropleth)
+  const { data: fuelRows, error: fuelError } = useNationalData("fuelBreakdown");
+  const renewableShareMap = useMemo(() => {
+    const map: Record<string, number> = {};
+    for (const r of fuelRows ?? []) {
+      const total = r.fossil_mwh + r.solar_mwh + r.wind_mwh + r.other_mwh;
+      if (total > 0) map[normalizeStateName(r.state)] = ((r.solar_mwh + r.wind_mwh) / total) * 100;
+    }
+    return map;
+  }, [fuelRows]);
+  const dataError = impactError ?? fuelError;
+
+  const [metric, setMetric] = useState<MapMetric>("none");
+  const [scaleKind, setScaleKind] = useState<ScaleKind>("linear");
+  const metricDef = MAP_METRICS.find((m) => m.key === metric) ?? MAP_METRICS[0];
+
+  // Hourly carbon intensity for every state (loaded on first use of the timeline)
+  const hourly = useHourlyIntensity(metric === "ci_hourly");
+  const [hourIndex, setHourIndex] = useState(0);
+
+  const metricValues = useMemo(() => {
+    const out: Record<string, number | null> = {};
+    if (metric === "none") return out;
+    for (const [fips, name] of Object.entries(FIPS_TO_NAME)) {
+      const key = normalizeStateName(name);
+      out[fips] =
+        metric === "ci_hourly"
+          ? hourly.data?.byState[name]?.ci[hourIndex] ?? null
+          : metric === "renewable_share_pct"
+            ? renewableShareMap[key] ?? null
+            : stateDataMap[key]?.[metric] ?? null;
+    }
+    return out;
+  }, [metric, stateDataMap, renewableShareMap, hourly.data, hourIndex]);
+
+  // The hourly scale spans all hours so colors stay comparable while scrubbing
+  const scaleValues = useMemo(() => {
+    if (metric !== "ci_hourly") return Object.values(metricValues);
+    return Object.values(hourly.data?.byState ?? {}).flatMap((s) => s.ci);
+  }, [metric, metricValues, hourly.data]);
+
+  const colorScale = useMemo(
+    () => (metric === "none" ? null : makeScale(scaleKind, scaleValues)),
+    [metric, scaleKind, scaleValues]
+  );
 
   // build path for container size
   const { states, path } = useMemo(() => {
@@ -380,11 +398,44 @@ export default function USInteractiveMap() {
   };
 
   const features: GeoFeature<Geometry, GeoJsonProperties>[] = states?.features ?? [];
-  const handleStateClick = (id: string) => {
+  const handleStateClick = (id: string, additive: boolean) => {
     if (dragging.current) return;
-    setSelectedId((cur) => (cur === id ? null : id));
+    if (additive) {
+      setCompareIds((cur) => {
+        if (cur.includes(id)) return cur.filter((c) => c !== id);
+        // the currently selected state seeds the comparison
+        const base = cur.length === 0 && selectedId && selectedId !== id ? [selectedId] : cur;
+        return base.length >= MAX_COMPARE ? base : [...base, id];
+      });
+      return;
+    }
+    selectState(selectedId === id ? null : id);
   };
 
+  /** New state → new history entry; per-state view settings start fresh */
+  const selectState = (id: string | null) => {
+    // Custom tech builds and capacity-factor overrides are site-specific too
+    const perState = [...query.keys()].filter(
+      (k) =>
+        k.startsWith(QUERY_KEYS.techUnitsPrefix) ||
+        k === `${QUERY_KEYS.solarUnits}_cf` ||
+        k === `${QUERY_KEYS.windUnits}_cf`
+    );
+    updateQuery({
+      ...Object.fromEntries(perState.map((k) => [k, null])),
+      [QUERY_KEYS.state]: id ? FIPS_TO_NAME[id] ?? id : null,
+      [QUERY_KEYS.slide]: null,
+      [QUERY_KEYS.lightbox]: null,
+      [QUERY_KEYS.solarUnits]: null,
+      [QUERY_KEYS.windUnits]: null,
+      [QUERY_KEYS.storageUnits]: null,
+    });
+  };
+  const compareNames = useMemo(
+    () => compareIds.map((id) => FIPS_TO_NAME[id]).filter(Boolean),
+    [compareIds]
+  );
+
   const hoverName = hoverId ? (FIPS_TO_NAME[hoverId] ?? `FIPS ${hoverId}`) : "—";
   const selectedName = selectedId ? (FIPS_TO_NAME[selectedId] ?? `FIPS ${selectedId}`) : "—";
 
@@ -419,75 +470,102 @@ export default function USInteractiveMap() {
     return STATE_IMAGES_INDEX[name] ?? [];
   }, [selectedId]);
 
-  const [slide, setSlide] = useState(0);
   const slides = useMemo(() => {
-    const baseTitles = [
-      "Energy Consumption (14-day view)",
-      "Hourly Carbon Intensity - per Person",
-      "Fossil-Attributed Grid Consumption per Person— Baseline vs Optimized (A)",
-      "Fossil-Attributed Grid Consumption — Baseline vs Optimized (B)",
-      "Energy-Weighted Shares (24h rolling) — Baseline vs Optimized",
-      "Cumulative Emissions (kg) — 14-day view",
-    ];
     return gallery.map((src, i) => ({
       src,
-      title: `${selectedStateName} — ${baseTitles[i] ?? `Figure ${i + 1}`}`,
+      figure: FIGURES[i]?.kind,
+      title: `${selectedStateName} — ${FIGURES[i]?.title ?? `Figure ${i + 1}`}`,
     }));
   }, [gallery, selectedStateName]);
 
+  // 1-based in the URL ("slide 4"); carousel steps replace the entry rather than pile up history
+  const slide = Math.min(Math.max(readInt(query, QUERY_KEYS.slide, 1) - 1, 0), Math.max(slides.length - 1, 0));
   const to = (i: number) => {
     const n = Math.max(slides.length, 1);
-    setSlide((i % n + n) % n);
+    const idx = (i % n + n) % n;
+    updateQuery({ [QUERY_KEYS.slide]: idx ? String(idx + 1) : null }, "replace");
   };
   const next = () => to(slide + 1);
   const prev = () => to(slide - 1);
 
-  // reset slide whenever state changes
-  useEffect(() => { setSlide(0); }, [selectedId]);
-
-  // ---------- Gemini summarize ----------
+  // ---------- Chart summarize (from the figure's data; the server picks the model) ----------
   const [summary, setSummary] = useState<string>("");
+  const [summaryProvider, setSummaryProvider] = useState<string>("");
+  const [citations, setCitations] = useState<Citation[]>([]);
   const [summarizing, setSummarizing] = useState<boolean>(false);
   const [errorMsg, setErrorMsg] = useState<string>("");
 
+  const [summaryCached, setSummaryCached] = useState<boolean>(false);
+  // The request in flight, so navigating away (or Stop) can cancel it
+  const summaryAbort = useRef<AbortController | null>(null);
+
+  const current = slides[slide];
+  const currentSummaryKey = current ? summaryKey(selectedStateName, current.figure ?? current.src) : "";
+
   const handleSummarize = async () => {
-    if (!slides.length || summarizing) return;
+    if (!current || summarizing) return;
+    const ac = new AbortController();
+    summaryAbort.current = ac;
     try {
       setSummarizing(true);
       setErrorMsg("");
       setSummary("");
-      const { src, title } = slides[slide];
-      const prompt = `Generalize the trend in this plot in 3 concise bullets and state the benefits. Title: "${title}".`;
-
-      try {
-        const data1 = await fetchJsonWithTimeout(SUMMARIZE_ENDPOINT, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ imageUrl: src, prompt }),
-        });
-        if (data1?.summary) {
-          setSummary(String(data1.summary));
-          return;
-        }
-      } catch {}
-
-      const { dataUrl, base64, mime } = await downscaleToJpegDataUrl(src, 1400, 0.85);
-      const data2 = await fetchJsonWithTimeout(SUMMARIZE_ENDPOINT, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ imageDataUrl: dataUrl, imageBase64: base64, mimeType: mime, prompt }),
+      setSummaryProvider("");
+      setCitations([]);
+      setSummaryCached(false);
+
+      // Known figures are summarized from the numbers behind them, with citations;
+      // anything else falls back to sending a downscaled screenshot
+      let body: Record<string, unknown>;
+      if (current.figure) {
+        body = { state: selectedStateName, figure: current.figure };
+      } else {
+        const { base64, mime } = await downscaleToJpegDataUrl(current.src, 1400, 0.85);
+        body = { imageBase64: base64, mimeType: mime, title: current.title };
+      }
+      const reply = await streamSummary(currentSummaryKey, body, {
+        signal: ac.signal,
+        onText: (text) => { if (!ac.signal.aborted) setSummary((s) => s + text); },
       });
-      if (!data2?.summary) throw new Error("No summary field in server response.");
-      setSummary(String(data2.summary));
-    } catch (e: any) {
-      setErrorMsg(e?.name === "AbortError" ? "Summarization timed out. Try again." : e?.message || "Failed to summarize");
+      setSummary(reply.summary);
+      setSummaryProvider(reply.provider);
+      setCitations(reply.citations);
+      setSummaryCached(reply.cached);
+    } catch (e) {
+      // Cancelled by navigation or Stop; whoever cancelled has reset the panel
+      if (ac.signal.aborted) return;
+      setSummary("");
+      setErrorMsg(e instanceof Error && e.message ? e.message : "Failed to summarize");
     } finally {
-      setSummarizing(false);
+      if (summaryAbort.current === ac) {
+        summaryAbort.current = null;
+        setSummarizing(false);
+      }
     }
   };
 
-  useEffect(() => { if (summary || errorMsg) { setSummary(""); setErrorMsg(""); } }, [slide]);
-  useEffect(() => { setSummary(""); setErrorMsg(""); }, [selectedId]);
+  const stopSummarize = () => {
+    summaryAbort.current?.abort();
+    summaryAbort.current = null;
+    setSummarizing(false);
+    setSummary("");
+  };
+
+  // Changing slide or state cancels the request in flight and shows the
+  // summary already written for the new slide, if any
+  useEffect(() => {
+    const hit = currentSummaryKey ? cachedSummary(currentSummaryKey) : undefined;
+    setSummary(hit?.summary ?? "");
+    setSummaryProvider(hit?.provider ?? "");
+    setCitations(hit?.citations ?? []);
+    setSummaryCached(Boolean(hit));
+    setErrorMsg("");
+    return () => {
+      summaryAbort.current?.abort();
+      summaryAbort.current = null;
+      setSummarizing(false);
+    };
+  }, [currentSummaryKey]);
 
   // ---------- Impact Highlights ----------
   const highlightMetrics = useMemo<Metric[]>(() => {
@@ -497,9 +575,9 @@ export default function USInteractiveMap() {
     const row = stateDataMap[normalizeStateName(selectedStateName)];
     if (!row) return fallback;
 
-    const pctPoints = toNumber(row.fossil_share_reduction_pct_points);
-    const tonsSaved = toNumber(row.state_co2_saved_tons);
-    const usdSaved = toNumber(row.co2_cost_saved_usd);
+    const pctPoints = row.fossil_share_reduction_pct_points;
+    const tonsSaved = row.state_co2_saved_tons;
+    const usdSaved = row.co2_cost_saved_usd;
 
     const metrics: Metric[] = [
       { value: fmtPercent(pctPoints), label: "Less Fossil Fuel Use" },
@@ -513,15 +591,14 @@ export default function USInteractiveMap() {
 
 
   // ---------- FULLSCREEN LIGHTBOX ----------
-  const [lightboxOpen, setLightboxOpen] = useState(false);
-  const [lightboxIndex, setLightboxIndex] = useState<number>(0);
+  // Shows the current slide; opening/closing are history entries so Back closes it
+  const lightboxOpen = query.get(QUERY_KEYS.lightbox) === "1";
+  const lightboxIndex = slide;
 
   const openLightbox = (idx: number) => {
-    if (summarizing) return;
-    setLightboxIndex(idx);
-    setLightboxOpen(true);
+    updateQuery({ [QUERY_KEYS.slide]: idx ? String(idx + 1) : null, [QUERY_KEYS.lightbox]: "1" });
   };
-  const closeLightbox = () => setLightboxOpen(false);
+  const closeLightbox = () => updateQuery({ [QUERY_KEYS.lightbox]: null });
 
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => { if (lightboxOpen && e.key === "Escape") closeLightbox(); };
@@ -599,9 +676,12 @@ export default function USInteractiveMap() {
 
               const isSelected = selectedId === id;
               const isHover = hoverId === id;
+              const compareIdx = compareIds.indexOf(id);
+              const compareColor = compareIdx >= 0 ? COMPARE_COLORS[compareIdx] : null;
               const fill =
                 isSelected ? "url(#stateSelectedFill)"
                 : isHover   ? "url(#stateHoverFill)"
+                : colorScale ? colorScale.color(metricValues[id])
                 : BASE_FILL;
 
               return (
@@ -609,15 +689,15 @@ export default function USInteractiveMap() {
                   key={id}
                   onMouseEnter={() => setHoverId(id)}
                   onMouseLeave={() => setHoverId((h) => (h === id ? null : h))}
-                  onClick={() => handleStateClick(id)}
+                  onClick={(e) => handleStateClick(id, e.shiftKey)}
                   style={{ outline: "none" }}
                 >
                   <path
                     d={dAttr}
                     fill={fill}
-                    stroke={STROKE_COLOR}
-                    strokeOpacity={isHover || isSelected ? 0.95 : 0.8}
-                    strokeWidth={(isHover || isSelected ? 2 : 1.5) / zoom}
+                    stroke={compareColor ?? STROKE_COLOR}
+                    strokeOpacity={isHover || isSelected || compareColor ? 0.95 : 0.8}
+                    strokeWidth={(compareColor ? 3 : isHover || isSelected ? 2 : 1.5) / zoom}
                     className="cursor-pointer transition-[fill,stroke-width,stroke-opacity] duration-150"
                     pointerEvents="visiblePainted"
                     filter={isHover || isSelected ? "url(#glow)" : undefined}
@@ -629,6 +709,76 @@ export default function USInteractiveMap() {
           </g>
         </svg>
 
+        {/* Topology loading / error states */}
+        {topoStatus !== "ready" && (
+          <div className="absolute inset-0 grid place-items-center text-white">
+            {topoStatus === "loading" ? (
+              <div className="text-white/60 text-sm" role="status">Loading map…</div>
+            ) : (
+              <div className="text-center space-y-3" role="alert">
+                <div className="text-red-300 text-sm">Map failed to load{topoError ? `: ${topoError}` : ""}</div>
+                <button
+                  type="button"
+                  onClick={retryTopology}
+                  className="rounded-full bg-white px-4 py-1.5 text-sm text-black font-semibold hover:bg-sky-300"
+                >
+                  Retry
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Choropleth controls + legend */}
+        <div className="absolute top-3 left-3 flex flex-col gap-2 text-xs text-white">
+          <select
+            aria-label="Color states by"
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as MapMetric)}
+            className="rounded-md bg-black/60 border border-white/20 px-2 py-1 backdrop-blur-sm"
+          >
+            {MAP_METRICS.map((m) => (
+              <option key={m.key} value={m.key}>{m.label}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Map outline detail"
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value as TopologyResolution)}
+            className="rounded-md bg-black/60 border border-white/20 px-2 py-1 backdrop-blur-sm w-fit"
+          >
+            {TOPOLOGY_RESOLUTIONS.map((r) => (
+              <option key={r} value={r}>{RESOLUTION_LABELS[r]}</option>
+            ))}
+          </select>
+          {metric !== "none" && (
+            <div className="inline-flex rounded-md border border-white/20 bg-black/60 overflow-hidden w-fit">
+              {(["linear", "quantile"] as const).map((k) => (
+                <button
+                  key={k}
+                  type="button"
+                  onClick={() => setScaleKind(k)}
+                  className={`px-2 py-1 capitalize ${scaleKind === k ? "bg-white/25 font-semibold" : "hover:bg-white/10"}`}
+                >
+                  {k}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {colorScale && (
+          <div className="absolute bottom-3 left-3 rounded-lg bg-black/60 border border-white/15 p-2 text-[11px] text-white backdrop-blur-sm">
+            <div className="mb-1 font-semibold">{metricDef.label}</div>
+            {colorScale.legend.map((l, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className="inline-block h-3 w-4 rounded-sm" style={{ background: l.color }} />
+                <span>{fmtCompact(l.from)} – {fmtCompact(l.to)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* State name badge when selected */}
         {selectedId && (
           <div className="absolute top-3 left-1/2 -translate-x-1/2">
@@ -639,12 +789,48 @@ export default function USInteractiveMap() {
         )}
       </div>
 
+      {/* Dataset schema/load errors surface here instead of silently becoming "—" */}
+      {dataError && (
+        <div className="mt-4 mx-auto max-w-[min(1100px,98vw)] px-4">
+          <div className="rounded-lg border border-red-400/30 bg-red-500/10 px-4 py-2 text-sm text-red-200" role="alert">
+            {dataError.message}
+          </div>
+        </div>
+      )}
+
+      {/* Hour-by-hour carbon intensity timeline */}
+      {metric === "ci_hourly" && (
+        <div className="mt-4 mx-auto max-w-[min(1100px,98vw)] px-4">
+          {hourly.data ? (
+            <>
+              <TimelineControls
+                timestamps={hourly.data.timestamps}
+                index={Math.min(hourIndex, hourly.data.timestamps.length - 1)}
+                onChange={setHourIndex}
+              />
+              {hourly.data.failed.length > 0 && (
+                <div className="mt-1 text-xs text-white/50">
+                  No hourly data for {hourly.data.failed.join(", ")}.
+                </div>
+              )}
+            </>
+          ) : (
+            <div className={`text-sm ${hourly.error ? "text-red-300" : "text-white/60"}`}>
+              {hourly.error || "Loading hourly carbon intensity for all states…"}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Labels under the map */}
       <div className="mt-4 w-full flex justify-center text-white">
         <div className="flex flex-col sm:flex-row gap-2 text-center">
           <div className="bg-white/5 rounded-xl px-4 py-2 border border-white/10">
             <span className="opacity-80">Hover: </span>
             <span className="font-semibold">{hoverName}</span>
+            {hoverId && metric !== "none" && (
+              <span className="ml-2 opacity-80">{metricDef.format(metricValues[hoverId] ?? null)}</span>
+            )}
           </div>
           <div className="bg-white/5 rounded-xl px-4 py-2 border border-white/10">
             <span className="opacity-80">Selected: </span>
@@ -652,6 +838,20 @@ export default function USInteractiveMap() {
           </div>
         </div>
       </div>
+      <div className="mt-2 text-center text-xs text-white/50">
+        Shift-click up to {MAX_COMPARE} states to compare them side by side
+      </div>
+
+      {/* Side-by-side comparison (shift-click selection) */}
+      {compareNames.length >= 2 && (
+        <div className="mt-6 mx-auto max-w-[min(1400px,98vw)] px-4">
+          <StateComparison
+            stateNames={compareNames}
+            onRemove={(name) => setCompareIds((cur) => cur.filter((id) => FIPS_TO_NAME[id] !== name))}
+            onClear={() => setCompareIds([])}
+          />
+        </div>
+      )}
 
       {/* Selected state content */}
       {selectedId && (
@@ -727,8 +927,8 @@ export default function USInteractiveMap() {
                     </span>
                     <button
                       type="button"
-                      onClick={handleSummarize}
-                      disabled={summarizing || !slides.length}
+                      onClick={summarizing ? stopSummarize : handleSummarize}
+                      disabled={!slides.length || (!!summary && !summarizing)}
                       aria-busy={summarizing}
                       className="group inline-flex items-center gap-2 rounded-full px-4 py-2
                                  bg-white hover:bg-sky-300 active:bg-sky-500
@@ -747,7 +947,7 @@ export default function USInteractiveMap() {
                         <rect x="5" y="5" width="14" height="14" rx="3" transform="rotate(45 12 12)" fill="url(#gemGrad)"/>
                       </svg>
                       <span className="tracking-tight">
-                        {summarizing ? "Summarizing…" : "Summarize with Gemini"}
+                        {summarizing ? "Stop" : summary ? "Summarized" : "Summarize chart"}
                       </span>
                     </button>
                   </div>
@@ -755,21 +955,29 @@ export default function USInteractiveMap() {
 
                 {(summary || errorMsg) && (
                   <div className="mb-3 rounded-lg border border-white/10 bg-white/5 p-3">
-                    {summary && <div className="text-white/90 text-sm whitespace-pre-wrap">{summary}</div>}
+                    {summary && (
+                      <CitedSummary
+                        summary={summary}
+                        citations={citations}
+                        provider={summaryProvider}
+                        cached={summaryCached}
+                        pending={summarizing}
+                      />
+                    )}
                     {errorMsg && <div className="text-red-300 text-sm">{errorMsg}</div>}
                   </div>
                 )}
 
                 {/* Fixed-height figure area to match state preview */}
                 <div
-                  className={`relative overflow-hidden rounded-xl ${summarizing ? "pointer-events-none opacity-90" : ""}`}
+                  className="relative overflow-hidden rounded-xl"
                   style={{ height: PREVIEW_H }}
                   onTouchStart={(e) => {
-                    if (summarizing || !slides.length) return;
+                    if (!slides.length) return;
                     touchXRef.current = e.touches[0].clientX;
                   }}
                   onTouchEnd={(e) => {
-                    if (summarizing || touchXRef.current == null || !slides.length) return;
+                    if (touchXRef.current == null || !slides.length) return;
                     const dx = e.changedTouches[0].clientX - touchXRef.current;
                     touchXRef.current = null;
                     const THRESH = 40;
@@ -809,7 +1017,6 @@ export default function USInteractiveMap() {
                         type="button"
                         onClick={prev}
                         aria-label="Previous image"
-                        disabled={summarizing}
                         className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full
                                    bg-black/50 hover:bg-black/70 border border-white/20 p-2 text-white
                                    backdrop-blur-sm disabled:opacity-50 disabled:cursor-not-allowed"
@@ -820,7 +1027,6 @@ export default function USInteractiveMap() {
                         type="button"
                         onClick={next}
                         aria-label="Next image"
-                        disabled={summarizing}
                         className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full
                                    bg-black/50 hover:bg-black/70 border border-white/20 p-2 text-white
                                    backdrop-blur-sm disabled:opacity-50 disabled:cursor-not-allowed"
@@ -838,8 +1044,7 @@ export default function USInteractiveMap() {
                       <button
                         key={i}
                         aria-label={`Go to image ${i + 1}`}
-                        onClick={() => { if (!summarizing) to(i); }}
-                        disabled={summarizing}
+                        onClick={() => to(i)}
                         className={[
                           "h-2.5 w-2.5 rounded-full transition-opacity",
                           i === slide ? "bg-white opacity-100" : "bg-white/50 opacity-60 hover:opacity-90",
@@ -852,6 +1057,31 @@ export default function USInteractiveMap() {
               </div>
             </div>
 
+            {/* FULL-WIDTH: Questions answered from the hourly forecast */}
+            <div className="md:col-span-2">
+              <StateChat stateName={selectedStateName} />
+            </div>
+
+            {/* FULL-WIDTH: Lowest-carbon window for one appliance run */}
+            <div className="md:col-span-2">
+              <RunWindowFinder stateName={selectedStateName} />
+            </div>
+
+            {/* FULL-WIDTH: Interactive hourly charts from frontend_14d.json */}
+            <div className="md:col-span-2">
+              <HourlyCharts stateName={selectedStateName} />
+            </div>
+
+            {/* FULL-WIDTH: Baseline vs optimized household schedule */}
+            <div className="md:col-span-2">
+              <SchedulePanel stateName={selectedStateName} />
+            </div>
+
+            {/* FULL-WIDTH: Personal device schedule */}
+            <div className="md:col-span-2">
+              <HouseholdPlanner stateName={selectedStateName} />
+            </div>
+
             {/* BOTTOM FULL-WIDTH: Impact highlights */}
             <div className="md:col-span-2">
               <ImpactHighlights
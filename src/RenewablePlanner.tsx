@@ -1,10 +1,39 @@
 // RenewablePlanner.tsx
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 // import DataSourceFooter from "./Footer";
-
-
-// CSV asset (Vite will inline url)
-import fuelMixCsvUrl from "./data/statewide_fuel_breakdown.csv?url";
+import { useStateFile } from "./useStateData";
+import {
+  cfProfile,
+  flatCf,
+  minStorageToEliminateFossil,
+  simulateDispatch,
+  syntheticSolarCf,
+  unitsToEliminateFossil,
+  utcOffsetFor,
+  type ExtraSource,
+  type HourlyGrid,
+  type Storage,
+} from "./dispatch";
+import DispatchChart from "./DispatchChart";
+import { evaluateFinance, type FinanceItem, type FinanceSpec } from "./finance";
+import CheapestMixPanel from "./CheapestMixPanel";
+import TechSettingsDrawer from "./TechSettingsDrawer";
+import ScenarioPanel from "./ScenarioPanel";
+import { isPlannerParam, plannerParams, type Scenario, type ScenarioMetrics } from "./scenarios";
+import type { PortfolioInput } from "./portfolio";
+import { QUERY_KEYS, readInt, readNumber, updateQuery, useQueryParams } from "./useQueryState";
+import {
+  DEFAULT_STORAGE,
+  loadCustomTechs,
+  nextTechColor,
+  saveCustomTechs,
+  stateTechDefaults,
+  type CustomTech,
+  type StorageSpec,
+  type TechSpec,
+} from "./techSpecs";
+
+export type { StorageSpec, TechSpec };
 
 
 /** Formatting helpers */
@@ -17,17 +46,6 @@ const fmt2 = (n: number) =>
 const fmtUSD = (n: number) =>
   new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(n);
 
-/** Domain: we use daily energy for intuition
- * energyFromUnits(MWh/day) = units * mwPerUnit * capacityFactor * 24
- */
-export type TechSpec = {
-  unitName: string;
-  mwPerUnit: number;
-  capacityFactor: number;
-  costPerUnit: number;
-  maxUnits: number; // a soft cap; we will scale beyond if needed to reach 100%
-};
-
 export type PlannerProps = {
   className?: string;
   title?: string;
@@ -35,67 +53,101 @@ export type PlannerProps = {
   demandMWh?: number;
   /** Selected state name from the map (e.g., "California") */
   selectedState?: string;
-  /** Technology specs */
+  /** Technology specs (solar/wind default to the selected state's capacity factors) */
   solar?: TechSpec;
   wind?: TechSpec;
+  storage?: StorageSpec;
 };
 
-const DEFAULT_SOLAR: TechSpec = {
-  unitName: "MWdc solar block",
-  mwPerUnit: 5,
-  capacityFactor: 0.22,
-  costPerUnit: 8_000_000,
-  maxUnits: 200,
-};
+/** Length of the synthetic series used when no state is selected (matches the 14-day state files) */
+const SIM_HOURS = 14 * 24;
 
-const DEFAULT_WIND: TechSpec = {
-  unitName: "turbine (4 MW)",
-  mwPerUnit: 4,
-  capacityFactor: 0.38,
-  costPerUnit: 6_200_000,
-  maxUnits: 200,
+const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(b, n));
+
+/** $/t CO₂ behind `co2_cost_saved_usd` in the state impact data */
+const DEFAULT_CARBON_PRICE = 240;
+
+/** Units to add on top of the current build */
+const fmtUnitsNeeded = (n: number | undefined) =>
+  n == null ? "…" : Number.isFinite(n) ? `+${fmtInt(n)} units` : "not possible";
+/** A total unit count, e.g. the whole storage fleet needed */
+const fmtUnitsTotal = (n: number | undefined) =>
+  n == null ? "…" : Number.isFinite(n) ? `${fmtInt(n)} units` : "not possible";
+
+/** Spec overrides in the URL, e.g. `?wind_cf=0.42&wind_cost=5500000&storage_mwh=800` */
+type NumericKeys<T> = { [K in keyof T]: T[K] extends number ? K : never }[keyof T];
+
+const FINANCE_PARAMS: Record<string, keyof FinanceSpec> = {
+  om: "omRate",
+  life: "lifetimeYears",
+  rate: "discountRate",
+  deg: "degradation",
+  itc: "itc",
 };
 
-const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(b, n));
+const TECH_PARAMS: Record<string, NumericKeys<TechSpec>> = {
+  mw: "mwPerUnit",
+  cf: "capacityFactor",
+  cost: "costPerUnit",
+  max: "maxUnits",
+  ...FINANCE_PARAMS,
+};
 
-/** CSV parsing utilities */
-type FuelRow = {
-  state?: string;
-  fossil_mwh?: string;
-  solar_mwh?: string;
-  wind_mwh?: string;
-  other_mwh?: string;
-  [k: string]: string | undefined;
+const STORAGE_PARAMS: Record<string, NumericKeys<StorageSpec>> = {
+  mwh: "mwhPerUnit",
+  mw: "mwPerUnit",
+  rte: "roundTripEfficiency",
+  cost: "costPerUnit",
+  max: "maxUnits",
+  ...FINANCE_PARAMS,
 };
 
-function parseCSV(text: string): Record<string, string>[] {
-  const lines = text.trim().split(/\r?\n/);
-  if (!lines.length) return [];
-  const headers = splitCSVLine(lines[0]);
-  return lines.slice(1).map((line) => {
-    const cells = splitCSVLine(line);
-    const obj: Record<string, string> = {};
-    headers.forEach((h, i) => { obj[h.trim()] = (cells[i] ?? "").trim(); });
-    return obj;
-  });
-}
-function splitCSVLine(line: string): string[] {
-  const out: string[] = [];
-  const re = /(?:^|,)(?:"([^"]*(?:""[^"]*)*)"|([^",]*))/g;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(line))) {
-    if (m[1] != null) out.push(m[1].replace(/""/g, '"'));
-    else out.push(m[2] ?? "");
+/** Fields that are fractions (0..1) rather than open-ended amounts */
+const FRACTION_FIELDS = new Set<string>([
+  "capacityFactor", "roundTripEfficiency", "omRate", "discountRate", "degradation", "itc",
+]);
+
+function specFromQuery<T extends { unitName: string }>(
+  params: URLSearchParams,
+  prefix: string,
+  base: T,
+  fields: Record<string, NumericKeys<T>>
+): T {
+  const spec = { ...base };
+  for (const [suffix, field] of Object.entries(fields)) {
+    const v = readNumber(params, `${prefix}_${suffix}`);
+    if (v != null && v >= 0) Object.assign(spec, { [field]: FRACTION_FIELDS.has(String(field)) ? clamp(v, 0, 1) : v });
   }
-  if (line.endsWith(",")) out.push("");
-  return out;
+  const unit = params.get(`${prefix}_unit`);
+  if (unit) spec.unitName = unit;
+  return spec;
 }
-function toNumber(x: string | undefined): number {
-  if (x == null) return 0;
-  const n = Number(String(x).replace(/[$,%\s]/g, ""));
-  return Number.isFinite(n) ? n : 0;
+
+/** Inverse of specFromQuery for edited fields; values equal to the base drop their parameter */
+function queryFromSpecPatch<T>(
+  prefix: string,
+  base: T,
+  fields: Record<string, NumericKeys<T>>,
+  patch: Partial<T>
+): Record<string, string | null> {
+  const changes: Record<string, string | null> = {};
+  for (const [suffix, field] of Object.entries(fields)) {
+    const v = patch[field];
+    if (v != null) changes[`${prefix}_${suffix}`] = v === base[field] ? null : String(v);
+  }
+  return changes;
 }
-const norm = (s?: string) => (s || "").trim().toLowerCase();
+
+/** URL key holding a custom tech's unit count */
+const techUnitsKey = (id: string) => `${QUERY_KEYS.techUnitsPrefix}${id}`;
+
+/** Pie/legend entries; `light` is the gradient's start colour (custom techs fade their own) */
+type Slice = { key: string; name: string; color: string; light?: string };
+
+const SLICE_SOLAR: Slice = { key: "solar", name: "Solar", color: "#f59e0b", light: "#fde68a" };
+const SLICE_WIND: Slice = { key: "wind", name: "Wind", color: "#3b82f6", light: "#93c5fd" };
+const SLICE_OTHER: Slice = { key: "other", name: "Other", color: "#10b981", light: "#a7f3d0" };
+const SLICE_FOSSIL: Slice = { key: "fossil", name: "Fossil", color: "#475569", light: "#cbd5e1" };
 
 /** SVG pie-slice builder */
 function buildArcs(values: number[], cx: number, cy: number, r: number) {
@@ -167,56 +219,154 @@ const RenewablePlanner: React.FC<PlannerProps> = ({
   title = "Renewables Planner",
   demandMWh = 200_000,          // fallback if no state selected
   selectedState,                // <-- from map.tsx
-  solar = DEFAULT_SOLAR,
-  wind = DEFAULT_WIND,
+  solar: solarProp,
+  wind: windProp,
+  storage: storageProp = DEFAULT_STORAGE,
 }) => {
-  /** Local state for user build */
-  const [solarUnits, setSolarUnits] = useState<number>(0);
-  const [windUnits, setWindUnits] = useState<number>(0);
-
-  /** Load CSV and lookup the selected state's baseline mix */
-  const [fuelMap, setFuelMap] = useState<Record<string, FuelRow>>({});
-  useEffect(() => {
-    let cancelled = false;
-    (async () => {
-      try {
-        const resp = await fetch(fuelMixCsvUrl);
-        const txt = await resp.text();
-        const rows = parseCSV(txt) as FuelRow[];
-        const map: Record<string, FuelRow> = {};
-        for (const r of rows) {
-          const key = norm(r.state);
-          if (key) map[key] = r;
-        }
-        if (!cancelled) setFuelMap(map);
-      } catch {
-        if (!cancelled) setFuelMap({});
-      }
-    })();
-    return () => { cancelled = true; };
-  }, []);
+  /** User build and spec overrides are read from the query string (shareable links) */
+  const query = useQueryParams();
+  const defaults = useMemo(() => {
+    const byState = stateTechDefaults(selectedState);
+    return { solar: solarProp ?? byState.solar, wind: windProp ?? byState.wind };
+  }, [selectedState, solarProp, windProp]);
+  const solar = useMemo(
+    () => specFromQuery(query, QUERY_KEYS.solarUnits, defaults.solar, TECH_PARAMS),
+    [query, defaults.solar]
+  );
+  const wind = useMemo(
+    () => specFromQuery(query, QUERY_KEYS.windUnits, defaults.wind, TECH_PARAMS),
+    [query, defaults.wind]
+  );
+  const storage = useMemo(
+    () => specFromQuery(query, QUERY_KEYS.storageUnits, storageProp, STORAGE_PARAMS),
+    [query, storageProp]
+  );
 
-  const baseline = useMemo(() => {
-    const row = selectedState ? fuelMap[norm(selectedState)] : undefined;
-    const fossil = toNumber(row?.fossil_mwh);
-    const solarM = toNumber(row?.solar_mwh);
-    const windM  = toNumber(row?.wind_mwh);
-    const other  = toNumber(row?.other_mwh);
-    const total  = fossil + solarM + windM + other;
-
-    if (total > 0) {
+  /** The state's 14-day hourly grid: demand + fossil from hourly_summary, solar/wind from the fuel series */
+  const { data: summaryRows, error: summaryError } = useStateFile(selectedState, "hourlySummary");
+  const { data: fuelRows, error: fuelError } = useStateFile(selectedState, "hourlyFuel");
+  const dataError = summaryError ?? fuelError;
+
+  /** User-added technologies are kept per browser; their unit counts live in the URL */
+  const [customTechs, setCustomTechs] = useState<CustomTech[]>(loadCustomTechs);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const closeSettings = useCallback(() => setSettingsOpen(false), []);
+
+  useEffect(() => saveCustomTechs(customTechs), [customTechs]);
+
+  const addTech = (preset: Omit<CustomTech, "id" | "color">) =>
+    setCustomTechs((ts) => [...ts, { ...preset, id: `t${Date.now().toString(36)}`, color: nextTechColor(ts) }]);
+  const updateTech = (id: string, patch: Partial<CustomTech>) =>
+    setCustomTechs((ts) => ts.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+  const removeTech = (id: string) => {
+    setCustomTechs((ts) => ts.filter((t) => t.id !== id));
+    updateQuery({ [techUnitsKey(id)]: null }, "replace");
+  };
+
+  /** Built-in spec edits are stored as URL overrides */
+  const editSpec = (tech: "solar" | "wind", patch: Partial<TechSpec>) => {
+    const prefix = tech === "solar" ? QUERY_KEYS.solarUnits : QUERY_KEYS.windUnits;
+    updateQuery(queryFromSpecPatch(prefix, defaults[tech], TECH_PARAMS, patch), "replace");
+  };
+  const editStorage = (patch: Partial<StorageSpec>) =>
+    updateQuery(queryFromSpecPatch(QUERY_KEYS.storageUnits, storageProp, STORAGE_PARAMS, patch), "replace");
+  const resetSpecs = () => {
+    const changes: Record<string, string | null> = {};
+    for (const [prefix, fields] of [
+      [QUERY_KEYS.solarUnits, TECH_PARAMS],
+      [QUERY_KEYS.windUnits, TECH_PARAMS],
+      [QUERY_KEYS.storageUnits, STORAGE_PARAMS],
+    ] as const) {
+      for (const suffix of [...Object.keys(fields), "unit"]) changes[`${prefix}_${suffix}`] = null;
+    }
+    updateQuery(changes, "replace");
+  };
+
+  const grid = useMemo<HourlyGrid | null>(() => {
+    if (!selectedState) {
+      // No state: flat, all-fossil demand over the same two-week span
+      const n = SIM_HOURS;
+      const t0 = Date.UTC(2025, 8, 29);
       return {
-        fossilMWh: fossil,
-        solarMWh: solarM,
-        windMWh : windM,
-        otherMWh: other,
-        demandMWh: total,
+        timestamps: Array.from({ length: n }, (_, i) => new Date(t0 + i * 3_600_000).toISOString()),
+        demand: new Array<number>(n).fill(demandMWh / 24),
+        fossil: new Array<number>(n).fill(demandMWh / 24),
+        solar: new Array<number>(n).fill(0),
+        wind: new Array<number>(n).fill(0),
       };
     }
-    return undefined;
-  }, [fuelMap, selectedState]);
+    if (!summaryRows || !fuelRows) return null;
+    const timestamps = summaryRows.map((r) => r.timestamp_utc);
+    const index = new Map(timestamps.map((ts, i) => [ts, i]));
+    const solarS = new Array<number>(timestamps.length).fill(0);
+    const windS = new Array<number>(timestamps.length).fill(0);
+    const co2 = new Array<number>(timestamps.length).fill(0);
+    let co2Known = true;
+    for (const r of fuelRows) {
+      const i = index.get(r.timestamp_utc);
+      if (i == null) continue;
+      if (r.emissions_kg_co2 == null) co2Known = false;
+      else co2[i] += r.emissions_kg_co2;
+      if (r.fueltype === "SUN") solarS[i] += r.forecast_mwh;
+      else if (r.fueltype === "WND") windS[i] += r.forecast_mwh;
+    }
+    return {
+      timestamps,
+      demand: summaryRows.map((r) => r.total_mwh),
+      fossil: summaryRows.map((r) => r.fossil_mwh),
+      solar: solarS,
+      wind: windS,
+      // A state whose export lost its emissions gets no CO₂ figures rather than wrong ones
+      co2Kg: co2Known ? co2 : undefined,
+    };
+  }, [selectedState, summaryRows, fuelRows, demandMWh]);
+
+  /** Hourly capacity-factor profiles: the state's own SUN/WND shape, else a synthetic one */
+  const profiles = useMemo(() => {
+    if (!grid) return null;
+    const solarShape = cfProfile(grid.solar, solar.capacityFactor);
+    const windShape = cfProfile(grid.wind, wind.capacityFactor);
+    return {
+      solarCf: solarShape ?? syntheticSolarCf(grid.timestamps, utcOffsetFor(selectedState, grid.timestamps[0]), solar.capacityFactor),
+      windCf: windShape ?? flatCf(grid.timestamps.length, wind.capacityFactor),
+      solarSynthetic: !solarShape,
+      windSynthetic: !windShape,
+    };
+  }, [grid, solar.capacityFactor, wind.capacityFactor, selectedState]);
+
+  // Custom techs follow a flat, solar or wind shape at their own capacity factor
+  const customProfiles = useMemo(() => {
+    if (!grid) return null;
+    const n = grid.timestamps.length;
+    return customTechs.map((t) => {
+      if (t.profile === "solar") {
+        return cfProfile(grid.solar, t.capacityFactor) ??
+          syntheticSolarCf(grid.timestamps, utcOffsetFor(selectedState, grid.timestamps[0]), t.capacityFactor);
+      }
+      if (t.profile === "wind") return cfProfile(grid.wind, t.capacityFactor) ?? flatCf(n, t.capacityFactor);
+      return flatCf(n, t.capacityFactor);
+    });
+  }, [grid, customTechs, selectedState]);
+
+  // Baseline daily mix from the hourly data (undefined → fallback demand)
+  const baseline = useMemo(() => {
+    if (!selectedState || !grid || !grid.timestamps.length) return undefined;
+    const days = grid.timestamps.length / 24;
+    const sum = (xs: number[]) => xs.reduce((a, v) => a + v, 0) / days;
+    const demand = sum(grid.demand);
+    const fossil = sum(grid.fossil);
+    const solarM = sum(grid.solar);
+    const windM = sum(grid.wind);
+    return {
+      fossilMWh: fossil,
+      solarMWh: solarM,
+      windMWh: windM,
+      otherMWh: Math.max(demand - fossil - solarM - windM, 0),
+      demandMWh: demand,
+    };
+  }, [selectedState, grid]);
 
-  // Effective demand comes from CSV if available; else prop
+  // Effective demand comes from the hourly data if available; else prop
   const effectiveDemand = baseline?.demandMWh ?? demandMWh;
 
   // Per-unit energy (MWh/day) for each tech
@@ -236,104 +386,245 @@ const RenewablePlanner: React.FC<PlannerProps> = ({
     return Math.max(effectiveDemand - baseNonFossil, 0);
   }, [baseline, effectiveDemand]);
 
+  // Units of one tech alone that leave no fossil hour (Infinity: some fossil hour has no output)
+  const neededFor100 = useMemo(() => {
+    if (!grid || !profiles) return null;
+    return {
+      solarNeededIfOnlySolar: unitsToEliminateFossil(grid, profiles.solarCf, solar.mwPerUnit),
+      windNeededIfOnlyWind: unitsToEliminateFossil(grid, profiles.windCf, wind.mwPerUnit),
+    };
+  }, [grid, profiles, solar.mwPerUnit, wind.mwPerUnit]);
+
   // --- DYNAMIC SLIDER MAXES so the user can hit 100% with Solar-only or Wind-only ---
+  // (on average, and hour by hour where that is possible at all)
   const dynamicMaxSolarUnits = useMemo(() => {
     if (solarPerUnit <= 0) return solar.maxUnits;
     const neededIfOnlySolar = Math.ceil(remainingToCover / solarPerUnit);
+    const hourly = neededFor100?.solarNeededIfOnlySolar ?? 0;
     // let the slider reach at least the needed amount (or the provided max if higher)
-    return Math.max(solar.maxUnits, neededIfOnlySolar);
-  }, [remainingToCover, solarPerUnit, solar.maxUnits]);
+    return Math.max(solar.maxUnits, neededIfOnlySolar, Number.isFinite(hourly) ? hourly : 0);
+  }, [remainingToCover, solarPerUnit, solar.maxUnits, neededFor100]);
 
   const dynamicMaxWindUnits = useMemo(() => {
     if (windPerUnit <= 0) return wind.maxUnits;
     const neededIfOnlyWind = Math.ceil(remainingToCover / windPerUnit);
-    return Math.max(wind.maxUnits, neededIfOnlyWind);
-  }, [remainingToCover, windPerUnit, wind.maxUnits]);
+    const hourly = neededFor100?.windNeededIfOnlyWind ?? 0;
+    return Math.max(wind.maxUnits, neededIfOnlyWind, Number.isFinite(hourly) ? hourly : 0);
+  }, [remainingToCover, windPerUnit, wind.maxUnits, neededFor100]);
+
+  // Clamped on read so a linked value isn't lost while the state's baseline loads
+  const solarUnits = clamp(readInt(query, QUERY_KEYS.solarUnits), 0, dynamicMaxSolarUnits);
+  const windUnits = clamp(readInt(query, QUERY_KEYS.windUnits), 0, dynamicMaxWindUnits);
+  // Slider drags rewrite the current history entry instead of adding one per tick
+  const setSolarUnits = (n: number) => updateQuery({ [QUERY_KEYS.solarUnits]: n ? String(n) : null }, "replace");
+  const setWindUnits = (n: number) => updateQuery({ [QUERY_KEYS.windUnits]: n ? String(n) : null }, "replace");
+  const setStorageUnits = (n: number) => updateQuery({ [QUERY_KEYS.storageUnits]: n ? String(n) : null }, "replace");
+  const setTechUnits = (id: string, n: number) => updateQuery({ [techUnitsKey(id)]: n ? String(n) : null }, "replace");
+
+  // Joined so the memos below only change when a custom tech's count does, not on every URL update
+  const customUnitsKey = customTechs
+    .map((t) => clamp(readInt(query, techUnitsKey(t.id)), 0, t.maxUnits))
+    .join(",");
+  const customUnits = useMemo(
+    () => (customUnitsKey ? customUnitsKey.split(",").map(Number) : []),
+    [customUnitsKey]
+  );
+  const extras = useMemo<ExtraSource[]>(
+    () =>
+      customProfiles
+        ? customTechs.map((t, k) => ({ mw: (customUnits[k] ?? 0) * t.mwPerUnit, cf: customProfiles[k] }))
+        : [],
+    [customTechs, customProfiles, customUnits]
+  );
 
   // Derived numbers from sliders (incremental new renewables)
   const solarCapMW = useMemo(() => solarUnits * solar.mwPerUnit, [solarUnits, solar.mwPerUnit]);
   const windCapMW  = useMemo(() => windUnits * wind.mwPerUnit,   [windUnits,  wind.mwPerUnit]);
 
-  const solarEnergy = useMemo(() => solarUnits * solarPerUnit, [solarUnits, solarPerUnit]); // MWh/day
-  const windEnergy  = useMemo(() => windUnits  * windPerUnit,  [windUnits,  windPerUnit]);
+  const storageUnit = useMemo<Storage>(
+    () => ({ energyMWh: storage.mwhPerUnit, powerMW: storage.mwPerUnit, efficiency: storage.roundTripEfficiency }),
+    [storage.mwhPerUnit, storage.mwPerUnit, storage.roundTripEfficiency]
+  );
 
-  // Apply displacement: new solar+wind displace fossil first, then surplus
-  const finalMix = useMemo(() => {
-    const baseFossil = baseline?.fossilMWh ?? 0;
-    const baseSolar  = baseline?.solarMWh  ?? 0;
-    const baseWind   = baseline?.windMWh   ?? 0;
-    const baseOther  = baseline?.otherMWh  ?? 0;
-    const demand     = effectiveDemand;
-
-    const addRenew   = solarEnergy + windEnergy;
-
-    const displacedFossil = Math.min(baseFossil, addRenew);
-    const fossilLeft = Math.max(baseFossil - displacedFossil, 0);
-
-    const finalSolar = baseSolar + solarEnergy;
-    const finalWind  = baseWind  + windEnergy;
-    const finalOther = baseOther;
-
-    const served = finalSolar + finalWind + finalOther + fossilLeft;
-    const unmet  = Math.max(demand - served, 0);
-    const surplus = Math.max(served - demand, 0);
-
-    // Cap slices to demand when rendering the pie
-    const forPie = {
-      solar: finalSolar,
-      wind: finalWind,
-      other: finalOther,
-      fossil: fossilLeft,
+  // Smallest battery fleet that, with this solar/wind build, leaves no fossil hour
+  const minStorageUnits = useMemo(() => {
+    if (!grid || !profiles) return undefined;
+    return minStorageToEliminateFossil(
+      { grid, solarMW: solarCapMW, windMW: windCapMW, solarCf: profiles.solarCf, windCf: profiles.windCf, extra: extras },
+      storageUnit
+    );
+  }, [grid, profiles, solarCapMW, windCapMW, extras, storageUnit]);
+
+  const dynamicMaxStorageUnits = Math.max(
+    storage.maxUnits,
+    minStorageUnits != null && Number.isFinite(minStorageUnits) ? minStorageUnits : 0
+  );
+  const storageUnits = clamp(readInt(query, QUERY_KEYS.storageUnits), 0, dynamicMaxStorageUnits);
+
+  // Hour-by-hour dispatch of the new build against the state's grid
+  const dispatch = useMemo(() => {
+    if (!grid || !profiles) return null;
+    return simulateDispatch({
+      grid,
+      solarMW: solarCapMW,
+      windMW: windCapMW,
+      solarCf: profiles.solarCf,
+      windCf: profiles.windCf,
+      extra: extras,
+      storage: {
+        energyMWh: storageUnits * storageUnit.energyMWh,
+        powerMW: storageUnits * storageUnit.powerMW,
+        efficiency: storageUnit.efficiency,
+      },
+      cyclic: true,
+    });
+  }, [grid, profiles, solarCapMW, windCapMW, extras, storageUnits, storageUnit]);
+
+  // Least-cost search reuses the same grid, profiles and (fixed) storage
+  const portfolioInput = useMemo<PortfolioInput | null>(() => {
+    if (!grid || !profiles) return null;
+    return {
+      grid,
+      solar: { mwPerUnit: solar.mwPerUnit, costPerUnit: solar.costPerUnit, cf: profiles.solarCf, maxUnits: solar.maxUnits },
+      wind: { mwPerUnit: wind.mwPerUnit, costPerUnit: wind.costPerUnit, cf: profiles.windCf, maxUnits: wind.maxUnits },
+      extra: extras,
+      storage: {
+        energyMWh: storageUnits * storageUnit.energyMWh,
+        powerMW: storageUnits * storageUnit.powerMW,
+        efficiency: storageUnit.efficiency,
+      },
     };
-    const sumSlices = forPie.solar + forPie.wind + forPie.other + forPie.fossil;
-    const scale = sumSlices > demand && demand > 0 ? demand / sumSlices : 1;
+  }, [
+    grid, profiles, extras, storageUnits, storageUnit,
+    solar.mwPerUnit, solar.costPerUnit, solar.maxUnits,
+    wind.mwPerUnit, wind.costPerUnit, wind.maxUnits,
+  ]);
+
+  const applyMix = (s: number, w: number) =>
+    updateQuery({ [QUERY_KEYS.solarUnits]: s ? String(s) : null, [QUERY_KEYS.windUnits]: w ? String(w) : null });
+
+  const solarEnergy = dispatch ? dispatch.totals.newSolarGen / dispatch.days : 0; // MWh/day
+  const windEnergy = dispatch ? dispatch.totals.newWindGen / dispatch.days : 0;
+  const customEnergy = dispatch ? dispatch.totals.extraGen.reduce((a, v) => a + v, 0) / dispatch.days : 0;
+
+  // Daily averages of the hourly result; new renewables only land where fossil was running
+  const finalMix = useMemo(() => {
+    const days = dispatch?.days || 1;
+    const t = dispatch?.totals;
+    const demand = t ? t.demand / days : effectiveDemand;
+    // Stored energy came from new generation; credit it back in proportion to each source's output
+    const newGen = t ? t.extraGen.reduce((a, v) => a + v, t.newSolarGen + t.newWindGen) : 0;
+    const fromStorage = (gen: number) => (t && newGen > 0 ? (t.discharged * gen) / newGen : 0);
+    const finalSolar = (baseline?.solarMWh ?? 0) + (t ? (t.newSolarUsed + fromStorage(t.newSolarGen)) / days : 0);
+    const finalWind = (baseline?.windMWh ?? 0) + (t ? (t.newWindUsed + fromStorage(t.newWindGen)) / days : 0);
+    const finalExtras = customTechs.map((_, k) =>
+      t && k < t.extraGen.length ? (t.extraUsed[k] + fromStorage(t.extraGen[k])) / days : 0
+    );
+    const finalOther = baseline?.otherMWh ?? 0;
+    const fossilLeft = t ? t.fossil / days : demand;
 
     return {
       finalSolar,
       finalWind,
       finalOther,
       fossilLeft,
-      unmet,
-      surplus,
-      sharePct: Math.min(((finalSolar + finalWind + finalOther) / demand) * 100, 1000),
-      pieValues: [
-        forPie.solar * scale,
-        forPie.wind * scale,
-        forPie.other * scale,
-        forPie.fossil * scale,
-      ],
+      curtailed: t ? t.curtailed / days : 0,
+      discharged: t ? t.discharged / days : 0,
+      curtailedPct: t && newGen > 0 ? (t.curtailed / newGen) * 100 : 0,
+      shortfallHours: t?.shortfallHours ?? 0,
+      peakShortfallMW: t?.peakShortfallMW ?? 0,
+      hours: dispatch?.hours.length ?? 0,
+      sharePct: demand > 0 ? Math.min(((demand - fossilLeft) / demand) * 100, 100) : 0,
+      finalExtras,
+      pieValues: [finalSolar, finalWind, ...finalExtras, finalOther, fossilLeft],
     };
-  }, [baseline, solarEnergy, windEnergy, effectiveDemand]);
+  }, [dispatch, baseline, effectiveDemand, customTechs]);
 
-  // Pie arcs & palette
+  // Pie arcs & palette (one slice per custom tech, between wind and other)
   const { arcs, palette } = useMemo(() => {
-    const arcs = buildArcs(finalMix.pieValues, 100, 100, 90);
-    const palette = [
-      { name: "Solar",  color: "url(#pieSolar)" },
-      { name: "Wind",   color: "url(#pieWind)" },
-      { name: "Other",  color: "url(#pieOther)" },
-      { name: "Fossil", color: "url(#pieFossil)" },
+    const palette: Slice[] = [
+      SLICE_SOLAR,
+      SLICE_WIND,
+      ...customTechs.map((t) => ({ key: t.id, name: t.name, color: t.color })),
+      SLICE_OTHER,
+      SLICE_FOSSIL,
     ];
+    const arcs = buildArcs(finalMix.pieValues, 100, 100, 90);
     return { arcs, palette };
-  }, [finalMix.pieValues]);
-
-  // Helper: units needed to hit ~100% if using only one tech from current baseline
-  const neededFor100 = useMemo(() => {
-    const baseOtherAndNonFossil =
-      (baseline?.solarMWh ?? 0) + (baseline?.windMWh ?? 0) + (baseline?.otherMWh ?? 0);
-    const remaining = Math.max(effectiveDemand - baseOtherAndNonFossil, 0);
-
-    const windNeededIfOnlyWind   = windPerUnit > 0 ? Math.ceil(remaining / windPerUnit) : 0;
-    const solarNeededIfOnlySolar = solarPerUnit > 0 ? Math.ceil(remaining / solarPerUnit) : 0;
-
-    return { windNeededIfOnlyWind, solarNeededIfOnlySolar, remaining };
-  }, [baseline, effectiveDemand, solarPerUnit, windPerUnit]);
-
-  // Keep current slider values in bounds if the dynamic max shrinks between states
-  useEffect(() => {
-    setSolarUnits((s) => clamp(s, 0, dynamicMaxSolarUnits));
-    setWindUnits((w) => clamp(w, 0, dynamicMaxWindUnits));
-  }, [dynamicMaxSolarUnits, dynamicMaxWindUnits]);
+  }, [finalMix.pieValues, customTechs]);
+
+  const customCost = customTechs.reduce((sum, t, k) => sum + (customUnits[k] ?? 0) * t.costPerUnit, 0);
+  const totalCost =
+    solarUnits * solar.costPerUnit + windUnits * wind.costPerUnit + customCost + storageUnits * storage.costPerUnit;
+
+  const carbonPrice = readNumber(query, QUERY_KEYS.carbonPrice) ?? DEFAULT_CARBON_PRICE;
+  const setCarbonPrice = (n: number) =>
+    updateQuery({ [QUERY_KEYS.carbonPrice]: n === DEFAULT_CARBON_PRICE ? null : String(n) }, "replace");
+
+  // Displaced fossil CO₂, scaled from the 14-day window to a year (needs the state's emissions data)
+  const carbon = useMemo(() => {
+    if (!dispatch || !grid?.co2Kg) return null;
+    const t = dispatch.totals;
+    const tonsPerYear = ((t.co2BaselineKg - t.co2Kg) / 1000) * (365 / dispatch.days);
+    const socialPerYear = tonsPerYear * carbonPrice;
+    return {
+      tonsPerYear,
+      socialPerYear,
+      paybackYears: totalCost > 0 && socialPerYear > 0 ? totalCost / socialPerYear : null,
+    };
+  }, [dispatch, grid, carbonPrice, totalCost]);
+
+  // Lifecycle view of the same build: each tech is credited with the fossil MWh it displaced
+  // (storage with what it discharged) and a matching share of the avoided social cost
+  const finance = useMemo(() => {
+    if (!dispatch) return null;
+    const t = dispatch.totals;
+    const perYear = 365 / dispatch.days;
+    const displaced = t.fossilBaseline - t.fossil;
+    const item = (spec: FinanceSpec, capex: number, deliveredMWh: number): FinanceItem => ({
+      ...spec,
+      capex,
+      annualMWh: deliveredMWh * perYear,
+      annualBenefit: carbon && displaced > 0 ? (carbon.socialPerYear * deliveredMWh) / displaced : 0,
+    });
+    return evaluateFinance([
+      item(solar, solarUnits * solar.costPerUnit, t.newSolarUsed),
+      item(wind, windUnits * wind.costPerUnit, t.newWindUsed),
+      ...customTechs.map((c, k) => item(c, (customUnits[k] ?? 0) * c.costPerUnit, t.extraUsed[k] ?? 0)),
+      item(storage, storageUnits * storage.costPerUnit, t.discharged),
+    ]);
+  }, [dispatch, carbon, solar, wind, storage, customTechs, solarUnits, windUnits, storageUnits, customUnits]);
+
+  // $/t abated from the lifecycle view, so lifetimes and discounting apply to both
+  const costPerTon =
+    finance && carbon && finance.annualizedCost > 0 && carbon.tonsPerYear > 0
+      ? finance.annualizedCost / carbon.tonsPerYear
+      : null;
+
+  const scenarioMetrics = useMemo<ScenarioMetrics | null>(() => {
+    if (!dispatch) return null;
+    return {
+      sharePct: finalMix.sharePct,
+      unmetMWhPerDay: finalMix.fossilLeft,
+      unmetHours: finalMix.shortfallHours,
+      surplusMWhPerDay: finalMix.curtailed,
+      cost: totalCost,
+      co2TonsPerYear: carbon?.tonsPerYear ?? null,
+      lcoe: finance?.lcoe ?? null,
+    };
+  }, [dispatch, finalMix, totalCost, carbon, finance]);
+  const currentParams = useMemo(() => plannerParams(query), [query]);
+
+  /** Restore a saved build: its state, planner parameters and the custom techs it uses */
+  const loadScenario = (scenario: Scenario) => {
+    setCustomTechs((ts) => [
+      ...ts.filter((t) => !scenario.customTechs.some((c) => c.id === t.id)),
+      ...scenario.customTechs,
+    ]);
+    const cleared = Object.fromEntries([...query.keys()].filter(isPlannerParam).map((k) => [k, null]));
+    updateQuery({ ...cleared, ...scenario.params, [QUERY_KEYS.state]: scenario.state });
+  };
+  const chartExtras = useMemo(() => customTechs.map((t) => ({ name: `New ${t.name}`, color: t.color })), [customTechs]);
 
   return (
     <section
@@ -360,15 +651,30 @@ const RenewablePlanner: React.FC<PlannerProps> = ({
         </div>
       </div>
 
+      {dataError && (
+        <p className="mb-4 text-sm text-red-300" role="alert">{dataError.message}</p>
+      )}
+      {!dataError && !dispatch && (
+        <p className="mb-4 text-sm text-slate-400">Loading hourly grid data…</p>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* LEFT: Sliders + numbers */}
         <div className="space-y-6">
           <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
             <div className="flex items-center justify-between">
               <h3 className="font-semibold text-lg">Build Plan</h3>
-              <div className="flex gap-2">
+              <div className="flex gap-2 flex-wrap justify-end">
                 <Badge>Solar CF {fmt2(solar.capacityFactor * 100)}%</Badge>
                 <Badge>Wind CF {fmt2(wind.capacityFactor * 100)}%</Badge>
+                <Badge>Storage RTE {fmt2(storage.roundTripEfficiency * 100)}%</Badge>
+                <button
+                  type="button"
+                  onClick={() => setSettingsOpen(true)}
+                  className="rounded-full border border-white/20 px-2.5 py-0.5 text-xs font-semibold hover:bg-white/10"
+                >
+                  Tech settings
+                </button>
               </div>
             </div>
 
@@ -407,86 +713,224 @@ const RenewablePlanner: React.FC<PlannerProps> = ({
                 </div>
               </div>
 
+              {customTechs.map((t, k) => (
+                <React.Fragment key={t.id}>
+                  <Slider
+                    label={`${t.name} units (${t.unitName})`}
+                    value={customUnits[k] ?? 0}
+                    max={t.maxUnits}
+                    onChange={(n) => setTechUnits(t.id, n)}
+                  />
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                      <div className="text-slate-300">Nameplate capacity</div>
+                      <div className="text-slate-50 font-semibold">{fmtInt((customUnits[k] ?? 0) * t.mwPerUnit)} MW</div>
+                    </div>
+                    <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                      <div className="text-slate-300">Energy (avg/day)</div>
+                      <div className="text-slate-50 font-semibold">
+                        {fmtInt(dispatch ? (dispatch.totals.extraGen[k] ?? 0) / dispatch.days : 0)} MWh
+                      </div>
+                    </div>
+                  </div>
+                </React.Fragment>
+              ))}
+
+              <Slider
+                label={`Storage units (${storage.unitName})`}
+                value={storageUnits}
+                max={dynamicMaxStorageUnits}
+                onChange={setStorageUnits}
+              />
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                  <div className="text-slate-300">Energy / power</div>
+                  <div className="text-slate-50 font-semibold">
+                    {fmtInt(storageUnits * storage.mwhPerUnit)} MWh / {fmtInt(storageUnits * storage.mwPerUnit)} MW
+                  </div>
+                </div>
+                <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                  <div className="text-slate-300">Discharged (avg/day)</div>
+                  <div className="text-slate-50 font-semibold">{fmtInt(finalMix.discharged)} MWh</div>
+                </div>
+              </div>
+
               <div className="mt-2 text-[11px] text-slate-400 leading-5">
                 <span className="text-slate-200 font-semibold">100% frontier: </span>
                 any combination (S, W) satisfying{" "}
                 <code>
                   S·{fmt1(solarPerUnit)} + W·{fmt1(windPerUnit)} ≥ {fmtInt(remainingToCover)} MWh/day
                 </code>{" "}
-                eliminates fossil on average. Move either slider to the right to cross the frontier.
+                matches fossil energy on average — but the hourly simulation below only credits new output
+                in hours when fossil was running, so night and calm hours can still need fossil.
               </div>
             </div>
           </div>
 
+          {portfolioInput && (
+            <CheapestMixPanel
+              input={portfolioInput}
+              searchBounds={{ solar: dynamicMaxSolarUnits, wind: dynamicMaxWindUnits }}
+              onApply={applyMix}
+            />
+          )}
+
           <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
             <h3 className="font-semibold text-lg mb-4">Totals</h3>
             <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-sm">
               <div className="rounded-lg bg-black/20 border border-white/10 p-3">
-                <div className="text-slate-300">Renewables (incl. baseline)</div>
+                <div className="text-slate-300">
+                  {customTechs.length ? "Solar, wind & custom" : "Solar & wind"} (incl. baseline)
+                </div>
                 <div className="text-slate-50 font-semibold">
-                  {fmtInt((baseline?.solarMWh ?? 0) + (baseline?.windMWh ?? 0) + solarEnergy + windEnergy)} MWh/day
+                  {fmtInt((baseline?.solarMWh ?? 0) + (baseline?.windMWh ?? 0) + solarEnergy + windEnergy + customEnergy)} MWh/day
                 </div>
               </div>
               <div className="rounded-lg bg-black/20 border border-white/10 p-3">
-                <div className="text-slate-300">Share of demand</div>
+                <div className="text-slate-300">Non-fossil share (hourly)</div>
                 <div className="text-slate-50 font-semibold">{fmt1(finalMix.sharePct)}%</div>
               </div>
               <div className="rounded-lg bg-black/20 border border-white/10 p-3">
-                <div className="text-slate-300">Unmet demand</div>
-                <div className="text-slate-50 font-semibold">{fmtInt(finalMix.unmet)} MWh/day</div>
+                <div className="text-slate-300">Fossil residual</div>
+                <div className="text-slate-50 font-semibold">{fmtInt(finalMix.fossilLeft)} MWh/day</div>
               </div>
               <div className="rounded-lg bg-black/20 border border-white/10 p-3">
-                <div className="text-slate-300">Surplus</div>
-                <div className="text-slate-50 font-semibold">{fmtInt(finalMix.surplus)} MWh/day</div>
+                <div className="text-slate-300">Unmet without fossil</div>
+                <div className="text-slate-50 font-semibold">
+                  {fmtInt(finalMix.shortfallHours)} / {fmtInt(finalMix.hours)} h
+                </div>
+                <div className="text-xs text-slate-400">peak {fmtInt(finalMix.peakShortfallMW)} MW</div>
+              </div>
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">Curtailed</div>
+                <div className="text-slate-50 font-semibold">{fmtInt(finalMix.curtailed)} MWh/day</div>
+                <div className="text-xs text-slate-400">{fmt1(finalMix.curtailedPct)}% of new output</div>
               </div>
               <div className="rounded-lg bg-black/20 border border-white/10 p-3">
                 <div className="text-slate-300">Total cost</div>
-                <div className="text-sky-200 font-semibold">
-                  {fmtUSD(solarUnits * solar.costPerUnit + windUnits * wind.costPerUnit)}
-                </div>
+                <div className="text-sky-200 font-semibold">{fmtUSD(totalCost)}</div>
               </div>
               <div className="rounded-lg bg-black/20 border border-white/10 p-3">
-                <div className="text-slate-300">To reach ~100% solo</div>
+                <div className="text-slate-300">Fossil-free every hour, solo</div>
                 <div className="text-slate-50 text-xs leading-5">
-                  +{fmtInt(neededFor100.solarNeededIfOnlySolar)} solar units
+                  {fmtUnitsNeeded(neededFor100?.solarNeededIfOnlySolar)} solar
                   <span className="text-slate-400"> or </span>
-                  +{fmtInt(neededFor100.windNeededIfOnlyWind)} wind units
+                  {fmtUnitsNeeded(neededFor100?.windNeededIfOnlyWind)} wind
+                </div>
+              </div>
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">Storage to clear fossil</div>
+                <div className="text-slate-50 font-semibold">{fmtUnitsTotal(minStorageUnits)}</div>
+                <div className="text-xs text-slate-400">
+                  {minStorageUnits == null
+                    ? ""
+                    : Number.isFinite(minStorageUnits)
+                      ? `${fmtInt(minStorageUnits * storage.mwhPerUnit)} MWh with this build`
+                      : "add solar/wind surplus first"}
                 </div>
               </div>
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">CO₂ avoided</div>
+                <div className="text-slate-50 font-semibold">
+                  {carbon ? `${fmtInt(carbon.tonsPerYear)} t/yr` : "—"}
+                </div>
+                {!carbon && <div className="text-xs text-slate-400">select a state</div>}
+              </div>
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">Social cost avoided</div>
+                <div className="text-emerald-200 font-semibold">
+                  {carbon ? `${fmtUSD(carbon.socialPerYear)}/yr` : "—"}
+                </div>
+                <label className="mt-1 flex items-center gap-1 text-xs text-slate-400">
+                  at $
+                  <input
+                    type="number"
+                    min={0}
+                    step={10}
+                    value={carbonPrice}
+                    onChange={(e) => setCarbonPrice(Math.max(0, Number(e.target.value) || 0))}
+                    className="w-16 rounded bg-black/30 border border-white/15 px-1 text-white"
+                    aria-label="Social cost of carbon in dollars per ton"
+                  />
+                  /t
+                </label>
+              </div>
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">Simple payback</div>
+                <div className="text-slate-50 font-semibold">
+                  {carbon?.paybackYears != null ? `${fmt1(carbon.paybackYears)} yrs` : "—"}
+                </div>
+                <div className="text-xs text-slate-400">capex ÷ social cost avoided</div>
+              </div>
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">Cost per ton abated</div>
+                <div className="text-slate-50 font-semibold">
+                  {costPerTon != null ? `${fmtUSD(costPerTon)}/t` : "—"}
+                </div>
+                <div className="text-xs text-slate-400">annualized cost ÷ CO₂ avoided per year</div>
+              </div>
             </div>
-            {finalMix.sharePct >= 100 && (
+            {dispatch && finalMix.shortfallHours === 0 && (
               <p className="mt-3 text-xs text-emerald-300">
-                You’ve reached (or exceeded) 100% of average daily demand. Consider storage and transmission constraints.
+                No hour needs fossil generation in this 14-day window. Transmission constraints still apply.
               </p>
             )}
+            {profiles && (profiles.solarSynthetic || profiles.windSynthetic) && (
+              <p className="mt-3 text-[11px] text-slate-400">
+                No reported {[profiles.solarSynthetic && "solar", profiles.windSynthetic && "wind"].filter(Boolean).join(" or ")} generation
+                for this state; using a synthetic {profiles.solarSynthetic ? "daylight" : "flat"} profile.
+              </p>
+            )}
+          </div>
+
+          <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+            <h3 className="font-semibold text-lg mb-4">Financials</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">Capex after credits</div>
+                <div className="text-slate-50 font-semibold">{finance ? fmtUSD(finance.netCapex) : "—"}</div>
+              </div>
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">Annualized cost</div>
+                <div className="text-slate-50 font-semibold">{finance ? `${fmtUSD(finance.annualizedCost)}/yr` : "—"}</div>
+              </div>
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">LCOE</div>
+                <div className="text-sky-200 font-semibold">
+                  {finance?.lcoe != null ? `${fmtUSD(finance.lcoe)}/MWh` : "—"}
+                </div>
+              </div>
+              <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+                <div className="text-slate-300">NPV</div>
+                <div className={`font-semibold ${finance && finance.npv >= 0 ? "text-emerald-200" : "text-slate-50"}`}>
+                  {finance ? fmtUSD(finance.npv) : "—"}
+                </div>
+                <div className="text-xs text-slate-400">vs social cost avoided</div>
+              </div>
+            </div>
+            <p className="mt-3 text-[11px] text-slate-400 leading-5">
+              Per technology: capex less tax credit, O&amp;M as a share of capex, and output that degrades each year,
+              discounted over its lifetime (edit in Tech settings). LCOE is lifecycle cost per MWh of fossil
+              displaced, and NPV credits the avoided social cost of carbon only — not fuel savings.
+            </p>
           </div>
         </div>
 
         {/* RIGHT: Pie chart */}
         <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
           <h3 className="font-semibold text-lg mb-4">
-            Mix (Solar / Wind / Other / Fossil){baseline ? "" : " • using fallback demand"}
+            Mix ({palette.map((p) => p.name).join(" / ")}){baseline ? "" : " • using fallback demand"}
           </h3>
 
           <div className="flex items-center justify-center">
             <svg width="240" height="240" viewBox="0 0 200 200" role="img" aria-label="Energy mix pie">
               <defs>
-                <linearGradient id="pieSolar" x1="0" y1="0" x2="1" y2="1">
-                  <stop offset="0%" stopColor="#fde68a" />
-                  <stop offset="100%" stopColor="#f59e0b" />
-                </linearGradient>
-                <linearGradient id="pieWind" x1="0" y1="1" x2="1" y2="0">
-                  <stop offset="0%" stopColor="#93c5fd" />
-                  <stop offset="100%" stopColor="#3b82f6" />
-                </linearGradient>
-                <linearGradient id="pieOther" x1="0" y1="0" x2="1" y2="1">
-                  <stop offset="0%" stopColor="#a7f3d0" />
-                  <stop offset="100%" stopColor="#10b981" />
-                </linearGradient>
-                <linearGradient id="pieFossil" x1="0" y1="1" x2="1" y2="0">
-                  <stop offset="0%" stopColor="#cbd5e1" />
-                  <stop offset="100%" stopColor="#475569" />
-                </linearGradient>
+                {palette.map((p, i) => (
+                  <linearGradient key={p.key} id={`pie-${p.key}`} x1="0" y1={i % 2 ? "1" : "0"} x2="1" y2={i % 2 ? "0" : "1"}>
+                    <stop offset="0%" stopColor={p.light ?? p.color} stopOpacity={p.light ? 1 : 0.6} />
+                    <stop offset="100%" stopColor={p.color} />
+                  </linearGradient>
+                ))}
                 <filter id="pieGlow" x="-50%" y="-50%" width="200%" height="200%">
                   <feGaussianBlur stdDeviation="2" result="b" />
                   <feMerge>
@@ -500,7 +944,7 @@ const RenewablePlanner: React.FC<PlannerProps> = ({
               <circle cx="100" cy="100" r="92" fill="none" stroke="white" opacity="0.07" strokeWidth="8" />
               {/* Slices */}
               {arcs.map((a, i) => (
-                <path key={i} d={a.d} fill={palette[i].color} filter="url(#pieGlow)" />
+                <path key={palette[i].key} d={a.d} fill={`url(#pie-${palette[i].key})`} filter="url(#pieGlow)" />
               ))}
               {/* Center label */}
               <circle cx="100" cy="100" r="52" fill="rgba(15,23,42,0.9)" stroke="white" strokeOpacity="0.06" />
@@ -508,59 +952,63 @@ const RenewablePlanner: React.FC<PlannerProps> = ({
                 Non-fossil share
               </text>
               <text x="100" y="112" textAnchor="middle" fontSize="20" fontWeight="700" fill="white">
-                {fmt1(Math.min(((finalMix.finalSolar + finalMix.finalWind + finalMix.finalOther) / effectiveDemand) * 100, 999))}%
+                {fmt1(finalMix.sharePct)}%
               </text>
             </svg>
           </div>
 
           <div className="mt-6 grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs">
-            <div className="rounded-lg border border-white/10 bg-black/20 p-3">
-              <div className="flex items-center gap-2">
-                <span className="inline-block h-3 w-3 rounded-full" style={{ background: "#f59e0b" }} />
-                <span className="font-semibold">Solar</span>
-              </div>
-              <div className="mt-2 text-slate-300">
-                {fmtInt(finalMix.finalSolar)} MWh/day
-              </div>
-            </div>
-            <div className="rounded-lg border border-white/10 bg-black/20 p-3">
-              <div className="flex items-center gap-2">
-                <span className="inline-block h-3 w-3 rounded-full" style={{ background: "#3b82f6" }} />
-                <span className="font-semibold">Wind</span>
-              </div>
-              <div className="mt-2 text-slate-300">
-                {fmtInt(finalMix.finalWind)} MWh/day
-              </div>
-            </div>
-            <div className="rounded-lg border border-white/10 bg-black/20 p-3">
-              <div className="flex items-center gap-2">
-                <span className="inline-block h-3 w-3 rounded-full" style={{ background: "#10b981" }} />
-                <span className="font-semibold">Other</span>
-              </div>
-              <div className="mt-2 text-slate-300">
-                {fmtInt(finalMix.finalOther)} MWh/day
-              </div>
-            </div>
-            <div className="rounded-lg border border-white/10 bg-black/20 p-3">
-              <div className="flex items-center gap-2">
-                <span className="inline-block h-3 w-3 rounded-full" style={{ background: "#475569" }} />
-                <span className="font-semibold">Fossil</span>
-              </div>
-              <div className="mt-2 text-slate-300">
-                {fmtInt(finalMix.fossilLeft)} MWh/day
+            {palette.map((p, i) => (
+              <div key={p.key} className="rounded-lg border border-white/10 bg-black/20 p-3">
+                <div className="flex items-center gap-2">
+                  <span className="inline-block h-3 w-3 rounded-full" style={{ background: p.color }} />
+                  <span className="font-semibold">{p.name}</span>
+                </div>
+                <div className="mt-2 text-slate-300">
+                  {fmtInt(finalMix.pieValues[i])} MWh/day
+                </div>
               </div>
-            </div>
+            ))}
           </div>
 
+          {grid && dispatch && (
+            <DispatchChart className="mt-6" grid={grid} hours={dispatch.hours} extras={chartExtras} />
+          )}
+
           {/* Tiny legend/help */}
           <p className="mt-4 text-[11px] text-slate-400 leading-5">
-            Baseline values are loaded from <code>statewide_fuel_breakdown.csv</code>. Sliders are
-            auto-scaled so that 100% renewables is reachable: any (Solar units, Wind units) with{" "}
-            <code>S·{fmt1(solarPerUnit)} + W·{fmt1(windPerUnit)} ≥ {fmtInt(remainingToCover)}</code>{" "}
-            MWh/day reaches the target on average (other remains fixed; new renewables displace fossil first).
+            Baseline values come from the state's <code>hourly_summary_14d.csv</code>; new solar and wind follow the
+            hourly <code>SUN</code>/<code>WND</code> shapes scaled to each tech's capacity factor. Each hour, new output
+            displaces fossil only; existing clean supply stays fixed and any excess is curtailed.
           </p>
         </div>
       </div>
+
+      <ScenarioPanel
+        className="mt-8"
+        stateName={selectedState}
+        params={currentParams}
+        customTechs={customTechs}
+        metrics={scenarioMetrics}
+        onLoad={loadScenario}
+      />
+
+      <TechSettingsDrawer
+        open={settingsOpen}
+        onClose={closeSettings}
+        solar={solar}
+        wind={wind}
+        solarDefault={defaults.solar}
+        windDefault={defaults.wind}
+        onSpecChange={editSpec}
+        storage={storage}
+        onStorageChange={editStorage}
+        onResetSpecs={resetSpecs}
+        customTechs={customTechs}
+        onAddTech={addTech}
+        onUpdateTech={updateTech}
+        onRemoveTech={removeTech}
+      />
       {/* <DataSourceFooter /> */}
     </section>
   );
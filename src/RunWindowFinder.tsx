@@ -0,0 +1,247 @@
+// src/RunWindowFinder.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import { fmtHour, parseTimestamp } from "./chartUtils";
+import { calendarFile } from "./ics";
+import { findRunWindows, hourIndexAt, type RunWindow } from "./runWindows";
+import { useStateFile } from "./useStateData";
+
+type Props = {
+  stateName: string;
+  className?: string;
+};
+
+const HOUR_MS = 3_600_000;
+
+const PRESETS = [
+  { name: "Dishwasher", energyKwh: 1.5, durationHours: 2 },
+  { name: "Washing machine", energyKwh: 1, durationHours: 2 },
+  { name: "Dryer", energyKwh: 3, durationHours: 1 },
+  { name: "EV charge", energyKwh: 20, durationHours: 3 },
+];
+
+const fmt0 = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(n);
+const fmt2 = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 }).format(n);
+
+const inputCls =
+  "w-full rounded-md bg-black/30 border border-white/15 px-2 py-1 text-sm text-white focus:outline-none focus:ring-1 focus:ring-sky-300";
+
+/** "2025-10-07T21:00" in the viewer's time zone, for <input type="datetime-local"> */
+function toLocalInput(ms: number): string {
+  const d = new Date(ms);
+  const p = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())}T${p(d.getHours())}:${p(d.getMinutes())}`;
+}
+
+const fmtTime = (ms: number) => new Date(ms).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+/**
+ * "When should I run it?" for one appliance in the selected state: the
+ * lowest-carbon uninterrupted windows before a deadline, compared with
+ * starting now, each exportable as a calendar event.
+ */
+const RunWindowFinder: React.FC<Props> = ({ stateName, className }) => {
+  const { data: rows, error } = useStateFile(stateName, "hourlySummary");
+  const [appliance, setAppliance] = useState(PRESETS[0].name);
+  const [energyKwh, setEnergyKwh] = useState(PRESETS[0].energyKwh);
+  const [durationHours, setDurationHours] = useState(PRESETS[0].durationHours);
+  const [count, setCount] = useState(3);
+  /** null = 24 hours after now */
+  const [deadline, setDeadline] = useState<string | null>(null);
+
+  // Deadlines are dates in one state's forecast
+  useEffect(() => { setDeadline(null); }, [stateName]);
+
+  const forecast = useMemo(() => {
+    if (!rows?.length) return null;
+    const startsMs = rows.map((r) => parseTimestamp(r.timestamp_utc).getTime());
+    // Outside the snapshot, "now" is its first hour, like the chat's "today"
+    const at = hourIndexAt(startsMs, Date.now());
+    const now = { index: at.clamped ? 0 : at.index, clamped: at.clamped };
+    return {
+      startsMs,
+      ci: rows.map((r) => r.ci_g_per_kwh),
+      now,
+      endMs: startsMs[startsMs.length - 1] + HOUR_MS,
+    };
+  }, [rows]);
+
+  const defaultDeadlineMs = forecast ? Math.min(forecast.startsMs[forecast.now.index] + 24 * HOUR_MS, forecast.endMs) : 0;
+  const deadlineMs = deadline ? new Date(deadline).getTime() : defaultDeadlineMs;
+
+  const result = useMemo(() => {
+    if (!forecast || !Number.isFinite(deadlineMs)) return null;
+    // Hours that end by the deadline
+    const toIndex = forecast.startsMs.filter((s) => s + HOUR_MS <= deadlineMs).length;
+    return findRunWindows(forecast.ci, {
+      energyKwh,
+      durationHours,
+      fromIndex: forecast.now.index,
+      toIndex,
+      count,
+    });
+  }, [forecast, deadlineMs, energyKwh, durationHours, count]);
+
+  const applyPreset = (name: string) => {
+    const p = PRESETS.find((x) => x.name === name);
+    setAppliance(name);
+    if (!p) return;
+    setEnergyKwh(p.energyKwh);
+    setDurationHours(p.durationHours);
+  };
+
+  const span = (w: RunWindow) => {
+    const start = forecast!.startsMs[w.start];
+    return { start, end: start + w.hours * HOUR_MS };
+  };
+
+  const exportWindow = (w: RunWindow) => {
+    const { start, end } = span(w);
+    const name = appliance.trim() || "Appliance";
+    const saved = result?.now ? result.now.kg - w.kg : 0;
+    const ics = calendarFile({
+      start: new Date(start),
+      end: new Date(end),
+      title: `Run ${name.toLowerCase()} (low-carbon window)`,
+      description:
+        `${stateName} grid forecast: ${fmt0(w.avgCi)} g CO₂/kWh on average, about ${fmt2(w.kg)} kg CO₂ for ${fmt2(energyKwh)} kWh` +
+        (saved > 0 ? ` (${fmt2(saved)} kg less than starting now).` : "."),
+    });
+    const blob = new Blob([ics], { type: "text/calendar" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-${toLocalInput(start).slice(0, 10)}.ics`;
+    a.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <section
+      className={[
+        "w-full bg-white/5 text-white rounded-2xl border border-white/10 p-5 shadow-xl",
+        className,
+      ].filter(Boolean).join(" ")}
+    >
+      <div className="flex items-center justify-between mb-4 gap-3">
+        <h3 className="text-lg font-semibold">When should I run it? — {stateName}</h3>
+        <span className="text-white/60 text-xs">lowest average carbon intensity, one uninterrupted run</span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-sm">
+        <label className="col-span-2 sm:col-span-1">
+          <span className="block text-white/70 mb-1">Appliance</span>
+          <input className={inputCls} list="run-window-presets" value={appliance} onChange={(e) => applyPreset(e.target.value)} />
+          <datalist id="run-window-presets">
+            {PRESETS.map((p) => <option key={p.name} value={p.name} />)}
+          </datalist>
+        </label>
+        <label>
+          <span className="block text-white/70 mb-1">Energy (kWh)</span>
+          <input
+            className={inputCls}
+            type="number"
+            min={0}
+            step={0.1}
+            value={energyKwh}
+            onChange={(e) => setEnergyKwh(Math.max(0, Number(e.target.value) || 0))}
+          />
+        </label>
+        <label>
+          <span className="block text-white/70 mb-1">Duration (h)</span>
+          <input
+            className={inputCls}
+            type="number"
+            min={1}
+            max={24}
+            step={1}
+            value={durationHours}
+            onChange={(e) => setDurationHours(Math.min(24, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+          />
+        </label>
+        <label>
+          <span className="block text-white/70 mb-1">Finish by</span>
+          <input
+            className={inputCls}
+            type="datetime-local"
+            step={3600}
+            min={forecast ? toLocalInput(forecast.startsMs[forecast.now.index]) : undefined}
+            max={forecast ? toLocalInput(forecast.endMs) : undefined}
+            value={forecast ? (deadline ?? toLocalInput(defaultDeadlineMs)) : ""}
+            onChange={(e) => setDeadline(e.target.value || null)}
+          />
+        </label>
+        <label>
+          <span className="block text-white/70 mb-1">Show</span>
+          <select className={inputCls} value={count} onChange={(e) => setCount(Number(e.target.value))}>
+            {[1, 3, 5].map((n) => <option key={n} value={n}>Top {n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {error && <div className="mt-3 text-red-300 text-sm">{error.message}</div>}
+      {!error && !rows && <div className="mt-3 text-white/60 text-sm">Loading carbon intensity…</div>}
+
+      {forecast && result && (
+        <>
+          {forecast.now.clamped && (
+            <p className="mt-3 text-white/60 text-xs">
+              The forecast covers {fmtHour(rows![0].timestamp_utc)} to {fmtHour(rows![rows!.length - 1].timestamp_utc)};
+              “now” is taken as its first hour.
+            </p>
+          )}
+
+          {result.now ? (
+            <div className="mt-4 rounded-lg bg-black/20 border border-white/10 p-3 text-sm">
+              <span className="text-white/70">Starting now ({fmtHour(rows![result.now.start].timestamp_utc)}): </span>
+              <span className="font-semibold">{fmt2(result.now.kg)} kg CO₂</span>
+              <span className="text-white/60"> at {fmt0(result.now.avgCi)} g/kWh</span>
+            </div>
+          ) : (
+            <div className="mt-4 text-amber-200 text-sm">
+              A {durationHours}-hour run doesn't fit before the deadline. Pick a later time.
+            </div>
+          )}
+
+          {result.windows.length > 0 && (
+            <ol className="mt-3 space-y-2">
+              {result.windows.map((w, i) => {
+                const { start, end } = span(w);
+                const saved = result.now ? result.now.kg - w.kg : 0;
+                const pct = result.now && result.now.kg > 0 ? (saved / result.now.kg) * 100 : 0;
+                return (
+                  <li
+                    key={w.start}
+                    className="flex flex-wrap items-center gap-x-4 gap-y-1 rounded-lg bg-black/20 border border-white/10 p-3 text-sm"
+                  >
+                    <span className="text-white/50 w-5">{i + 1}.</span>
+                    <span className="font-semibold">
+                      {fmtHour(rows![w.start].timestamp_utc)} – {fmtTime(end)}
+                    </span>
+                    <span className="text-white/70">{fmt0(w.avgCi)} g/kWh</span>
+                    <span className="text-emerald-300">{fmt2(w.kg)} kg CO₂</span>
+                    <span className={saved > 0.005 ? "text-sky-200" : "text-white/50"}>
+                      {saved > 0.005 ? `saves ${fmt2(saved)} kg (${fmt0(pct)}%) vs now` : "same as starting now"}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => exportWindow(w)}
+                      title={`Download a calendar event for ${new Date(start).toLocaleString()}`}
+                      className="ml-auto rounded-full border border-white/15 bg-white/5 px-3 py-1 text-xs text-white/80 hover:bg-white/10"
+                    >
+                      Add to calendar (.ics)
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default RunWindowFinder;
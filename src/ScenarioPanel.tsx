@@ -0,0 +1,227 @@
+// src/ScenarioPanel.tsx
+import React, { useEffect, useRef, useState } from "react";
+import type { CustomTech } from "./techSpecs";
+import { QUERY_KEYS } from "./useQueryState";
+import {
+  exportScenarios,
+  loadScenarios,
+  parseScenarioFile,
+  saveScenarios,
+  type Scenario,
+  type ScenarioMetrics,
+} from "./scenarios";
+
+const fmtInt = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(Math.round(n));
+const fmt1 = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 1 }).format(n);
+const fmtUSD = (n: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(n);
+
+type Props = {
+  stateName?: string;
+  /** Current planner query parameters and custom techs (what "Save" captures) */
+  params: Record<string, string>;
+  customTechs: CustomTech[];
+  metrics: ScenarioMetrics | null;
+  onLoad: (scenario: Scenario) => void;
+  className?: string;
+};
+
+type Column = {
+  label: string;
+  value: (m: ScenarioMetrics) => number | null;
+  format: (n: number) => string;
+  better: "high" | "low";
+};
+
+const COLUMNS: Column[] = [
+  { label: "Clean share", value: (m) => m.sharePct, format: (n) => `${fmt1(n)}%`, better: "high" },
+  { label: "Unmet (MWh/day)", value: (m) => m.unmetMWhPerDay, format: fmtInt, better: "low" },
+  { label: "Unmet hours", value: (m) => m.unmetHours, format: fmtInt, better: "low" },
+  { label: "Surplus (MWh/day)", value: (m) => m.surplusMWhPerDay, format: fmtInt, better: "low" },
+  { label: "Cost", value: (m) => m.cost, format: fmtUSD, better: "low" },
+  { label: "CO₂ avoided (t/yr)", value: (m) => m.co2TonsPerYear, format: fmtInt, better: "high" },
+  { label: "LCOE ($/MWh)", value: (m) => m.lcoe, format: (n) => fmtUSD(n), better: "low" },
+];
+
+const newId = (i = 0) => `s${Date.now().toString(36)}${i}`;
+
+/** Save, restore and compare named planner builds */
+const ScenarioPanel: React.FC<Props> = ({ stateName, params, customTechs, metrics, onLoad, className }) => {
+  const [scenarios, setScenarios] = useState<Scenario[]>(loadScenarios);
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => saveScenarios(scenarios), [scenarios]);
+
+  const save = () => {
+    if (!metrics) return;
+    // Only custom techs the build actually uses travel with it
+    const used = customTechs.filter((t) => params[`${QUERY_KEYS.techUnitsPrefix}${t.id}`]);
+    setScenarios((list) => [
+      ...list,
+      {
+        id: newId(),
+        name: name.trim() || `Scenario ${list.length + 1}`,
+        state: stateName ?? null,
+        savedAt: new Date().toISOString(),
+        params,
+        customTechs: used,
+        metrics,
+      },
+    ]);
+    setName("");
+  };
+
+  const remove = (id: string) => setScenarios((list) => list.filter((s) => s.id !== id));
+
+  const download = () => {
+    const blob = new Blob([exportScenarios(scenarios)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "planner-scenarios.json";
+    a.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const upload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const imported = parseScenarioFile(await file.text(), file.name);
+      setScenarios((list) => [...list, ...imported.map((s, i) => ({ ...s, id: newId(i) }))]);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const rows: { key: string; label: string; sub: string; metrics: ScenarioMetrics; scenario?: Scenario }[] = [
+    ...(metrics ? [{ key: "current", label: "Current build", sub: stateName ?? "No state", metrics }] : []),
+    ...scenarios.map((s) => ({ key: s.id, label: s.name, sub: s.state ?? "No state", metrics: s.metrics, scenario: s })),
+  ];
+
+  const best = COLUMNS.map((c) => {
+    const vals = rows.map((r) => c.value(r.metrics)).filter((v): v is number => v != null);
+    if (rows.length < 2 || !vals.length) return null;
+    return c.better === "high" ? Math.max(...vals) : Math.min(...vals);
+  });
+
+  return (
+    <div className={["rounded-2xl border border-white/10 bg-white/5 p-5", className].filter(Boolean).join(" ")}>
+      <div className="flex items-center justify-between gap-3 flex-wrap mb-4">
+        <h3 className="font-semibold text-lg">Scenarios</h3>
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            type="button"
+            onClick={download}
+            disabled={!scenarios.length}
+            className="rounded-md border border-white/20 px-3 py-1 hover:bg-white/10 disabled:opacity-40"
+          >
+            Export JSON
+          </button>
+          <button
+            type="button"
+            onClick={() => fileRef.current?.click()}
+            className="rounded-md border border-white/20 px-3 py-1 hover:bg-white/10"
+          >
+            Import JSON
+          </button>
+          <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={upload} />
+        </div>
+      </div>
+
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          save();
+        }}
+      >
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={`Scenario ${scenarios.length + 1}`}
+          aria-label="Scenario name"
+          className="flex-1 rounded-md bg-black/30 border border-white/15 px-2 py-1 text-sm text-white focus:outline-none focus:ring-1 focus:ring-sky-300"
+        />
+        <button
+          type="submit"
+          disabled={!metrics}
+          className="rounded-full bg-white px-4 py-1.5 text-sm text-black font-semibold hover:bg-sky-300 disabled:opacity-40"
+        >
+          Save current
+        </button>
+      </form>
+      {error && <p className="mt-2 text-xs text-red-300" role="alert">{error}</p>}
+
+      {rows.length > 1 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-slate-300">
+                <th className="py-1 pr-2">Scenario</th>
+                {COLUMNS.map((c) => (
+                  <th key={c.label} className="py-1 pr-2 text-right">{c.label}</th>
+                ))}
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.key} className="border-t border-white/10">
+                  <td className="py-1.5 pr-2">
+                    <div className="font-semibold">{r.label}</div>
+                    <div className="text-slate-400">{r.sub}</div>
+                  </td>
+                  {COLUMNS.map((c, ci) => {
+                    const v = c.value(r.metrics);
+                    return (
+                      <td
+                        key={c.label}
+                        className={`py-1.5 pr-2 text-right ${v != null && v === best[ci] ? "text-emerald-300 font-semibold" : ""}`}
+                      >
+                        {v == null ? "—" : c.format(v)}
+                      </td>
+                    );
+                  })}
+                  <td className="py-1.5 text-right whitespace-nowrap">
+                    {r.scenario && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => r.scenario && onLoad(r.scenario)}
+                          className="rounded-md border border-white/20 px-2 py-0.5 hover:bg-white/10"
+                        >
+                          Load
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => remove(r.key)}
+                          aria-label={`Delete ${r.label}`}
+                          className="text-white/60 hover:text-red-300 px-2"
+                        >
+                          ✕
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="mt-3 text-[11px] text-slate-400 leading-5">
+        Saved results are a snapshot from when each scenario was saved; load one to recompute it with the current data.
+      </p>
+    </div>
+  );
+};
+
+export default ScenarioPanel;
@@ -0,0 +1,243 @@
+// src/SchedulePanel.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import { dayTicks, fmtHour, niceTicks } from "./chartUtils";
+import { useStateFile } from "./useStateData";
+
+const W = 960;
+const H = 300;
+const PAD = { l: 48, r: 48, t: 12, b: 40 };
+const INNER_W = W - PAD.l - PAD.r;
+const INNER_H = H - PAD.t - PAD.b;
+const EV_ROW_Y = H - PAD.b + 6; // EV markers sit just under the plot area
+
+const COLORS = {
+  baseline: "#94a3b8",
+  opt: "#34d399",
+  soc: "#818cf8",
+  ev: "#fbbf24",
+};
+
+const xScale = (n: number) => (i: number) => PAD.l + (n > 1 ? (i / (n - 1)) * INNER_W : 0);
+
+const fmt1 = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 1 }).format(n);
+const fmt2 = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 }).format(n);
+
+const sum = (xs: number[]) => xs.reduce((s, v) => s + (Number.isFinite(v) ? v : 0), 0);
+
+type Props = {
+  stateName: string;
+  className?: string;
+};
+
+const SchedulePanel: React.FC<Props> = ({ stateName, className }) => {
+  const { data, error } = useStateFile(stateName, "frontendOpt");
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+
+  useEffect(() => { setHoverIdx(null); }, [stateName]);
+
+  const n = data?.timestamps.length ?? 0;
+  const x = xScale(n);
+
+  // Totals are always recomputed from the hourly series so they match the raw data
+  const totals = useMemo(() => {
+    if (!data) return null;
+    const emBase = sum(data.emissions_baseline_kg);
+    const emOpt = sum(data.emissions_opt_kg);
+    const fossilBase = sum(data.fossil_kwh_baseline);
+    const fossilOpt = sum(data.fossil_kwh_opt);
+    return {
+      emBase,
+      emOpt,
+      kgSaved: emBase - emOpt,
+      pctSaved: emBase > 0 ? ((emBase - emOpt) / emBase) * 100 : 0,
+      fossilSaved: fossilBase - fossilOpt,
+      gridBase: sum(data.grid_baseline_kwh),
+      gridOpt: sum(data.grid_opt_kwh),
+      evHours: data.ev.opt_kwh.filter((v) => v > 0).length,
+    };
+  }, [data]);
+
+  const chart = useMemo(() => {
+    if (!data) return null;
+    const x = xScale(n);
+    const gridMax = Math.max(...data.grid_baseline_kwh, ...data.grid_opt_kwh, 1);
+    const socMax = Math.max(...data.batt.soc_kwh, 1);
+    const y = (v: number) => PAD.t + INNER_H - (v / gridMax) * INNER_H;
+    const ySoc = (v: number) => PAD.t + INNER_H - (v / socMax) * INNER_H;
+
+    const line = (series: number[]) =>
+      series.map((v, i) => `${i ? "L" : "M"}${x(i)},${y(v)}`).join("");
+
+    const socTop = data.batt.soc_kwh.map((v, i) => `${x(i)},${ySoc(v)}`);
+    const socBand = `M${x(0)},${ySoc(0)}L${socTop.join("L")}L${x(n - 1)},${ySoc(0)}Z`;
+
+    const evHours = data.ev.opt_kwh
+      .map((v, i) => ({ i, v }))
+      .filter(({ v }) => v > 0);
+    const evBaseHours = data.ev.baseline_kwh
+      .map((v, i) => ({ i, v }))
+      .filter(({ v }) => v > 0);
+
+    return {
+      y,
+      ySoc,
+      gridTicks: niceTicks(gridMax),
+      socTicks: niceTicks(socMax, 3),
+      baseline: line(data.grid_baseline_kwh),
+      opt: line(data.grid_opt_kwh),
+      socBand,
+      evHours,
+      evBaseHours,
+    };
+  }, [data, n]);
+
+  const days = useMemo(() => (data ? dayTicks(data.timestamps) : []), [data]);
+
+  const onMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!n) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const sx = ((e.clientX - rect.left) / rect.width) * W;
+    const i = Math.round(((sx - PAD.l) / INNER_W) * (n - 1));
+    setHoverIdx(i >= 0 && i < n ? i : null);
+  };
+
+  const tooltipLeftPct = hoverIdx != null ? (x(hoverIdx) / W) * 100 : 0;
+  const slotW = n > 1 ? INNER_W / (n - 1) : INNER_W;
+
+  return (
+    <section
+      className={[
+        "w-full bg-white/5 text-white rounded-2xl border border-white/10 p-5 shadow-xl",
+        className,
+      ].filter(Boolean).join(" ")}
+    >
+      <div className="flex items-center justify-between mb-4 gap-3">
+        <h3 className="text-lg font-semibold">{stateName} — Household Schedule: Baseline vs Optimized</h3>
+        {data && <span className="text-white/60 text-xs">{n} hours</span>}
+      </div>
+
+      {error && <div className="text-red-300 text-sm">{error.message}</div>}
+      {!error && !data && <div className="text-white/60 text-sm">Loading schedule…</div>}
+
+      {totals && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm mb-4">
+          <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+            <div className="text-white/70">CO₂ saved (14 days)</div>
+            <div className="font-semibold text-emerald-300">{fmt2(totals.kgSaved)} kg</div>
+          </div>
+          <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+            <div className="text-white/70">Emissions cut</div>
+            <div className="font-semibold">{fmt1(totals.pctSaved)}%</div>
+          </div>
+          <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+            <div className="text-white/70">Grid import</div>
+            <div className="font-semibold">{fmt1(totals.gridBase)} → {fmt1(totals.gridOpt)} kWh</div>
+          </div>
+          <div className="rounded-lg bg-black/20 border border-white/10 p-3">
+            <div className="text-white/70">Fossil kWh avoided</div>
+            <div className="font-semibold">{fmt1(totals.fossilSaved)} kWh</div>
+          </div>
+        </div>
+      )}
+
+      {data && chart && (
+        <div className="relative" onMouseLeave={() => setHoverIdx(null)}>
+          <svg
+            viewBox={`0 0 ${W} ${H}`}
+            width="100%"
+            role="img"
+            aria-label={`${stateName} baseline vs optimized grid import`}
+            onMouseMove={onMove}
+            className="block"
+          >
+            {chart.gridTicks.map((t) => (
+              <g key={`g${t}`}>
+                <line x1={PAD.l} x2={W - PAD.r} y1={chart.y(t)} y2={chart.y(t)} stroke="white" strokeOpacity={0.08} />
+                <text x={PAD.l - 6} y={chart.y(t) + 4} textAnchor="end" fontSize="10" fill="white" opacity={0.6}>
+                  {fmt1(t)}
+                </text>
+              </g>
+            ))}
+            {chart.socTicks.map((t) => (
+              <text key={`s${t}`} x={W - PAD.r + 6} y={chart.ySoc(t) + 4} fontSize="10" fill={COLORS.soc} opacity={0.8}>
+                {fmt1(t)}
+              </text>
+            ))}
+
+            {/* Battery SoC band (right axis) */}
+            <path d={chart.socBand} fill={COLORS.soc} fillOpacity={0.18} stroke={COLORS.soc} strokeOpacity={0.5} strokeWidth={0.8} />
+
+            {/* Grid import lines (left axis) */}
+            <path d={chart.baseline} fill="none" stroke={COLORS.baseline} strokeWidth={1.4} />
+            <path d={chart.opt} fill="none" stroke={COLORS.opt} strokeWidth={1.6} />
+
+            {/* EV charging hours: baseline (hollow) and optimized (filled) */}
+            {chart.evBaseHours.map(({ i }) => (
+              <rect key={`eb${i}`} x={x(i) - slotW / 2} y={EV_ROW_Y} width={Math.max(slotW, 1)} height={5} fill="none" stroke={COLORS.ev} strokeOpacity={0.6} strokeWidth={0.6} />
+            ))}
+            {chart.evHours.map(({ i }) => (
+              <rect key={`eo${i}`} x={x(i) - slotW / 2} y={EV_ROW_Y + 7} width={Math.max(slotW, 1)} height={5} fill={COLORS.ev} />
+            ))}
+
+            {days.map((t) => (
+              <text key={t.i} x={x(t.i)} y={H - 4} textAnchor="middle" fontSize="10" fill="white" opacity={0.6}>
+                {t.label}
+              </text>
+            ))}
+            <text x={PAD.l} y={PAD.t + 10} dx={6} fontSize="10" fill="white" opacity={0.6}>kWh</text>
+            <text x={W - PAD.r} y={PAD.t + 10} dx={-6} textAnchor="end" fontSize="10" fill={COLORS.soc} opacity={0.8}>SoC kWh</text>
+
+            {hoverIdx != null && (
+              <line x1={x(hoverIdx)} x2={x(hoverIdx)} y1={PAD.t} y2={H - PAD.b} stroke="white" strokeOpacity={0.7} />
+            )}
+          </svg>
+
+          {hoverIdx != null && (
+            <div
+              className="pointer-events-none absolute top-2 z-10 w-56 rounded-lg border border-white/15 bg-slate-900/95 p-3 text-xs shadow-xl"
+              style={{
+                left: `${tooltipLeftPct}%`,
+                transform: tooltipLeftPct > 60 ? "translateX(calc(-100% - 12px))" : "translateX(12px)",
+              }}
+            >
+              <div className="font-semibold mb-1">{fmtHour(data.timestamps[hoverIdx])}</div>
+              <div className="flex justify-between"><span className="text-white/70">Grid (baseline)</span><span>{fmt2(data.grid_baseline_kwh[hoverIdx])} kWh</span></div>
+              <div className="flex justify-between"><span className="text-white/70">Grid (optimized)</span><span>{fmt2(data.grid_opt_kwh[hoverIdx])} kWh</span></div>
+              <div className="flex justify-between"><span className="text-white/70">Battery SoC</span><span>{fmt2(data.batt.soc_kwh[hoverIdx])} kWh</span></div>
+              <div className="flex justify-between"><span className="text-white/70">Charge / discharge</span><span>{fmt2(data.batt.charge_kwh[hoverIdx])} / {fmt2(data.batt.discharge_kwh[hoverIdx])}</span></div>
+              <div className="flex justify-between"><span className="text-white/70">EV (base → opt)</span><span>{fmt2(data.ev.baseline_kwh[hoverIdx])} → {fmt2(data.ev.opt_kwh[hoverIdx])}</span></div>
+              <div className="flex justify-between"><span className="text-white/70">CO₂ (base → opt)</span><span>{fmt2(data.emissions_baseline_kg[hoverIdx])} → {fmt2(data.emissions_opt_kg[hoverIdx])} kg</span></div>
+            </div>
+          )}
+
+          <div className="mt-3 flex flex-wrap gap-3 text-xs text-white/80">
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block h-0.5 w-4" style={{ background: COLORS.baseline }} />
+              Grid import — baseline
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block h-0.5 w-4" style={{ background: COLORS.opt }} />
+              Grid import — optimized
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block h-3 w-3 rounded-sm" style={{ background: COLORS.soc, opacity: 0.5 }} />
+              Battery state of charge
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block h-2 w-3 border" style={{ borderColor: COLORS.ev }} />
+              EV charging — baseline
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block h-2 w-3" style={{ background: COLORS.ev }} />
+              EV charging — optimized ({totals?.evHours ?? 0} h)
+            </span>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default SchedulePanel;
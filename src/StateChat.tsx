@@ -0,0 +1,185 @@
+// src/StateChat.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { askGrid, type ChatRole, type ChatStep } from "./chatClient";
+
+type Props = {
+  stateName: string;
+  className?: string;
+};
+
+type Entry = {
+  role: ChatRole;
+  content: string;
+  provider?: string;
+  steps?: ChatStep[];
+  error?: boolean;
+};
+
+const EXAMPLES = [
+  "When is the cleanest 4-hour window next Tuesday?",
+  "How much coal is burned at night?",
+  "What is the average carbon intensity tomorrow?",
+];
+
+/** "cleanest_window(hours: 4, from_date: 2025-09-30)" */
+const describeStep = (s: ChatStep) =>
+  `${s.tool}(${Object.entries(s.arguments).map(([k, v]) => `${k}: ${String(v)}`).join(", ")})`;
+
+/**
+ * Questions about the selected state's hourly forecast. The server answers by
+ * running queries over the state's data; each answer lists the queries it used.
+ */
+const StateChat: React.FC<Props> = ({ stateName, className }) => {
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [draft, setDraft] = useState("");
+  const [pending, setPending] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const logRef = useRef<HTMLDivElement | null>(null);
+
+  // A new state starts a new conversation
+  useEffect(() => {
+    setEntries([]);
+    setDraft("");
+    return () => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+      setPending(false);
+    };
+  }, [stateName]);
+
+  // Keep the newest message in view (scrolls the log, not the page)
+  useEffect(() => {
+    const log = logRef.current;
+    if (log) log.scrollTop = log.scrollHeight;
+  }, [entries, pending]);
+
+  const ask = async (question: string) => {
+    const q = question.trim();
+    if (!q || pending) return;
+    const history = [...entries.filter((e) => !e.error), { role: "user" as const, content: q }];
+    setEntries((es) => [...es, { role: "user", content: q }]);
+    setDraft("");
+    setPending(true);
+
+    const ac = new AbortController();
+    abortRef.current = ac;
+    try {
+      const reply = await askGrid(stateName, history.map(({ role, content }) => ({ role, content })), ac.signal);
+      setEntries((es) => [...es, { role: "assistant", content: reply.answer, provider: reply.provider, steps: reply.steps }]);
+    } catch (e) {
+      if (ac.signal.aborted) return;
+      const msg = e instanceof Error && e.message ? e.message : "Failed to answer";
+      setEntries((es) => [...es, { role: "assistant", content: msg, error: true }]);
+    } finally {
+      if (abortRef.current === ac) {
+        abortRef.current = null;
+        setPending(false);
+      }
+    }
+  };
+
+  const stop = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setPending(false);
+  };
+
+  return (
+    <section
+      className={[
+        "w-full bg-white/5 text-white rounded-2xl border border-white/10 p-5 shadow-xl",
+        className,
+      ].filter(Boolean).join(" ")}
+    >
+      <div className="flex items-center justify-between mb-4 gap-3">
+        <h3 className="text-lg font-semibold">Ask about {stateName}'s grid</h3>
+        <span className="text-white/60 text-xs">answers from the 14-day hourly forecast</span>
+      </div>
+
+      <div ref={logRef} className="max-h-96 overflow-y-auto space-y-3 pr-1" aria-live="polite">
+        {entries.length === 0 && (
+          <div className="flex flex-wrap gap-2">
+            {EXAMPLES.map((ex) => (
+              <button
+                key={ex}
+                type="button"
+                onClick={() => ask(ex)}
+                className="rounded-full border border-white/15 bg-white/5 px-3 py-1 text-xs text-white/80 hover:bg-white/10"
+              >
+                {ex}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {entries.map((e, i) =>
+          e.role === "user" ? (
+            <div key={i} className="flex justify-end">
+              <div className="max-w-[80%] rounded-lg bg-sky-500/20 px-3 py-2 text-sm">{e.content}</div>
+            </div>
+          ) : (
+            <div key={i} className="max-w-[90%]">
+              <div
+                className={`rounded-lg border px-3 py-2 text-sm whitespace-pre-wrap ${
+                  e.error ? "border-red-400/30 bg-red-500/10 text-red-200" : "border-white/10 bg-white/5 text-white/90"
+                }`}
+              >
+                {e.content}
+              </div>
+              {!!e.steps?.length && (
+                <details className="mt-1 text-xs text-white/50">
+                  <summary className="cursor-pointer select-none">
+                    {e.steps.length} {e.steps.length === 1 ? "query" : "queries"}
+                    {e.provider ? ` · via ${e.provider}` : ""}
+                  </summary>
+                  <ol className="mt-1 space-y-0.5 pl-4 list-decimal font-mono">
+                    {e.steps.map((s, j) => (
+                      <li key={j} title={JSON.stringify(s.result, null, 2)}>{describeStep(s)}</li>
+                    ))}
+                  </ol>
+                </details>
+              )}
+            </div>
+          )
+        )}
+
+        {pending && <div className="text-white/60 text-sm animate-pulse">Looking it up…</div>}
+      </div>
+
+      <form
+        className="mt-4 flex gap-2"
+        onSubmit={(ev) => {
+          ev.preventDefault();
+          ask(draft);
+        }}
+      >
+        <input
+          value={draft}
+          onChange={(ev) => setDraft(ev.target.value)}
+          placeholder={`e.g. How much wind does ${stateName} generate in the evening?`}
+          maxLength={500}
+          className="min-w-0 flex-1 rounded-lg border border-white/15 bg-black/30 px-3 py-2 text-sm text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-sky-400/60"
+        />
+        {pending ? (
+          <button
+            type="button"
+            onClick={stop}
+            className="rounded-lg bg-white/10 px-4 py-2 text-sm font-semibold hover:bg-white/20"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            className="rounded-lg bg-white px-4 py-2 text-sm font-semibold text-black hover:bg-sky-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Ask
+          </button>
+        )}
+      </form>
+    </section>
+  );
+};
+
+export default StateChat;
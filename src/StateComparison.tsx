@@ -0,0 +1,301 @@
+// src/StateComparison.tsx
+import React, { useMemo, useState } from "react";
+import { dayTicks, fmtHour, niceTicks } from "./chartUtils";
+import { COMPARE_COLORS } from "./colorScale";
+import { indexByState, normalizeStateName, type StateImpactRow } from "./stateSchema";
+import { useNationalData, useStateFiles } from "./useStateData";
+
+const W = 960;
+const H = 240;
+const PAD = { l: 48, r: 16, t: 12, b: 24 };
+const INNER_W = W - PAD.l - PAD.r;
+const INNER_H = H - PAD.t - PAD.b;
+
+const xScale = (n: number) => (i: number) => PAD.l + (n > 1 ? (i / (n - 1)) * INNER_W : 0);
+
+const fmtInt = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(Math.round(n));
+const fmt1 = (n: number) =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 1 }).format(n);
+const fmtUSD = (n: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(n);
+
+/** Impact rows shown in the table; `better` marks which direction is highlighted */
+const IMPACT_ROWS: {
+  key: keyof Omit<StateImpactRow, "state">;
+  label: string;
+  format: (n: number) => string;
+  better: "high" | "low";
+}[] = [
+  { key: "avg_fossil_share_baseline_pct", label: "Baseline fossil share", format: (n) => `${fmt1(n)}%`, better: "low" },
+  { key: "avg_fossil_share_opt_pct", label: "Optimized fossil share", format: (n) => `${fmt1(n)}%`, better: "low" },
+  { key: "fossil_share_reduction_pct_points", label: "Reduction (pct pts)", format: (n) => fmt1(n), better: "high" },
+  { key: "state_fossil_kwh_saved", label: "Fossil kWh saved", format: fmtInt, better: "high" },
+  { key: "state_co2_saved_tons", label: "CO₂ saved (tons)", format: fmtInt, better: "high" },
+  { key: "co2_cost_saved_usd", label: "Social cost saved", format: fmtUSD, better: "high" },
+];
+
+const MIX_PARTS = [
+  { key: "fossil_mwh", label: "Fossil", color: "#94a3b8" },
+  { key: "solar_mwh", label: "Solar", color: "#f59e0b" },
+  { key: "wind_mwh", label: "Wind", color: "#3b82f6" },
+  { key: "other_mwh", label: "Other", color: "#10b981" },
+] as const;
+
+type Props = {
+  /** State names in selection order (max four) */
+  stateNames: string[];
+  onRemove?: (name: string) => void;
+  onClear?: () => void;
+  className?: string;
+};
+
+const StateComparison: React.FC<Props> = ({ stateNames, onRemove, onClear, className }) => {
+  const { data: impactRows, error: impactError } = useNationalData("stateImpact");
+  const { data: fuelRows, error: fuelError } = useNationalData("fuelBreakdown");
+  const hourly = useStateFiles(stateNames, "hourlySummary");
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+
+  const impact = useMemo(() => indexByState(impactRows ?? []), [impactRows]);
+  const fuel = useMemo(() => indexByState(fuelRows ?? []), [fuelRows]);
+  const colorOf = (name: string) => COMPARE_COLORS[stateNames.indexOf(name) % COMPARE_COLORS.length];
+
+  // CI curves on a shared (union) timestamp axis; states' windows don't always line up
+  const curves = useMemo(() => {
+    const all = new Set<string>();
+    for (const s of stateNames) for (const r of hourly.data[s] ?? []) all.add(r.timestamp_utc);
+    const timestamps = [...all].sort();
+    const index = new Map(timestamps.map((ts, i) => [ts, i]));
+    const series = stateNames
+      .filter((s) => hourly.data[s])
+      .map((s) => {
+        const ci = new Array<number | null>(timestamps.length).fill(null);
+        for (const r of hourly.data[s]) {
+          const i = index.get(r.timestamp_utc);
+          if (i != null) ci[i] = r.ci_g_per_kwh;
+        }
+        return { state: s, ci };
+      });
+    return { timestamps, series };
+  }, [stateNames, hourly.data]);
+
+  const n = curves.timestamps.length;
+  const x = xScale(n);
+
+  const chart = useMemo(() => {
+    if (!n) return null;
+    const x = xScale(n);
+    const max = Math.max(1, ...curves.series.flatMap((s) => s.ci.filter((v): v is number => v != null)));
+    const y = (v: number) => PAD.t + INNER_H - (v / max) * INNER_H;
+    const lines = curves.series.map((s) => {
+      // Break the line across hours a state has no data for
+      let d = "";
+      let pen = false;
+      s.ci.forEach((v, i) => {
+        if (v == null) { pen = false; return; }
+        d += `${pen ? "L" : "M"}${x(i)},${y(v)}`;
+        pen = true;
+      });
+      return { state: s.state, d };
+    });
+    return { y, lines, ticks: niceTicks(max) };
+  }, [curves, n]);
+
+  const days = useMemo(() => dayTicks(curves.timestamps), [curves.timestamps]);
+
+  const onMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!n) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const sx = ((e.clientX - rect.left) / rect.width) * W;
+    const i = Math.round(((sx - PAD.l) / INNER_W) * (n - 1));
+    setHoverIdx(i >= 0 && i < n ? i : null);
+  };
+
+  const best = (key: (typeof IMPACT_ROWS)[number]["key"], better: "high" | "low") => {
+    const vals = stateNames
+      .map((s) => impact[normalizeStateName(s)]?.[key])
+      .filter((v): v is number => v != null);
+    if (vals.length < 2) return null;
+    return better === "high" ? Math.max(...vals) : Math.min(...vals);
+  };
+
+  const tooltipLeftPct = hoverIdx != null ? (x(hoverIdx) / W) * 100 : 0;
+  const dataError = impactError ?? fuelError;
+  const hourlyErrors = Object.entries(hourly.errors);
+
+  return (
+    <section
+      className={[
+        "w-full bg-white/5 text-white rounded-2xl border border-white/10 p-5 shadow-xl",
+        className,
+      ].filter(Boolean).join(" ")}
+    >
+      <div className="flex flex-wrap items-center justify-between mb-4 gap-3">
+        <h3 className="text-lg font-semibold">State Comparison</h3>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {stateNames.map((s) => (
+            <span key={s} className="flex items-center gap-1.5 rounded-full border border-white/15 bg-black/20 px-2 py-0.5">
+              <span className="inline-block h-2 w-2 rounded-full" style={{ background: colorOf(s) }} />
+              {s}
+              {onRemove && (
+                <button type="button" aria-label={`Remove ${s}`} onClick={() => onRemove(s)} className="text-white/60 hover:text-white">
+                  ✕
+                </button>
+              )}
+            </span>
+          ))}
+          {onClear && (
+            <button type="button" onClick={onClear} className="text-white/60 hover:text-white underline">
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {dataError && <div className="text-red-300 text-sm mb-3">{dataError.message}</div>}
+
+      {/* Impact metrics */}
+      <div className="overflow-x-auto mb-5">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-white/70">
+              <th className="text-left font-normal py-1 pr-3">Metric</th>
+              {stateNames.map((s) => (
+                <th key={s} className="text-right font-semibold py-1 px-2" style={{ color: colorOf(s) }}>{s}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {IMPACT_ROWS.map((m) => {
+              const top = best(m.key, m.better);
+              return (
+                <tr key={m.key} className="border-t border-white/10">
+                  <td className="py-1.5 pr-3 text-white/70">{m.label}</td>
+                  {stateNames.map((s) => {
+                    const v = impact[normalizeStateName(s)]?.[m.key];
+                    return (
+                      <td key={s} className={`py-1.5 px-2 text-right ${v != null && v === top ? "font-semibold text-emerald-300" : ""}`}>
+                        {v != null ? m.format(v) : "—"}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Baseline fuel mix */}
+      <div className="mb-5">
+        <div className="text-sm text-white/70 mb-2">Baseline fuel mix</div>
+        <div className="space-y-2">
+          {stateNames.map((s) => {
+            const row = fuel[normalizeStateName(s)];
+            const total = row ? MIX_PARTS.reduce((acc, p) => acc + row[p.key], 0) : 0;
+            return (
+              <div key={s} className="flex items-center gap-3 text-xs">
+                <span className="w-28 shrink-0 truncate" style={{ color: colorOf(s) }}>{s}</span>
+                {row && total > 0 ? (
+                  <div className="flex h-4 flex-1 overflow-hidden rounded-full bg-black/30">
+                    {MIX_PARTS.map((p) => {
+                      const pct = (row[p.key] / total) * 100;
+                      return pct > 0 ? (
+                        <div
+                          key={p.key}
+                          style={{ width: `${pct}%`, background: p.color }}
+                          title={`${p.label}: ${fmt1(pct)}% (${fmtInt(row[p.key])} MWh)`}
+                        />
+                      ) : null;
+                    })}
+                  </div>
+                ) : (
+                  <span className="text-white/50">No fuel data</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <div className="mt-2 flex flex-wrap gap-3 text-xs text-white/80">
+          {MIX_PARTS.map((p) => (
+            <span key={p.key} className="flex items-center gap-1.5">
+              <span className="inline-block h-3 w-3 rounded-sm" style={{ background: p.color }} />
+              {p.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Overlaid carbon intensity */}
+      <div className="text-sm text-white/70 mb-2">Hourly carbon intensity</div>
+      {hourlyErrors.map(([s, e]) => (
+        <div key={s} className="text-red-300 text-xs mb-1">{s}: {e.message}</div>
+      ))}
+      {!chart && hourly.loading && <div className="text-white/60 text-sm">Loading hourly data…</div>}
+      {chart && (
+        <div className="relative" onMouseLeave={() => setHoverIdx(null)}>
+          <svg
+            viewBox={`0 0 ${W} ${H}`}
+            width="100%"
+            role="img"
+            aria-label={`Hourly carbon intensity: ${stateNames.join(", ")}`}
+            onMouseMove={onMove}
+            className="block"
+          >
+            {chart.ticks.map((t) => (
+              <g key={t}>
+                <line x1={PAD.l} x2={W - PAD.r} y1={chart.y(t)} y2={chart.y(t)} stroke="white" strokeOpacity={0.08} />
+                <text x={PAD.l - 6} y={chart.y(t) + 4} textAnchor="end" fontSize="10" fill="white" opacity={0.6}>
+                  {fmtInt(t)}
+                </text>
+              </g>
+            ))}
+            {days.map((t) => (
+              <text key={t.i} x={x(t.i)} y={H - 6} textAnchor="middle" fontSize="10" fill="white" opacity={0.6}>
+                {t.label}
+              </text>
+            ))}
+            {chart.lines.map((l) => (
+              <path key={l.state} d={l.d} fill="none" stroke={colorOf(l.state)} strokeWidth={1.5} />
+            ))}
+            {hoverIdx != null && (
+              <>
+                <line x1={x(hoverIdx)} x2={x(hoverIdx)} y1={PAD.t} y2={H - PAD.b} stroke="white" strokeOpacity={0.7} />
+                {curves.series.map((s) => {
+                  const v = s.ci[hoverIdx];
+                  return v != null ? (
+                    <circle key={s.state} cx={x(hoverIdx)} cy={chart.y(v)} r={3.5} fill={colorOf(s.state)} stroke="white" />
+                  ) : null;
+                })}
+              </>
+            )}
+            <text x={PAD.l} y={PAD.t + 10} fontSize="10" fill="white" opacity={0.6} dx={6}>g CO₂/kWh</text>
+          </svg>
+
+          {hoverIdx != null && (
+            <div
+              className="pointer-events-none absolute top-2 z-10 w-52 rounded-lg border border-white/15 bg-slate-900/95 p-3 text-xs shadow-xl"
+              style={{
+                left: `${tooltipLeftPct}%`,
+                transform: tooltipLeftPct > 60 ? "translateX(calc(-100% - 12px))" : "translateX(12px)",
+              }}
+            >
+              <div className="font-semibold mb-1">{fmtHour(curves.timestamps[hoverIdx])}</div>
+              {curves.series.map((s) => (
+                <div key={s.state} className="flex items-center justify-between">
+                  <span className="flex items-center gap-1.5">
+                    <span className="inline-block h-2 w-2 rounded-full" style={{ background: colorOf(s.state) }} />
+                    {s.state}
+                  </span>
+                  <span>{s.ci[hoverIdx] != null ? `${fmt1(s.ci[hoverIdx])} g/kWh` : "—"}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default StateComparison;
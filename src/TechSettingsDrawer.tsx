@@ -0,0 +1,288 @@
+// src/TechSettingsDrawer.tsx
+import React, { useEffect } from "react";
+import { DEFAULT_FINANCE, type FinanceSpec } from "./finance";
+import { TECH_PRESETS, type CustomTech, type StorageSpec, type TechProfile, type TechSpec } from "./techSpecs";
+
+type Props = {
+  open: boolean;
+  onClose: () => void;
+  /** Effective solar/wind specs and the defaults they were derived from */
+  solar: TechSpec;
+  wind: TechSpec;
+  solarDefault: TechSpec;
+  windDefault: TechSpec;
+  onSpecChange: (tech: "solar" | "wind", patch: Partial<TechSpec>) => void;
+  /** Storage is sized on the planner itself; only its cost and financing are edited here */
+  storage: StorageSpec;
+  onStorageChange: (patch: Partial<StorageSpec>) => void;
+  onResetSpecs: () => void;
+  customTechs: CustomTech[];
+  onAddTech: (preset: Omit<CustomTech, "id" | "color">) => void;
+  onUpdateTech: (id: string, patch: Partial<CustomTech>) => void;
+  onRemoveTech: (id: string) => void;
+};
+
+const PROFILES: { value: TechProfile; label: string }[] = [
+  { value: "firm", label: "Firm (flat)" },
+  { value: "solar", label: "Solar shape" },
+  { value: "wind", label: "Wind shape" },
+];
+
+const BLANK_TECH: Omit<CustomTech, "id" | "color"> = {
+  name: "New technology",
+  profile: "firm",
+  unitName: "100 MW unit",
+  mwPerUnit: 100,
+  capacityFactor: 0.5,
+  costPerUnit: 200_000_000,
+  maxUnits: 50,
+  ...DEFAULT_FINANCE,
+};
+
+const inputCls =
+  "w-full rounded-md bg-black/30 border border-white/15 px-2 py-1 text-sm text-white focus:outline-none focus:ring-1 focus:ring-sky-300";
+
+const round = (n: number, digits: number) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+/** MW, CF (shown in %), cost (shown in $M) and max units for one spec */
+const SpecFields: React.FC<{ spec: TechSpec; onChange: (patch: Partial<TechSpec>) => void }> = ({ spec, onChange }) => (
+  <div className="grid grid-cols-2 gap-3 text-xs">
+    <label className="space-y-1">
+      <span className="text-slate-300">MW per unit</span>
+      <input
+        className={inputCls}
+        type="number"
+        min={0.1}
+        step={0.1}
+        value={spec.mwPerUnit}
+        onChange={(e) => onChange({ mwPerUnit: Math.max(0.1, Number(e.target.value) || 0.1) })}
+      />
+    </label>
+    <label className="space-y-1">
+      <span className="text-slate-300">Capacity factor (%)</span>
+      <input
+        className={inputCls}
+        type="number"
+        min={0}
+        max={100}
+        step={0.5}
+        value={round(spec.capacityFactor * 100, 1)}
+        onChange={(e) => onChange({ capacityFactor: Math.max(0, Math.min(100, Number(e.target.value) || 0)) / 100 })}
+      />
+    </label>
+    <label className="space-y-1">
+      <span className="text-slate-300">Cost per unit ($M)</span>
+      <input
+        className={inputCls}
+        type="number"
+        min={0}
+        step={0.1}
+        value={round(spec.costPerUnit / 1e6, 3)}
+        onChange={(e) => onChange({ costPerUnit: Math.max(0, Number(e.target.value) || 0) * 1e6 })}
+      />
+    </label>
+    <label className="space-y-1">
+      <span className="text-slate-300">Max units</span>
+      <input
+        className={inputCls}
+        type="number"
+        min={1}
+        step={1}
+        value={spec.maxUnits}
+        onChange={(e) => onChange({ maxUnits: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+      />
+    </label>
+  </div>
+);
+
+/** O&M, lifetime, discount rate, degradation and tax credit (fractions shown in %) */
+const FinanceFields: React.FC<{ spec: FinanceSpec; onChange: (patch: Partial<FinanceSpec>) => void }> = ({ spec, onChange }) => {
+  const pct = (field: "omRate" | "discountRate" | "degradation" | "itc", label: string, step = 0.1) => (
+    <label className="space-y-1">
+      <span className="text-slate-300">{label}</span>
+      <input
+        className={inputCls}
+        type="number"
+        min={0}
+        max={100}
+        step={step}
+        value={round(spec[field] * 100, 2)}
+        onChange={(e) => onChange({ [field]: Math.max(0, Math.min(100, Number(e.target.value) || 0)) / 100 })}
+      />
+    </label>
+  );
+  return (
+    <div className="grid grid-cols-2 gap-3 text-xs">
+      {pct("omRate", "O&M (% of capex/yr)")}
+      <label className="space-y-1">
+        <span className="text-slate-300">Lifetime (years)</span>
+        <input
+          className={inputCls}
+          type="number"
+          min={1}
+          step={1}
+          value={spec.lifetimeYears}
+          onChange={(e) => onChange({ lifetimeYears: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+        />
+      </label>
+      {pct("discountRate", "Discount rate (%)", 0.5)}
+      {pct("degradation", "Degradation (%/yr)")}
+      {pct("itc", "Tax credit (% of capex)", 1)}
+    </div>
+  );
+};
+
+/** Slide-over for editing the planner's technology specs and adding new technologies */
+const TechSettingsDrawer: React.FC<Props> = ({
+  open,
+  onClose,
+  solar,
+  wind,
+  solarDefault,
+  windDefault,
+  onSpecChange,
+  storage,
+  onStorageChange,
+  onResetSpecs,
+  customTechs,
+  onAddTech,
+  onUpdateTech,
+  onRemoveTech,
+}) => {
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50" role="dialog" aria-modal="true" aria-label="Technology settings">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+      <div className="absolute inset-y-0 right-0 w-full max-w-md overflow-y-auto border-l border-white/10 bg-slate-900 p-6 text-slate-50 shadow-2xl">
+        <div className="flex items-center justify-between mb-5">
+          <h3 className="font-semibold text-lg">Technology settings</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="text-white/60 hover:text-white px-2"
+          >
+            ✕
+          </button>
+        </div>
+
+        {(["solar", "wind"] as const).map((key) => {
+          const spec = key === "solar" ? solar : wind;
+          const base = key === "solar" ? solarDefault : windDefault;
+          return (
+            <div key={key} className="mb-5 rounded-lg bg-black/20 border border-white/10 p-3">
+              <div className="flex items-baseline justify-between mb-3">
+                <span className="font-semibold capitalize">{key}</span>
+                <span className="text-[11px] text-slate-400">
+                  state default CF {round(base.capacityFactor * 100, 1)}%
+                </span>
+              </div>
+              <SpecFields spec={spec} onChange={(patch) => onSpecChange(key, patch)} />
+              <div className="mt-3">
+                <FinanceFields spec={spec} onChange={(patch) => onSpecChange(key, patch)} />
+              </div>
+            </div>
+          );
+        })}
+        <div className="mb-5 rounded-lg bg-black/20 border border-white/10 p-3">
+          <div className="font-semibold mb-3">Storage</div>
+          <div className="grid grid-cols-2 gap-3 text-xs mb-3">
+            <label className="space-y-1">
+              <span className="text-slate-300">Cost per unit ($M)</span>
+              <input
+                className={inputCls}
+                type="number"
+                min={0}
+                step={1}
+                value={round(storage.costPerUnit / 1e6, 3)}
+                onChange={(e) => onStorageChange({ costPerUnit: Math.max(0, Number(e.target.value) || 0) * 1e6 })}
+              />
+            </label>
+          </div>
+          <FinanceFields spec={storage} onChange={onStorageChange} />
+        </div>
+        <button
+          type="button"
+          onClick={onResetSpecs}
+          className="mb-8 rounded-md border border-white/20 px-3 py-1 text-xs hover:bg-white/10"
+        >
+          Reset solar, wind &amp; storage to defaults
+        </button>
+
+        <h4 className="font-semibold mb-3">Additional technologies</h4>
+        <div className="space-y-4">
+          {customTechs.map((t) => (
+            <div key={t.id} className="rounded-lg bg-black/20 border border-white/10 p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                <span className="inline-block h-3 w-3 shrink-0 rounded-full" style={{ background: t.color }} />
+                <input
+                  className={inputCls}
+                  value={t.name}
+                  aria-label="Technology name"
+                  onChange={(e) => onUpdateTech(t.id, { name: e.target.value })}
+                />
+                <button
+                  type="button"
+                  onClick={() => onRemoveTech(t.id)}
+                  aria-label={`Remove ${t.name}`}
+                  className="text-white/60 hover:text-red-300 px-2"
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-3 text-xs">
+                <label className="space-y-1">
+                  <span className="text-slate-300">Unit name</span>
+                  <input className={inputCls} value={t.unitName} onChange={(e) => onUpdateTech(t.id, { unitName: e.target.value })} />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-slate-300">Hourly profile</span>
+                  <select
+                    className={inputCls}
+                    value={t.profile}
+                    onChange={(e) => onUpdateTech(t.id, { profile: e.target.value as TechProfile })}
+                  >
+                    {PROFILES.map((p) => (
+                      <option key={p.value} value={p.value}>{p.label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <SpecFields spec={t} onChange={(patch) => onUpdateTech(t.id, patch)} />
+              <FinanceFields spec={t} onChange={(patch) => onUpdateTech(t.id, patch)} />
+            </div>
+          ))}
+          {!customTechs.length && (
+            <p className="text-xs text-slate-400">None yet. Each technology gets its own slider, pie slice and legend entry.</p>
+          )}
+        </div>
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          {[...TECH_PRESETS, BLANK_TECH].map((p) => (
+            <button
+              key={p.name}
+              type="button"
+              onClick={() => onAddTech(p)}
+              className="rounded-full border border-white/20 px-3 py-1 text-xs hover:bg-white/10"
+            >
+              + {p === BLANK_TECH ? "Custom" : p.name}
+            </button>
+          ))}
+        </div>
+        <p className="mt-4 text-[11px] text-slate-400 leading-5">
+          Solar, wind and storage edits are kept in the link; additional technologies are saved in this browser.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TechSettingsDrawer;
@@ -0,0 +1,67 @@
+// src/TimelineControls.tsx
+import React, { useEffect, useState } from "react";
+import { parseTimestamp } from "./chartUtils";
+
+type Props = {
+  timestamps: string[];
+  index: number;
+  onChange: (i: number) => void;
+  /** Milliseconds per hour step while playing */
+  stepMs?: number;
+  className?: string;
+};
+
+const TimelineControls: React.FC<Props> = ({ timestamps, index, onChange, stepMs = 250, className }) => {
+  const [playing, setPlaying] = useState(false);
+  const n = timestamps.length;
+
+  useEffect(() => {
+    if (!playing || n < 2) return;
+    const id = window.setInterval(() => onChange((index + 1) % n), stepMs);
+    return () => window.clearInterval(id);
+  }, [playing, index, n, stepMs, onChange]);
+
+  const ts = timestamps[index];
+  const local = ts
+    ? parseTimestamp(ts).toLocaleString(undefined, {
+        weekday: "short", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit", timeZoneName: "short",
+      })
+    : "—";
+
+  return (
+    <div
+      className={[
+        "w-full rounded-xl bg-white/5 border border-white/10 px-4 py-3 text-white flex items-center gap-4",
+        className,
+      ].filter(Boolean).join(" ")}
+    >
+      <button
+        type="button"
+        onClick={() => setPlaying((p) => !p)}
+        disabled={n < 2}
+        aria-label={playing ? "Pause" : "Play"}
+        className="shrink-0 h-9 w-9 rounded-full bg-sky-400 text-slate-900 font-bold hover:bg-sky-300 disabled:opacity-50"
+      >
+        {playing ? "❚❚" : "▶"}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={Math.max(n - 1, 0)}
+        step={1}
+        value={index}
+        onChange={(e) => onChange(Number(e.target.value))}
+        aria-label="Hour"
+        className="flex-1 accent-sky-400"
+      />
+      <div className="shrink-0 text-sm tabular-nums min-w-[14rem] text-right">
+        <div className="font-semibold">{local}</div>
+        <div className="text-white/50 text-xs">
+          hour {n ? index + 1 : 0} / {n} • {Intl.DateTimeFormat().resolvedOptions().timeZone}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimelineControls;
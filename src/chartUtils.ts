@@ -0,0 +1,33 @@
+// src/chartUtils.ts
+// Small helpers shared by the hand-rolled SVG charts.
+
+/** "2025-09-29 01:00:00+00:00" → Date */
+export function parseTimestamp(ts: string): Date {
+  return new Date(ts.replace(" ", "T"));
+}
+
+/** Hour label in the viewer's locale/time zone */
+export function fmtHour(ts: string): string {
+  return parseTimestamp(ts).toLocaleString(undefined, {
+    weekday: "short", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit",
+  });
+}
+
+/** Evenly spaced "nice" ticks from 0 to max */
+export function niceTicks(max: number, count = 4): number[] {
+  if (!(max > 0)) return [0];
+  const raw = max / count;
+  const mag = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map((m) => m * mag).find((s) => s >= raw) ?? raw;
+  const out: number[] = [];
+  for (let v = 0; v <= max + 1e-9; v += step) out.push(v);
+  return out;
+}
+
+/** Indices of local midnight, labelled for the x-axis */
+export function dayTicks(timestamps: string[]): { i: number; label: string }[] {
+  return timestamps
+    .map((ts, i) => ({ i, d: parseTimestamp(ts) }))
+    .filter(({ d }) => d.getHours() === 0)
+    .map(({ i, d }) => ({ i, label: d.toLocaleDateString(undefined, { month: "short", day: "numeric" }) }));
+}
@@ -0,0 +1,60 @@
+// src/chatClient.ts
+// Client for POST /api/chat: questions about one state's grid forecast.
+
+// Endpoint (override with VITE_CHAT_ENDPOINT if you like)
+const CHAT_ENDPOINT = import.meta.env.VITE_CHAT_ENDPOINT || "/api/chat";
+
+/** A tool-calling model can take several round trips */
+const TIMEOUT_MS = 60000;
+
+/** What the server accepts: the latest messages, and answers up to this length */
+const MAX_MESSAGES = 20;
+const MAX_ANSWER_CHARS = 2000;
+
+export type ChatRole = "user" | "assistant";
+
+/** One grid query the server ran while answering */
+export type ChatStep = { tool: string; arguments: Record<string, unknown>; result: unknown };
+
+export type ChatReply = {
+  answer: string;
+  provider: string;
+  steps: ChatStep[];
+};
+
+/**
+ * Ask about `state`, sending the conversation so far (ending with the new
+ * question). Rejects with an AbortError when `signal` fires.
+ */
+export async function askGrid(
+  state: string,
+  messages: { role: ChatRole; content: string }[],
+  signal?: AbortSignal
+): Promise<ChatReply> {
+  const timeout = AbortSignal.timeout(TIMEOUT_MS);
+  let res: Response;
+  try {
+    res = await fetch(CHAT_ENDPOINT, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        state,
+        messages: messages.slice(-MAX_MESSAGES).map((m) =>
+          m.role === "assistant" ? { ...m, content: m.content.slice(0, MAX_ANSWER_CHARS) } : m
+        ),
+      }),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+  } catch (e) {
+    if (timeout.aborted && !signal?.aborted) throw new Error("The answer took too long. Try again.");
+    throw e;
+  }
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error || res.statusText || `HTTP ${res.status}`);
+  if (typeof data?.answer !== "string") throw new Error("Empty or non-JSON response from the chat endpoint.");
+  return {
+    answer: data.answer,
+    provider: String(data.provider ?? ""),
+    steps: Array.isArray(data.steps) ? data.steps : [],
+  };
+}
@@ -0,0 +1,86 @@
+// src/colorScale.ts
+// Sequential color scales for the choropleth map, plus the comparison palette.
+
+export type ScaleKind = "linear" | "quantile";
+
+export type LegendStop = { color: string; from: number; to: number };
+
+export type ColorScale = {
+  color: (v: number | null | undefined) => string;
+  legend: LegendStop[];
+  domain: [number, number];
+};
+
+/** Light → dark ramp (cyan to deep violet) */
+const RAMP = ["#e0f2fe", "#7dd3fc", "#38bdf8", "#6366f1", "#7c3aed", "#4c1d95"];
+
+export const NO_DATA_COLOR = "rgba(255,255,255,0.06)";
+
+/** Categorical colors for states in a side-by-side comparison (selection order) */
+export const COMPARE_COLORS = ["#38bdf8", "#f472b6", "#a3e635", "#fbbf24"];
+
+function hexToRgb(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+/** t ∈ [0,1] → color along RAMP */
+export function rampColor(t: number): string {
+  const x = Math.max(0, Math.min(1, Number.isFinite(t) ? t : 0)) * (RAMP.length - 1);
+  const i = Math.min(Math.floor(x), RAMP.length - 2);
+  const f = x - i;
+  const a = hexToRgb(RAMP[i]);
+  const b = hexToRgb(RAMP[i + 1]);
+  const c = a.map((v, k) => Math.round(v + (b[k] - v) * f));
+  return `rgb(${c[0]},${c[1]},${c[2]})`;
+}
+
+function finite(values: (number | null | undefined)[]): number[] {
+  return values.filter((v): v is number => v != null && Number.isFinite(v));
+}
+
+/** Continuous scale between min and max; the legend shows `steps` bands */
+export function linearScale(values: (number | null | undefined)[], steps = 5): ColorScale {
+  const xs = finite(values);
+  const min = xs.length ? Math.min(...xs) : 0;
+  const max = xs.length ? Math.max(...xs) : 1;
+  const span = max - min || 1;
+  const legend: LegendStop[] = Array.from({ length: steps }, (_, i) => ({
+    color: rampColor((i + 0.5) / steps),
+    from: min + (span * i) / steps,
+    to: min + (span * (i + 1)) / steps,
+  }));
+  return {
+    color: (v) => (v == null || !Number.isFinite(v) ? NO_DATA_COLOR : rampColor((v - min) / span)),
+    legend,
+    domain: [min, max],
+  };
+}
+
+/** k equal-count classes */
+export function quantileScale(values: (number | null | undefined)[], k = 5): ColorScale {
+  const xs = finite(values).sort((a, b) => a - b);
+  if (!xs.length) return linearScale([], k);
+  const q = (p: number) => xs[Math.min(xs.length - 1, Math.floor(p * xs.length))];
+  const breaks = Array.from({ length: k - 1 }, (_, i) => q((i + 1) / k));
+  const colors = Array.from({ length: k }, (_, i) => rampColor(k > 1 ? i / (k - 1) : 1));
+  const legend: LegendStop[] = colors.map((color, i) => ({
+    color,
+    from: i === 0 ? xs[0] : breaks[i - 1],
+    to: i === k - 1 ? xs[xs.length - 1] : breaks[i],
+  }));
+  return {
+    color: (v) => {
+      if (v == null || !Number.isFinite(v)) return NO_DATA_COLOR;
+      let i = 0;
+      while (i < breaks.length && v >= breaks[i]) i++;
+      return colors[i];
+    },
+    legend,
+    domain: [xs[0], xs[xs.length - 1]],
+  };
+}
+
+export function makeScale(kind: ScaleKind, values: (number | null | undefined)[]): ColorScale {
+  return kind === "quantile" ? quantileScale(values) : linearScale(values);
+}
@@ -0,0 +1,281 @@
+// src/dispatch.ts
+// Hour-by-hour supply/demand balance for the renewables planner: new solar and
+// wind can only displace fossil in the hours they actually generate.
+import { parseTimestamp } from "./chartUtils";
+import { STATE_TIME_ZONES, utcOffsetHours } from "./timeZones";
+
+/** One state's hourly grid (all MWh per hour, aligned to `timestamps`) */
+export type HourlyGrid = {
+  timestamps: string[];
+  /** Served load */
+  demand: number[];
+  /** Baseline fossil generation */
+  fossil: number[];
+  /** Baseline solar / wind generation (zeros where not reported) */
+  solar: number[];
+  wind: number[];
+  /** Baseline fossil CO₂ (kg per hour), when known */
+  co2Kg?: number[];
+};
+
+/** Grid-scale battery */
+export type Storage = {
+  energyMWh: number;
+  powerMW: number;
+  /** Round-trip efficiency (0..1), applied on charge */
+  efficiency: number;
+};
+
+/** Any additional new generator (geothermal, SMR, offshore wind, …) */
+export type ExtraSource = {
+  mw: number;
+  /** Hourly capacity-factor profile aligned to grid.timestamps */
+  cf: number[];
+};
+
+export type DispatchInput = {
+  grid: HourlyGrid;
+  solarMW: number;
+  windMW: number;
+  /** Hourly capacity-factor profiles (0..1) aligned to grid.timestamps */
+  solarCf: number[];
+  windCf: number[];
+  /** Further new sources, dispatched alongside solar and wind */
+  extra?: ExtraSource[];
+  storage?: Storage;
+  /**
+   * Treat the window as repeating: storage starts with the charge it ends
+   * with (found by a warm-up pass) instead of empty.
+   */
+  cyclic?: boolean;
+};
+
+export type DispatchHour = {
+  /** New generation actually delivered (after curtailment) */
+  newSolar: number;
+  newWind: number;
+  /** Delivered output per `extra` source, same order */
+  newExtra: number[];
+  /** New generation with nowhere to go (after charging storage) */
+  curtailed: number;
+  /** Surplus drawn into storage / energy delivered from it */
+  charge: number;
+  discharge: number;
+  /** Stored energy at the end of the hour */
+  soc: number;
+  /** Fossil still needed — also the demand left unmet if fossil were retired */
+  fossil: number;
+};
+
+export type DispatchTotals = {
+  demand: number;
+  fossilBaseline: number;
+  fossil: number;
+  newSolarGen: number;
+  newWindGen: number;
+  newSolarUsed: number;
+  newWindUsed: number;
+  extraGen: number[];
+  extraUsed: number[];
+  curtailed: number;
+  charged: number;
+  /** Fossil CO₂ before / after the new build (kg); displaced MWh carry their hour's intensity */
+  co2BaselineKg: number;
+  co2Kg: number;
+  discharged: number;
+  /** Hours in which clean supply falls short of demand */
+  shortfallHours: number;
+  /** Largest hourly shortfall (MWh in one hour ≈ MW of firm capacity still needed) */
+  peakShortfallMW: number;
+};
+
+export type DispatchResult = {
+  hours: DispatchHour[];
+  totals: DispatchTotals;
+  /** Simulated span in days (for MWh/day figures) */
+  days: number;
+};
+
+const EPS = 1e-6;
+
+/**
+ * Existing clean generation (nuclear, hydro, existing renewables, …) is
+ * treated as must-run, so new solar/wind only fills the fossil slice of each
+ * hour. Surplus charges storage (if any), storage discharges into hours that
+ * would otherwise burn fossil, and whatever is left over is curtailed.
+ */
+export function simulateDispatch(input: DispatchInput): DispatchResult {
+  if (input.cyclic && input.storage && input.storage.energyMWh > 0) {
+    const warm = runDispatch(input, 0);
+    return runDispatch(input, warm.hours[warm.hours.length - 1]?.soc ?? 0);
+  }
+  return runDispatch(input, 0);
+}
+
+function runDispatch(
+  { grid, solarMW, windMW, solarCf, windCf, extra = [], storage }: DispatchInput,
+  initialSoc: number
+): DispatchResult {
+  const n = grid.timestamps.length;
+  const hours: DispatchHour[] = [];
+  const t: DispatchTotals = {
+    demand: 0, fossilBaseline: 0, fossil: 0,
+    newSolarGen: 0, newWindGen: 0, newSolarUsed: 0, newWindUsed: 0,
+    extraGen: extra.map(() => 0), extraUsed: extra.map(() => 0),
+    curtailed: 0, charged: 0, discharged: 0, co2BaselineKg: 0, co2Kg: 0, shortfallHours: 0, peakShortfallMW: 0,
+  };
+  const cap = Math.max(0, storage?.energyMWh ?? 0);
+  const power = Math.max(0, storage?.powerMW ?? 0);
+  const eff = Math.max(0, Math.min(1, storage?.efficiency ?? 1));
+  let soc = Math.min(initialSoc, cap);
+
+  for (let i = 0; i < n; i++) {
+    const fossil0 = Math.max(0, grid.fossil[i] ?? 0);
+    const s = solarMW * (solarCf[i] ?? 0);
+    const w = windMW * (windCf[i] ?? 0);
+    const x = extra.map((e) => e.mw * (e.cf[i] ?? 0));
+    const gen = x.reduce((a, v) => a + v, s + w);
+    const used = Math.min(gen, fossil0);
+    const share = gen > 0 ? used / gen : 0;
+    const surplus = gen - used;
+    let fossil = fossil0 - used;
+
+    // Charge from surplus (losses taken on the way in), then discharge into fossil hours
+    const charge = eff > 0 ? Math.min(surplus, power, (cap - soc) / eff) : 0;
+    soc += charge * eff;
+    const discharge = Math.min(fossil, power, soc);
+    soc -= discharge;
+    fossil -= discharge;
+
+    const h: DispatchHour = {
+      newSolar: s * share,
+      newWind: w * share,
+      newExtra: x.map((v) => v * share),
+      curtailed: surplus - charge,
+      charge,
+      discharge,
+      soc,
+      fossil,
+    };
+    hours.push(h);
+
+    t.demand += Math.max(0, grid.demand[i] ?? 0);
+    t.fossilBaseline += fossil0;
+    t.fossil += h.fossil;
+    t.newSolarGen += s;
+    t.newWindGen += w;
+    t.newSolarUsed += h.newSolar;
+    t.newWindUsed += h.newWind;
+    x.forEach((v, k) => {
+      t.extraGen[k] += v;
+      t.extraUsed[k] += h.newExtra[k];
+    });
+    t.curtailed += h.curtailed;
+    t.charged += h.charge;
+    t.discharged += h.discharge;
+    const co2 = Math.max(0, grid.co2Kg?.[i] ?? 0);
+    t.co2BaselineKg += co2;
+    t.co2Kg += fossil0 > 0 ? (co2 * h.fossil) / fossil0 : 0;
+    if (h.fossil > EPS) t.shortfallHours++;
+    t.peakShortfallMW = Math.max(t.peakShortfallMW, h.fossil);
+  }
+
+  return { hours, totals: t, days: n / 24 };
+}
+
+/** Mean of a series (0 for empty) */
+const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0);
+
+/**
+ * Rescale an hourly shape so its mean equals `cf`, capping each hour at 1.
+ * Returns null when the shape has no output at all.
+ */
+export function cfProfile(shape: number[], cf: number): number[] | null {
+  const m = mean(shape.map((v) => Math.max(0, v)));
+  if (!(m > 0) || cf <= 0) return null;
+  let out = shape.map((v) => Math.max(0, v) / m);
+  // Capping at 1 lowers the mean; a few passes bring it back to target
+  for (let pass = 0; pass < 5; pass++) {
+    const cur = mean(out);
+    if (cur <= 0) break;
+    out = out.map((v) => Math.min(1, (v * cf) / cur));
+    if (Math.abs(mean(out) - cf) < 1e-4) break;
+  }
+  return out;
+}
+
+/**
+ * Local clock offset (hours from UTC) of a state at the instant `at` (a data
+ * timestamp, default now), for the synthetic solar shape. Unknown states use
+ * Eastern time.
+ */
+export function utcOffsetFor(state: string | undefined, at?: string): number {
+  const zone = (state && STATE_TIME_ZONES[state]) || "America/New_York";
+  return utcOffsetHours(at ? parseTimestamp(at) : new Date(), zone);
+}
+
+/** Clear-sky style bell between 06:00 and 18:00 local, scaled to mean `cf` */
+export function syntheticSolarCf(timestamps: string[], utcOffset: number, cf: number): number[] {
+  const shape = timestamps.map((ts) => {
+    const local = (parseTimestamp(ts).getUTCHours() + utcOffset + 24) % 24;
+    return Math.max(0, Math.sin((Math.PI * (local - 6)) / 12));
+  });
+  return cfProfile(shape, cf) ?? shape.map(() => 0);
+}
+
+/** Flat profile at `cf` (wind fallback when no hourly wind is reported) */
+export function flatCf(n: number, cf: number): number[] {
+  return new Array<number>(n).fill(Math.max(0, Math.min(1, cf)));
+}
+
+/**
+ * Units of one technology (alone) needed so no hour still burns fossil.
+ * Infinity when some fossil hour has no output from that technology.
+ */
+export function unitsToEliminateFossil(grid: HourlyGrid, cf: number[], mwPerUnit: number): number {
+  let units = 0;
+  for (let i = 0; i < grid.timestamps.length; i++) {
+    const fossil = grid.fossil[i] ?? 0;
+    if (fossil <= EPS) continue;
+    const perUnit = mwPerUnit * (cf[i] ?? 0);
+    if (perUnit <= EPS) return Infinity;
+    units = Math.max(units, fossil / perUnit);
+  }
+  return Math.ceil(units);
+}
+
+/**
+ * Fewest storage units (each `unit` of energy/power) that leave no fossil
+ * hour for this build, with the window treated as repeating. Infinity when
+ * even `maxUnits` can't, i.e. the build's surplus (after losses) doesn't
+ * cover the residual.
+ */
+export function minStorageToEliminateFossil(
+  input: Omit<DispatchInput, "storage">,
+  unit: Storage,
+  maxUnits = 100_000
+): number {
+  if (unit.energyMWh <= 0 || unit.powerMW <= 0) return Infinity;
+  const clears = (units: number) => {
+    const { totals } = simulateDispatch({
+      ...input,
+      storage: { energyMWh: unit.energyMWh * units, powerMW: unit.powerMW * units, efficiency: unit.efficiency },
+      cyclic: true,
+    });
+    return totals.shortfallHours === 0;
+  };
+  if (clears(0)) return 0;
+
+  let hi = 1;
+  while (!clears(hi)) {
+    if (hi >= maxUnits) return Infinity;
+    hi = Math.min(hi * 2, maxUnits);
+  }
+  let lo = Math.floor(hi / 2); // lo never clears (or is 0, already checked)
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (clears(mid)) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
@@ -0,0 +1,47 @@
+// src/figures.ts
+// The six per-state dashboard figures (src/states/<State>/1.png … 6.png, in
+// carousel order) and the shape of the numbers the server cites when it
+// summarizes one of them. Shared by the dashboard and the API server.
+
+export const FIGURES = [
+  { kind: "generation", title: "Energy Consumption (14-day view)" },
+  { kind: "intensity", title: "Hourly Carbon Intensity - per Person" },
+  { kind: "fossil-hourly", title: "Fossil-Attributed Grid Consumption per Person— Baseline vs Optimized (A)" },
+  { kind: "fossil-daily", title: "Fossil-Attributed Grid Consumption — Baseline vs Optimized (B)" },
+  { kind: "shares", title: "Energy-Weighted Shares (24h rolling) — Baseline vs Optimized" },
+  { kind: "emissions", title: "Cumulative Emissions (kg) — 14-day view" },
+] as const;
+
+export type FigureKind = (typeof FIGURES)[number]["kind"];
+export const FIGURE_KINDS: readonly FigureKind[] = FIGURES.map((f) => f.kind);
+
+/** Where a fact comes from, precisely enough to recompute it by hand */
+export type FactSource = {
+  /** File inside src/states/<State>/ */
+  file: string;
+  /** Column or JSON path */
+  field: string;
+  /** How the value was derived, e.g. "sum over 336 hours" */
+  calc: string;
+  /** Timestamp or date the value belongs to, for single-hour/day facts */
+  at?: string;
+};
+
+/** A number behind a figure that a summary may quote as `… [id]` */
+export type Fact = {
+  id: string;
+  label: string;
+  value: number;
+  unit: string;
+  /** `value` rounded the way summaries should quote it */
+  display: string;
+  source: FactSource;
+};
+
+/** A fact referenced by a summary, with the number quoted next to it */
+export type Citation = Fact & {
+  /** Number found just before the marker, if any */
+  quoted: number | null;
+  /** Whether the quoted number agrees with `value` */
+  verified: boolean;
+};
@@ -0,0 +1,93 @@
+// src/finance.ts
+// Lifecycle cost of a planner build: overnight capex less tax credits, plus
+// discounted O&M, against discounted (degrading) energy and carbon benefits.
+
+/** Per-technology financing assumptions (fractions are 0..1) */
+export type FinanceSpec = {
+  /** Annual O&M as a fraction of capex */
+  omRate: number;
+  lifetimeYears: number;
+  /** Real discount rate */
+  discountRate: number;
+  /** Output lost per year */
+  degradation: number;
+  /** Investment tax credit as a fraction of capex */
+  itc: number;
+};
+
+export const DEFAULT_FINANCE: FinanceSpec = {
+  omRate: 0.02,
+  lifetimeYears: 25,
+  discountRate: 0.07,
+  degradation: 0,
+  itc: 0,
+};
+
+/** One technology's slice of the build */
+export type FinanceItem = FinanceSpec & {
+  capex: number;
+  /** First-year delivered energy (MWh) */
+  annualMWh: number;
+  /** First-year monetized benefit ($), e.g. avoided social cost of carbon */
+  annualBenefit: number;
+};
+
+export type FinanceResult = {
+  capex: number;
+  /** Capex after tax credits */
+  netCapex: number;
+  /** Present value of net capex and O&M */
+  pvCost: number;
+  /** Present value of benefits minus pvCost */
+  npv: number;
+  /** pvCost spread evenly over each technology's life */
+  annualizedCost: number;
+  /** pvCost per present-value MWh; null when nothing is delivered */
+  lcoe: number | null;
+};
+
+/** Share of a present value paid each year to recover it over `years` at `rate` */
+export function capitalRecoveryFactor(rate: number, years: number): number {
+  if (years <= 0) return 0;
+  if (rate <= 0) return 1 / years;
+  const g = (1 + rate) ** years;
+  return (rate * g) / (g - 1);
+}
+
+function evaluateItem(item: FinanceItem) {
+  const years = Math.max(0, Math.round(item.lifetimeYears));
+  const netCapex = item.capex * (1 - item.itc);
+  const om = item.capex * item.omRate;
+  let pvOm = 0, pvEnergy = 0, pvBenefit = 0;
+  for (let y = 1; y <= years; y++) {
+    const disc = (1 + item.discountRate) ** -y;
+    const output = (1 - item.degradation) ** (y - 1);
+    pvOm += om * disc;
+    pvEnergy += item.annualMWh * output * disc;
+    pvBenefit += item.annualBenefit * output * disc;
+  }
+  const pvCost = netCapex + pvOm;
+  return { netCapex, pvCost, pvEnergy, pvBenefit, annualized: pvCost * capitalRecoveryFactor(item.discountRate, years) };
+}
+
+/** Sum of each technology's lifecycle figures; LCOE pools cost and energy across them */
+export function evaluateFinance(items: FinanceItem[]): FinanceResult {
+  let capex = 0, netCapex = 0, pvCost = 0, pvEnergy = 0, pvBenefit = 0, annualizedCost = 0;
+  for (const item of items) {
+    const r = evaluateItem(item);
+    capex += item.capex;
+    netCapex += r.netCapex;
+    pvCost += r.pvCost;
+    pvEnergy += r.pvEnergy;
+    pvBenefit += r.pvBenefit;
+    annualizedCost += r.annualized;
+  }
+  return {
+    capex,
+    netCapex,
+    pvCost,
+    npv: pvBenefit - pvCost,
+    annualizedCost,
+    lcoe: pvEnergy > 0 ? pvCost / pvEnergy : null,
+  };
+}
@@ -0,0 +1,50 @@
+// src/ics.test.ts
+import { describe, expect, it } from "vitest";
+import { calendarFile } from "./ics";
+
+const event = {
+  start: new Date("2025-10-07T02:00:00Z"),
+  end: new Date("2025-10-07T04:30:00Z"),
+  title: "Run the dishwasher",
+};
+const NOW = new Date("2025-10-06T18:15:42.123Z");
+
+/** Content lines with folding undone */
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("calendarFile", () => {
+  it("writes one event with UTC times and CRLF line ends", () => {
+    const ics = calendarFile(event, NOW);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toContain("\n");
+    expect(unfold(ics)).toEqual(
+      expect.arrayContaining([
+        "BEGIN:VEVENT",
+        "DTSTAMP:20251006T181542Z",
+        "DTSTART:20251007T020000Z",
+        "DTEND:20251007T043000Z",
+        "SUMMARY:Run the dishwasher",
+        "END:VEVENT",
+      ])
+    );
+    expect(ics).not.toContain("DESCRIPTION");
+  });
+
+  it("escapes backslashes, commas, semicolons and newlines", () => {
+    const ics = calendarFile({ ...event, title: "EV; 20 kWh, off-peak", description: "C:\\grid\nLine two" }, NOW);
+    expect(unfold(ics)).toContain("SUMMARY:EV\\; 20 kWh\\, off-peak");
+    expect(unfold(ics)).toContain("DESCRIPTION:C:\\\\grid\\nLine two");
+  });
+
+  it("folds lines longer than 75 octets without splitting characters", () => {
+    const description = "Lowest-carbon window: 92 g CO₂/kWh ".repeat(6);
+    const ics = calendarFile({ ...event, description }, NOW);
+    const encoder = new TextEncoder();
+    const physical = ics.split("\r\n").filter(Boolean);
+    for (const line of physical) expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+
+    const folded = physical.filter((l) => l.startsWith(" "));
+    expect(folded.length).toBeGreaterThan(1);
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description}`);
+  });
+});
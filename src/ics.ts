@@ -0,0 +1,52 @@
+// src/ics.ts
+// A single iCalendar (RFC 5545) event, for "add this window to my calendar".
+
+export type CalendarEvent = {
+  start: Date;
+  end: Date;
+  title: string;
+  description?: string;
+};
+
+/** 20251007T020000Z */
+const icsDate = (d: Date) => d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeText = (s: string) =>
+  s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+/** Lines longer than 75 octets continue on the next line after a space */
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  const out: string[] = [];
+  let cur = "";
+  for (const ch of line) {
+    if (encoder.encode(cur + ch).length > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = "";
+    }
+    cur += ch;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+export function calendarFile(ev: CalendarEvent, now = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Rizz The Grid//Run windows//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${icsDate(ev.start)}-${Math.random().toString(36).slice(2, 10)}@rizzthegrid`,
+    `DTSTAMP:${icsDate(now)}`,
+    `DTSTART:${icsDate(ev.start)}`,
+    `DTEND:${icsDate(ev.end)}`,
+    `SUMMARY:${escapeText(ev.title)}`,
+    ...(ev.description ? [`DESCRIPTION:${escapeText(ev.description)}`] : []),
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
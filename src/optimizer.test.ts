@@ -0,0 +1,210 @@
+// src/optimizer.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  emissionsKg,
+  optimizeSchedule,
+  scheduleNow,
+  windowMask,
+  type Battery,
+} from "./optimizer";
+import { parseStateFile } from "./stateSchema";
+
+const files = import.meta.glob<string>(
+  "/src/states/*/{hourly_summary_14d,optimized_plan_14d,optimization_14d_summary}.csv",
+  { query: "?raw", import: "default", eager: true }
+);
+
+/** States that ship a plan and its summary (a few folders have neither) */
+const states = [...new Set(Object.keys(files).map((f) => f.split("/")[3]))]
+  .filter((s) => files[`/src/states/${s}/optimized_plan_14d.csv`] && files[`/src/states/${s}/optimization_14d_summary.csv`])
+  .sort();
+
+function shipped(state: string) {
+  const file = (name: string) => {
+    const source = `/src/states/${state}/${name}`;
+    return { text: files[source], source };
+  };
+  const summary = file("hourly_summary_14d.csv");
+  const plan = file("optimized_plan_14d.csv");
+  const result = file("optimization_14d_summary.csv");
+  return {
+    hourly: parseStateFile("hourlySummary", summary.text, summary.source),
+    plan: parseStateFile("optimizedPlan", plan.text, plan.source),
+    result: parseStateFile("optimizationSummary", result.text, result.source)[0],
+  };
+}
+
+/** The summary CSV rounds kg to 3 decimals */
+const expectKg = (actual: number, expected: number) => expect(Math.abs(actual - expected)).toBeLessThan(6e-4);
+
+describe("shipped optimized_plan_14d.csv", () => {
+  // The Python run planned one EV over the first UTC day of the forecast
+  // (23 hours: the data starts at 01:00) with a daily window in UTC.
+  it.each(states)("%s", (state) => {
+    const { hourly, plan, result } = shipped(state);
+    const day = hourly[0].timestamp_utc.slice(0, 10);
+    const horizon = hourly.filter((r) => r.timestamp_utc.startsWith(day));
+    const timestamps = horizon.map((r) => r.timestamp_utc);
+    const ci = horizon.map((r) => r.ci_g_per_kwh);
+    const ev = {
+      id: "ev",
+      energyKwh: result.device_kwh_total,
+      maxPowerKw: result.pmax_kw,
+      allowed: windowMask(timestamps, result.window_start, result.window_end),
+    };
+
+    const schedule = optimizeSchedule({ ci, devices: [ev] });
+    const kwh = schedule.devices[0].kwh;
+    expect(
+      timestamps.flatMap((ts, t) => (kwh[t] > 0 ? [{ timestamp_utc: ts, kwh: kwh[t] }] : []))
+    ).toEqual(plan.map((r) => ({ timestamp_utc: r.timestamp_utc, kwh: r.kwh })));
+    expectKg(schedule.emissionsKg, result.emissions_opt_kg);
+    expectKg(emissionsKg(ci, scheduleNow(ev, ci.length)), result.emissions_now_kg);
+  });
+});
+
+describe("windowMask", () => {
+  const day = Array.from({ length: 24 }, (_, h) => `2025-09-29 ${String(h).padStart(2, "0")}:00:00+00:00`);
+  const allowedHours = (start: string, end: string) =>
+    windowMask(day, start, end).flatMap((ok, h) => (ok ? [h] : []));
+
+  it("allows an hour only if it ends by the window's end", () => {
+    expect(allowedHours("09:00", "12:00")).toEqual([9, 10, 11]);
+    expect(allowedHours("09:00", "11:30")).toEqual([9, 10]);
+  });
+
+  it("wraps past midnight", () => {
+    expect(allowedHours("19:00", "07:00")).toEqual([0, 1, 2, 3, 4, 5, 6, 19, 20, 21, 22, 23]);
+  });
+
+  it("reads 23:59 as the end of the day", () => {
+    expect(allowedHours("00:00", "23:59")).toHaveLength(24);
+    expect(allowedHours("22:00", "23:59")).toEqual([22, 23]);
+  });
+});
+
+describe("contiguous devices", () => {
+  it("take the cheapest uninterrupted run, not the cleanest hours", () => {
+    const ci = [5, 1, 1, 9, 2, 2, 2];
+    const { devices } = optimizeSchedule({
+      ci,
+      devices: [{ id: "dw", energyKwh: 3, maxPowerKw: 1, contiguous: true }],
+    });
+    expect(devices[0].startIndex).toBe(4);
+    expect(devices[0].kwh).toEqual([0, 0, 0, 0, 1, 1, 1]);
+
+    const flexible = optimizeSchedule({ ci, devices: [{ id: "dw", energyKwh: 3, maxPowerKw: 1 }] });
+    expect(flexible.devices[0].kwh).toEqual([0, 1, 1, 0, 1, 0, 0]);
+  });
+
+  it("put the partial hour in the dirtiest hour of the run", () => {
+    const { devices } = optimizeSchedule({
+      ci: [3, 1, 2, 8],
+      devices: [{ id: "dw", energyKwh: 2.5, maxPowerKw: 1, contiguous: true }],
+    });
+    expect(devices[0].kwh).toEqual([0.5, 1, 1, 0]);
+  });
+
+  it("stay inside their window and report a run that does not fit as shortfall", () => {
+    const allowed = [false, true, true, false, true];
+    const fits = optimizeSchedule({
+      ci: [1, 5, 5, 1, 9],
+      devices: [{ id: "a", energyKwh: 2, maxPowerKw: 1, contiguous: true, allowed }],
+    });
+    expect(fits.devices[0].kwh).toEqual([0, 1, 1, 0, 0]);
+
+    const tooLong = optimizeSchedule({
+      ci: [1, 5, 5, 1, 9],
+      devices: [{ id: "a", energyKwh: 3, maxPowerKw: 1, contiguous: true, allowed }],
+    });
+    expect(tooLong.devices[0]).toMatchObject({ deliveredKwh: 0, shortfallKwh: 3 });
+  });
+});
+
+describe("battery", () => {
+  const battery: Battery = {
+    capacityKwh: 4,
+    maxChargeKw: 4,
+    maxDischargeKw: 4,
+    chargeEfficiency: 1,
+    dischargeEfficiency: 1,
+  };
+
+  it("charges in clean hours to serve load in dirty ones", () => {
+    const s = optimizeSchedule({ ci: [100, 500], devices: [], baseLoadKwh: [0, 2], battery, socSteps: 4 });
+    expect(s.battery?.chargeKwh).toEqual([2, 0]);
+    expect(s.battery?.dischargeKwh).toEqual([0, 2]);
+    expect(s.loadKwh).toEqual([2, 0]);
+    expect(s.emissionsKg).toBeCloseTo(0.2);
+  });
+
+  it("pays for charging losses", () => {
+    const s = optimizeSchedule({
+      ci: [100, 500],
+      devices: [],
+      baseLoadKwh: [0, 2],
+      battery: { ...battery, chargeEfficiency: 0.5 },
+      socSteps: 4,
+    });
+    expect(s.battery?.chargeKwh).toEqual([4, 0]);
+    expect(s.emissionsKg).toBeCloseTo(0.4);
+  });
+
+  it("never discharges more than the local load (no export)", () => {
+    const s = optimizeSchedule({
+      ci: [100, 500],
+      devices: [],
+      baseLoadKwh: [0, 1],
+      battery,
+      socSteps: 4,
+    });
+    expect(s.battery?.dischargeKwh).toEqual([0, 1]);
+    expect(Math.min(...s.loadKwh)).toBeGreaterThanOrEqual(0);
+  });
+
+  it("does not end below its starting charge", () => {
+    const s = optimizeSchedule({
+      ci: [500, 500],
+      devices: [],
+      baseLoadKwh: [2, 2],
+      battery: { ...battery, initialSocKwh: 4 },
+      socSteps: 4,
+    });
+    expect(s.battery?.socKwh[1]).toBe(4);
+  });
+});
+
+describe("grid cap", () => {
+  it("limits device power on top of the base load", () => {
+    const { devices, loadKwh } = optimizeSchedule({
+      ci: [1, 2, 3],
+      devices: [{ id: "ev", energyKwh: 3, maxPowerKw: 2 }],
+      baseLoadKwh: [1, 0, 0],
+      gridCapKw: 2,
+    });
+    expect(devices[0].kwh).toEqual([1, 2, 0]);
+    expect(Math.max(...loadKwh)).toBeLessThanOrEqual(2);
+  });
+
+  it("reports energy that cannot fit under the cap as shortfall", () => {
+    const { devices } = optimizeSchedule({
+      ci: [1, 2],
+      devices: [{ id: "ev", energyKwh: 5, maxPowerKw: 7 }],
+      gridCapKw: [2, 1],
+    });
+    expect(devices[0]).toMatchObject({ deliveredKwh: 3, shortfallKwh: 2 });
+  });
+
+  it("also limits battery charging", () => {
+    const s = optimizeSchedule({
+      ci: [100, 500],
+      devices: [],
+      baseLoadKwh: [2, 2],
+      gridCapKw: 2,
+      battery: { capacityKwh: 4, maxChargeKw: 4, maxDischargeKw: 4, chargeEfficiency: 1, dischargeEfficiency: 1 },
+      socSteps: 4,
+    });
+    expect(s.battery?.chargeKwh).toEqual([0, 0]);
+    expect(s.loadKwh).toEqual([2, 2]);
+  });
+});
@@ -0,0 +1,304 @@
+// src/optimizer.ts
+// Carbon-aware device + battery scheduler for the model described in
+// ReadMore.tsx. It solves that model in sequential steps rather than as one
+// joint LP (see optimizeSchedule). Hourly steps, so kW and kWh are
+// interchangeable per slot.
+
+export type Device = {
+  id: string;
+  /** E_i: energy required (kWh) */
+  energyKwh: number;
+  /** P_i: max power (kW) */
+  maxPowerKw: number;
+  /** W_i: allowed hours; omitted = every hour */
+  allowed?: boolean[];
+  /** Run as one uninterrupted block (the y_{i,t} case) */
+  contiguous?: boolean;
+};
+
+export type Battery = {
+  /** B^max */
+  capacityKwh: number;
+  /** P^ch_max (grid side) */
+  maxChargeKw: number;
+  /** P^dis_max (load side) */
+  maxDischargeKw: number;
+  /** η^ch, η^dis */
+  chargeEfficiency: number;
+  dischargeEfficiency: number;
+  initialSocKwh?: number;
+};
+
+export type OptimizeInput = {
+  /** c_t: carbon intensity per hour (g CO₂/kWh) */
+  ci: number[];
+  devices: Device[];
+  battery?: Battery;
+  /** Inflexible household load the battery may also serve (kWh per hour) */
+  baseLoadKwh?: number[];
+  /** C_t: optional grid import cap (kW), scalar or per hour */
+  gridCapKw?: number | number[];
+  /** SoC discretisation for the battery dynamic program */
+  socSteps?: number;
+};
+
+export type DeviceSchedule = {
+  id: string;
+  kwh: number[];
+  deliveredKwh: number;
+  /** Energy that could not be placed inside the window/caps */
+  shortfallKwh: number;
+  /** First hour of the run for contiguous devices */
+  startIndex?: number;
+};
+
+export type Schedule = {
+  devices: DeviceSchedule[];
+  battery?: { chargeKwh: number[]; dischargeKwh: number[]; socKwh: number[] };
+  /** L_t: net grid import per hour */
+  loadKwh: number[];
+  emissionsKg: number;
+};
+
+const EPS = 1e-9;
+
+/** Σ c_t L_t in kg (c_t in g/kWh) */
+export function emissionsKg(ci: number[], loadKwh: number[]): number {
+  let g = 0;
+  for (let t = 0; t < ci.length; t++) g += (ci[t] ?? 0) * (loadKwh[t] ?? 0);
+  return g / 1000;
+}
+
+/**
+ * Allowed-hour mask for a daily "HH:MM"–"HH:MM" window (wraps past midnight
+ * when end <= start). An hour is allowed only if it ends by the window's end,
+ * so 19:00–07:00 allows 06:00 but not 07:00; "23:59" means end of day.
+ * Hours are read in UTC unless `local` is set.
+ */
+export function windowMask(
+  timestamps: string[],
+  start: string,
+  end: string,
+  local = false
+): boolean[] {
+  const toMin = (s: string) => {
+    const [h, m] = s.split(":").map(Number);
+    return (h || 0) * 60 + (m || 0);
+  };
+  const a = toMin(start);
+  const b = end === "23:59" ? 24 * 60 : toMin(end);
+  return timestamps.map((ts) => {
+    const d = new Date(ts.replace(" ", "T"));
+    const m = local ? d.getHours() * 60 + d.getMinutes() : d.getUTCHours() * 60 + d.getUTCMinutes();
+    return a < b ? m >= a && m + 60 <= b : m >= a || m + 60 <= b;
+  });
+}
+
+function capSeries(cap: number | number[] | undefined, n: number): number[] {
+  if (cap == null) return new Array<number>(n).fill(Infinity);
+  if (typeof cap === "number") return new Array<number>(n).fill(cap);
+  return Array.from({ length: n }, (_, t) => cap[t] ?? Infinity);
+}
+
+/** Cheapest contiguous run for one device given remaining headroom */
+function placeContiguous(d: Device, ci: number[], headroom: number[]): DeviceSchedule {
+  const n = ci.length;
+  const kwh = new Array<number>(n).fill(0);
+  const p = d.maxPowerKw;
+  if (!(d.energyKwh > 0) || !(p > 0)) {
+    return { id: d.id, kwh, deliveredKwh: 0, shortfallKwh: Math.max(d.energyKwh, 0) };
+  }
+  const k = Math.ceil(d.energyKwh / p - EPS);
+  const rem = d.energyKwh - (k - 1) * p;
+
+  let best = { start: -1, cost: Infinity, partial: -1 };
+  for (let s = 0; s + k <= n; s++) {
+    let ok = true;
+    let sum = 0;
+    let worst = -1;
+    for (let t = s; t < s + k; t++) {
+      if ((d.allowed && !d.allowed[t]) || headroom[t] + EPS < p) { ok = false; break; }
+      sum += ci[t];
+      if (worst < 0 || ci[t] > ci[worst]) worst = t;
+    }
+    if (!ok) continue;
+    // The partial hour goes where it saves the most: the dirtiest hour of the run
+    const cost = p * sum - (p - rem) * ci[worst];
+    if (cost < best.cost - EPS) best = { start: s, cost, partial: worst };
+  }
+  if (best.start < 0) {
+    return { id: d.id, kwh, deliveredKwh: 0, shortfallKwh: d.energyKwh };
+  }
+  for (let t = best.start; t < best.start + k; t++) {
+    kwh[t] = t === best.partial ? rem : p;
+    headroom[t] -= kwh[t];
+  }
+  return { id: d.id, kwh, deliveredKwh: d.energyKwh, shortfallKwh: 0, startIndex: best.start };
+}
+
+/** Fill the cleanest allowed hours first (optimal for the LP relaxation of one device) */
+function placeFlexible(d: Device, ci: number[], headroom: number[]): DeviceSchedule {
+  const n = ci.length;
+  const kwh = new Array<number>(n).fill(0);
+  const order = Array.from({ length: n }, (_, t) => t)
+    .filter((t) => !d.allowed || d.allowed[t])
+    .sort((a, b) => ci[a] - ci[b] || a - b);
+  let left = Math.max(d.energyKwh, 0);
+  for (const t of order) {
+    if (left <= EPS) break;
+    const x = Math.min(d.maxPowerKw, headroom[t], left);
+    if (x <= EPS) continue;
+    kwh[t] = x;
+    headroom[t] -= x;
+    left -= x;
+  }
+  return {
+    id: d.id,
+    kwh,
+    deliveredKwh: Math.max(d.energyKwh, 0) - Math.max(left, 0),
+    shortfallKwh: Math.max(left, 0),
+  };
+}
+
+/**
+ * Battery dispatch by dynamic programming over a discretised SoC grid.
+ * Discharge only serves local load (no export) and charging respects C_t.
+ */
+function dispatchBattery(
+  b: Battery,
+  ci: number[],
+  demand: number[],
+  cap: number[],
+  steps: number
+): { chargeKwh: number[]; dischargeKwh: number[]; socKwh: number[] } {
+  const n = ci.length;
+  const levels = Math.max(2, Math.round(steps));
+  const dq = b.capacityKwh / levels;
+  const start = Math.round(clamp(b.initialSocKwh ?? 0, 0, b.capacityKwh) / dq);
+
+  // cost[t][s]: min future emissions from hour t at level s
+  const cost: Float64Array[] = Array.from({ length: n + 1 }, () => new Float64Array(levels + 1));
+  const next: Int32Array[] = Array.from({ length: n }, () => new Int32Array(levels + 1));
+  // Terminal: do not end below the starting SoC (no free energy from the initial charge)
+  for (let s = 0; s <= levels; s++) cost[n][s] = s >= start ? 0 : Infinity;
+
+  for (let t = n - 1; t >= 0; t--) {
+    for (let s = 0; s <= levels; s++) {
+      let bestCost = Infinity;
+      let bestNext = s;
+      for (let s2 = 0; s2 <= levels; s2++) {
+        const future = cost[t + 1][s2];
+        if (future === Infinity) continue;
+        const delta = (s2 - s) * dq;
+        let grid = demand[t];
+        if (delta > 0) {
+          const pch = delta / b.chargeEfficiency;
+          if (pch > b.maxChargeKw + EPS) continue;
+          grid += pch;
+        } else if (delta < 0) {
+          const pdis = -delta * b.dischargeEfficiency;
+          if (pdis > b.maxDischargeKw + EPS || pdis > demand[t] + EPS) continue;
+          grid -= pdis;
+        }
+        if (grid > cap[t] + EPS) continue;
+        const c = ci[t] * grid + future;
+        if (c < bestCost - EPS || (Math.abs(c - bestCost) <= EPS && s2 === s)) {
+          bestCost = c;
+          bestNext = s2;
+        }
+      }
+      cost[t][s] = bestCost;
+      next[t][s] = bestNext;
+    }
+  }
+
+  const chargeKwh = new Array<number>(n).fill(0);
+  const dischargeKwh = new Array<number>(n).fill(0);
+  const socKwh = new Array<number>(n).fill(0);
+  let s = start;
+  for (let t = 0; t < n; t++) {
+    const s2 = cost[t][s] === Infinity ? s : next[t][s];
+    const delta = (s2 - s) * dq;
+    if (delta > 0) chargeKwh[t] = delta / b.chargeEfficiency;
+    else if (delta < 0) dischargeKwh[t] = -delta * b.dischargeEfficiency;
+    socKwh[t] = s2 * dq;
+    s = s2;
+  }
+  return { chargeKwh, dischargeKwh, socKwh };
+}
+
+function clamp(n: number, a: number, b: number) { return Math.max(a, Math.min(b, n)); }
+
+/**
+ * Approximately min Σ c_t L_t subject to device energy/window/power limits,
+ * optional contiguity, battery dynamics and the grid cap C_t.
+ *
+ * This is not one joint minimization. It runs three steps in order, each
+ * optimal given the ones before it:
+ *  1. contiguous devices take their cheapest feasible run, one at a time;
+ *  2. flexible devices fill the cleanest remaining hours;
+ *  3. the battery DP shifts the resulting load.
+ * An earlier step never makes room for a later one. So under a tight grid cap
+ * the result can cost more than the joint optimum, or leave a device short.
+ */
+export function optimizeSchedule(input: OptimizeInput): Schedule {
+  const { ci, devices, battery } = input;
+  const n = ci.length;
+  const base = Array.from({ length: n }, (_, t) => Math.max(input.baseLoadKwh?.[t] ?? 0, 0));
+  const cap = capSeries(input.gridCapKw, n);
+  const headroom = cap.map((c, t) => c - base[t]);
+
+  // Least flexible first: contiguous runs, then by window size
+  const windowSize = (d: Device) => (d.allowed ? d.allowed.filter(Boolean).length : n);
+  const order = devices
+    .map((d, i) => ({ d, i }))
+    .sort((a, b) =>
+      Number(!!b.d.contiguous) - Number(!!a.d.contiguous) ||
+      windowSize(a.d) - windowSize(b.d) ||
+      a.i - b.i
+    );
+
+  const placed: DeviceSchedule[] = new Array(devices.length);
+  for (const { d, i } of order) {
+    placed[i] = d.contiguous ? placeContiguous(d, ci, headroom) : placeFlexible(d, ci, headroom);
+  }
+
+  const demand = base.map((v, t) => v + placed.reduce((s, p) => s + p.kwh[t], 0));
+
+  let batt: Schedule["battery"];
+  let loadKwh = demand;
+  if (battery && battery.capacityKwh > 0) {
+    const d = dispatchBattery(battery, ci, demand, cap, input.socSteps ?? 48);
+    loadKwh = demand.map((v, t) => v + d.chargeKwh[t] - d.dischargeKwh[t]);
+    batt = d;
+  }
+
+  return {
+    devices: placed,
+    battery: batt,
+    loadKwh,
+    emissionsKg: emissionsKg(ci, loadKwh),
+  };
+}
+
+/** "Charge now": run at full power from the first allowed hour until done */
+export function scheduleNow(d: Device, n: number): number[] {
+  const kwh = new Array<number>(n).fill(0);
+  let left = Math.max(d.energyKwh, 0);
+  for (let t = 0; t < n && left > EPS; t++) {
+    if (d.allowed && !d.allowed[t]) continue;
+    kwh[t] = Math.min(d.maxPowerKw, left);
+    left -= kwh[t];
+  }
+  return kwh;
+}
+
+/** "Even spread": the same energy in every allowed hour (capped at P_i) */
+export function scheduleEven(d: Device, n: number): number[] {
+  const hours = Array.from({ length: n }, (_, t) => t).filter((t) => !d.allowed || d.allowed[t]);
+  const kwh = new Array<number>(n).fill(0);
+  if (!hours.length) return kwh;
+  const per = Math.min(Math.max(d.energyKwh, 0) / hours.length, d.maxPowerKw);
+  for (const t of hours) kwh[t] = per;
+  return kwh;
+}
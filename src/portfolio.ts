@@ -0,0 +1,113 @@
+// src/portfolio.ts
+// Least-cost solar/wind build for a clean-share target, evaluated with the
+// hourly dispatch simulation (so night and calm hours count).
+import { simulateDispatch, type ExtraSource, type HourlyGrid, type Storage } from "./dispatch";
+
+export type PortfolioTech = {
+  mwPerUnit: number;
+  costPerUnit: number;
+  /** Hourly capacity-factor profile aligned to the grid */
+  cf: number[];
+  /** Search bound (units); pass the tech's maxUnits to make it a hard cap */
+  maxUnits: number;
+};
+
+export type PortfolioInput = {
+  grid: HourlyGrid;
+  solar: PortfolioTech;
+  wind: PortfolioTech;
+  /** Other new sources and storage, held fixed while the solar/wind mix is searched */
+  extra?: ExtraSource[];
+  storage?: Storage;
+};
+
+export type Mix = {
+  solarUnits: number;
+  windUnits: number;
+  cost: number;
+  /** Non-fossil share of demand over the window, % */
+  sharePct: number;
+};
+
+/** Non-fossil share (%) of demand for a given build */
+export function cleanShare(input: PortfolioInput, solarUnits: number, windUnits: number): number {
+  const { totals } = simulateDispatch({
+    grid: input.grid,
+    solarMW: solarUnits * input.solar.mwPerUnit,
+    windMW: windUnits * input.wind.mwPerUnit,
+    solarCf: input.solar.cf,
+    windCf: input.wind.cf,
+    extra: input.extra,
+    storage: input.storage,
+    cyclic: true,
+  });
+  return totals.demand > 0 ? ((totals.demand - totals.fossil) / totals.demand) * 100 : 0;
+}
+
+/** Float slack so "100%" counts when only rounding-level fossil remains */
+const SHARE_TOL = 1e-6;
+
+const costOf = (input: PortfolioInput, s: number, w: number) =>
+  s * input.solar.costPerUnit + w * input.wind.costPerUnit;
+
+/** Fewest wind units reaching `targetPct` alongside `s` solar units, or null */
+function minWind(input: PortfolioInput, s: number, targetPct: number): { w: number; share: number } | null {
+  const maxW = Math.max(0, Math.floor(input.wind.maxUnits));
+  const reaches = (share: number) => share >= targetPct - SHARE_TOL;
+  const top = cleanShare(input, s, maxW);
+  if (!reaches(top)) return null;
+  const share0 = cleanShare(input, s, 0);
+  if (reaches(share0)) return { w: 0, share: share0 };
+  let lo = 0, hi = maxW, shareHi = top;
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    const sh = cleanShare(input, s, mid);
+    if (reaches(sh)) { hi = mid; shareHi = sh; }
+    else lo = mid;
+  }
+  return { w: hi, share: shareHi };
+}
+
+/**
+ * Cheapest (cost-weighted) integer solar/wind build reaching `targetPct`.
+ * Share rises monotonically with either tech, so for each solar count the
+ * wind count is found by bisection; solar is scanned coarse-to-fine.
+ * Returns null when the target is out of reach within the bounds.
+ */
+export function cheapestMix(input: PortfolioInput, targetPct: number, coarseSteps = 60): Mix | null {
+  const maxS = Math.max(0, Math.floor(input.solar.maxUnits));
+  let best: Mix | null = null;
+
+  const consider = (s: number) => {
+    const hit = minWind(input, s, targetPct);
+    if (!hit) return;
+    const cost = costOf(input, s, hit.w);
+    if (!best || cost < best.cost) best = { solarUnits: s, windUnits: hit.w, cost, sharePct: hit.share };
+  };
+
+  const step = Math.max(1, Math.ceil(maxS / coarseSteps));
+  for (let s = 0; s <= maxS; s += step) consider(s);
+  if (maxS % step) consider(maxS);
+
+  const found = best as Mix | null;
+  if (found && step > 1) {
+    // Refine around the coarse optimum
+    const fine = Math.max(1, Math.ceil(step / coarseSteps));
+    const from = Math.max(0, found.solarUnits - step);
+    const to = Math.min(maxS, found.solarUnits + step);
+    for (let s = from; s <= to; s += fine) consider(s);
+  }
+  return best;
+}
+
+/** Least cost at evenly spaced clean-share targets (for a cost-vs-share curve) */
+export function costCurve(input: PortfolioInput, stepPct = 5, coarseSteps = 30): Mix[] {
+  const base = cleanShare(input, 0, 0);
+  const reach = cleanShare(input, input.solar.maxUnits, input.wind.maxUnits);
+  const points: Mix[] = [{ solarUnits: 0, windUnits: 0, cost: 0, sharePct: base }];
+  for (let t = Math.floor(base / stepPct) * stepPct + stepPct; t <= Math.min(reach, 100) + 1e-9; t += stepPct) {
+    const mix = cheapestMix(input, t, coarseSteps);
+    if (mix) points.push(mix);
+  }
+  return points;
+}
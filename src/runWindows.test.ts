@@ -0,0 +1,66 @@
+// src/runWindows.test.ts
+import { describe, expect, it } from "vitest";
+import { findRunWindows, hourIndexAt, type RunRequest } from "./runWindows";
+
+const run = (req: Partial<RunRequest>): RunRequest => ({
+  energyKwh: 2,
+  durationHours: 2,
+  fromIndex: 0,
+  toIndex: Infinity,
+  count: 3,
+  ...req,
+});
+
+describe("findRunWindows", () => {
+  const ci = [500, 100, 120, 600, 90, 95, 400, 300];
+
+  it("returns the cleanest windows first, none overlapping", () => {
+    const { windows } = findRunWindows(ci, run({}));
+    expect(windows.map((w) => w.start)).toEqual([4, 1, 6]);
+    expect(windows[0]).toEqual({ start: 4, hours: 2, avgCi: 92.5, kg: 0.185 });
+    for (const a of windows) {
+      for (const b of windows) {
+        if (a !== b) expect(a.start + a.hours <= b.start || b.start + b.hours <= a.start).toBe(true);
+      }
+    }
+  });
+
+  it("stops at count and keeps inside fromIndex..toIndex", () => {
+    expect(findRunWindows(ci, run({ count: 1 })).windows.map((w) => w.start)).toEqual([4]);
+    const { windows, now } = findRunWindows(ci, run({ fromIndex: 2, toIndex: 5 }));
+    expect(windows.map((w) => w.start)).toEqual([3]);
+    expect(now).toMatchObject({ start: 2, avgCi: 360 });
+  });
+
+  it("compares against starting now", () => {
+    expect(findRunWindows(ci, run({ fromIndex: 3 })).now).toMatchObject({ start: 3, avgCi: 345, kg: 0.69 });
+  });
+
+  it("reports a run that does not fit as now: null with no windows", () => {
+    expect(findRunWindows(ci, run({ fromIndex: 7 }))).toEqual({ windows: [], now: null });
+    expect(findRunWindows(ci, run({ durationHours: 9 }))).toEqual({ windows: [], now: null });
+  });
+
+  it("rounds the duration to whole hours, at least one", () => {
+    expect(findRunWindows(ci, run({ durationHours: 0.2, count: 1 })).windows).toEqual([
+      { start: 4, hours: 1, avgCi: 90, kg: 0.18 },
+    ]);
+  });
+});
+
+describe("hourIndexAt", () => {
+  const HOUR = 3_600_000;
+  const starts = [0, HOUR, 2 * HOUR];
+
+  it("finds the hour containing a time", () => {
+    expect(hourIndexAt(starts, 0)).toEqual({ index: 0, clamped: false });
+    expect(hourIndexAt(starts, HOUR + 1)).toEqual({ index: 1, clamped: false });
+    expect(hourIndexAt(starts, 3 * HOUR - 1)).toEqual({ index: 2, clamped: false });
+  });
+
+  it("clamps times outside the forecast to its first or last hour", () => {
+    expect(hourIndexAt(starts, -1)).toEqual({ index: 0, clamped: true });
+    expect(hourIndexAt(starts, 3 * HOUR)).toEqual({ index: 2, clamped: true });
+    expect(hourIndexAt([], 0)).toEqual({ index: 0, clamped: true });
+  });
+});
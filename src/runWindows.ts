@@ -0,0 +1,75 @@
+// src/runWindows.ts
+// "When should I run it?": the lowest-carbon uninterrupted windows for one
+// appliance run, from a state's hourly carbon intensity. The run's energy is
+// spread evenly over its hours, so its emissions are energy × average CI.
+
+export type RunRequest = {
+  /** Energy one run uses (kWh) */
+  energyKwh: number;
+  /** Whole hours the run takes */
+  durationHours: number;
+  /** Earliest hour the run may start ("now") */
+  fromIndex: number;
+  /** Hours before this index; the run must finish by the start of it */
+  toIndex: number;
+  /** How many windows to return */
+  count: number;
+};
+
+export type RunWindow = {
+  /** Index of the first hour */
+  start: number;
+  hours: number;
+  /** Average carbon intensity over the run (g CO₂/kWh) */
+  avgCi: number;
+  /** Emissions of the run (kg CO₂) */
+  kg: number;
+};
+
+export type RunWindows = {
+  /** Best first; they never overlap, so each is a real alternative */
+  windows: RunWindow[];
+  /** Starting at `fromIndex`; null when the run doesn't fit at all */
+  now: RunWindow | null;
+};
+
+/**
+ * Forecast hour containing `at`, clamped to the forecast. `clamped` says the
+ * time fell outside it, as it does once the bundled 14-day snapshot is past.
+ */
+export function hourIndexAt(startsMs: number[], at: number): { index: number; clamped: boolean } {
+  if (!startsMs.length) return { index: 0, clamped: true };
+  const last = startsMs.length - 1;
+  if (at < startsMs[0]) return { index: 0, clamped: true };
+  if (at >= startsMs[last] + 3_600_000) return { index: last, clamped: true };
+  let index = 0;
+  while (index < last && startsMs[index + 1] <= at) index++;
+  return { index, clamped: false };
+}
+
+export function findRunWindows(ci: number[], req: RunRequest): RunWindows {
+  const hours = Math.max(1, Math.round(req.durationHours));
+  const from = Math.max(0, req.fromIndex);
+  const to = Math.min(ci.length, req.toIndex);
+
+  const prefix = [0];
+  ci.forEach((c, t) => prefix.push(prefix[t] + c));
+  const at = (start: number): RunWindow => {
+    const avgCi = (prefix[start + hours] - prefix[start]) / hours;
+    return { start, hours, avgCi, kg: (req.energyKwh * avgCi) / 1000 };
+  };
+
+  const candidates: RunWindow[] = [];
+  for (let s = from; s + hours <= to; s++) candidates.push(at(s));
+  candidates.sort((a, b) => a.avgCi - b.avgCi || a.start - b.start);
+
+  // Shifting the best window by an hour is rarely a useful alternative
+  const windows: RunWindow[] = [];
+  for (const w of candidates) {
+    if (windows.length >= req.count) break;
+    if (windows.some((p) => w.start < p.start + hours && p.start < w.start + hours)) continue;
+    windows.push(w);
+  }
+
+  return { windows, now: from + hours <= to ? at(from) : null };
+}
@@ -0,0 +1,72 @@
+// src/scenarios.test.ts
+import { describe, expect, it } from "vitest";
+import { exportScenarios, parseScenarioFile, type Scenario } from "./scenarios";
+import { SchemaError } from "./stateSchema";
+import { TECH_PRESETS } from "./techSpecs";
+
+const scenario: Scenario = {
+  id: "s1",
+  name: "Geothermal build",
+  state: "Nevada",
+  savedAt: "2025-10-05T00:00:00Z",
+  params: { solar: "20" },
+  customTechs: [{ ...TECH_PRESETS[0], id: "geo", color: "#f97316" }],
+  metrics: {
+    sharePct: 80,
+    unmetMWhPerDay: 100,
+    unmetHours: 4,
+    surplusMWhPerDay: 20,
+    cost: 1e9,
+    co2TonsPerYear: 5000,
+    lcoe: 70,
+  },
+};
+
+/** The file with the first scenario's custom techs replaced */
+const withTechs = (customTechs: unknown[]) =>
+  JSON.stringify({ version: 1, scenarios: [{ ...scenario, customTechs }] });
+
+const issuesOf = (text: string) => {
+  try {
+    parseScenarioFile(text);
+  } catch (e) {
+    if (e instanceof SchemaError) return e.issues.map((i) => i.message);
+    throw e;
+  }
+  return [];
+};
+
+describe("parseScenarioFile", () => {
+  it("round-trips an exported file", () => {
+    expect(parseScenarioFile(exportScenarios([scenario]))).toEqual([scenario]);
+  });
+
+  it("fills in financing fields missing from older custom techs", () => {
+    const old: Record<string, unknown> = { ...scenario.customTechs[0] };
+    delete old.omRate;
+    delete old.lifetimeYears;
+    const [parsed] = parseScenarioFile(withTechs([old]));
+    expect(parsed.customTechs[0]).toMatchObject({ omRate: 0.02, lifetimeYears: 25 });
+  });
+
+  it("rejects custom techs that are not objects", () => {
+    expect(issuesOf(withTechs([1]))).toEqual(["scenario 1: customTechs[0]: not an object"]);
+  });
+
+  it("names each missing or malformed field", () => {
+    const [message] = issuesOf(withTechs([{}]));
+    for (const field of ["id", "name", "unitName", "color", "profile", "mwPerUnit", "capacityFactor", "maxUnits"]) {
+      expect(message).toContain(field);
+    }
+    expect(issuesOf(withTechs([{ ...scenario.customTechs[0], profile: "tidal", discountRate: "7%" }]))).toEqual([
+      "scenario 1: customTechs[0]: profile must be one of firm, solar, wind, discountRate must be a number",
+    ]);
+  });
+
+  it("rejects a capacity factor above 1", () => {
+    expect(issuesOf(withTechs([{ ...scenario.customTechs[0], capacityFactor: 5 }]))).toEqual([
+      "scenario 1: customTechs[0]: capacityFactor must be at most 1",
+    ]);
+    expect(issuesOf(withTechs([{ ...scenario.customTechs[0], capacityFactor: 1 }]))).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+// src/scenarios.ts
+// Named planner scenarios: the planner's URL parameters and custom techs plus
+// a snapshot of the headline results, kept in localStorage and exportable as JSON.
+import { SchemaError, type SchemaIssue } from "./stateSchema";
+import { customTechProblems, withFinanceDefaults, type CustomTech } from "./techSpecs";
+import { QUERY_KEYS } from "./useQueryState";
+
+/** Headline results as computed when the scenario was saved */
+export type ScenarioMetrics = {
+  /** Hourly non-fossil share, % */
+  sharePct: number;
+  /** Fossil still needed (MWh/day) and the hours it runs in */
+  unmetMWhPerDay: number;
+  unmetHours: number;
+  /** Curtailed new generation, MWh/day */
+  surplusMWhPerDay: number;
+  cost: number;
+  /** null without a state's emissions data */
+  co2TonsPerYear: number | null;
+  lcoe: number | null;
+};
+
+export type Scenario = {
+  id: string;
+  name: string;
+  state: string | null;
+  savedAt: string;
+  /** Planner query parameters (units, spec overrides, carbon price) */
+  params: Record<string, string>;
+  customTechs: CustomTech[];
+  metrics: ScenarioMetrics;
+};
+
+const STORAGE_KEY = "rizz.planner.scenarios";
+const FILE_VERSION = 1;
+
+const PLANNER_KEYS = new Set<string>([
+  QUERY_KEYS.solarUnits,
+  QUERY_KEYS.windUnits,
+  QUERY_KEYS.storageUnits,
+  QUERY_KEYS.carbonPrice,
+]);
+const PLANNER_PREFIXES = [
+  `${QUERY_KEYS.solarUnits}_`,
+  `${QUERY_KEYS.windUnits}_`,
+  `${QUERY_KEYS.storageUnits}_`,
+  QUERY_KEYS.techUnitsPrefix,
+];
+
+/** Whether a query parameter belongs to the renewables planner */
+export function isPlannerParam(key: string): boolean {
+  return PLANNER_KEYS.has(key) || PLANNER_PREFIXES.some((p) => key.startsWith(p));
+}
+
+export function plannerParams(params: URLSearchParams): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of params) if (isPlannerParam(k)) out[k] = v;
+  return out;
+}
+
+export function loadScenarios(): Scenario[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseScenarios(JSON.parse(raw), "saved scenarios") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveScenarios(list: Scenario[]) {
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(list)); } catch { /* storage full or disabled */ }
+}
+
+export function exportScenarios(list: Scenario[]): string {
+  return JSON.stringify({ version: FILE_VERSION, scenarios: list }, null, 2);
+}
+
+/** Parse an exported file (or a bare array); throws SchemaError listing what's wrong */
+export function parseScenarioFile(text: string, source = "scenario file"): Scenario[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new SchemaError(source, [{ source, message: `not valid JSON (${(e as Error).message})` }]);
+  }
+  return parseScenarios(json, source);
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v != null && !Array.isArray(v);
+const isNumOrNull = (v: unknown) => v === null || typeof v === "number";
+
+const METRIC_FIELDS: (keyof ScenarioMetrics)[] = ["sharePct", "unmetMWhPerDay", "unmetHours", "surplusMWhPerDay", "cost"];
+
+function parseScenarios(json: unknown, source: string): Scenario[] {
+  const list = isRecord(json) ? json.scenarios : json;
+  if (!Array.isArray(list)) {
+    throw new SchemaError(source, [{ source, message: "expected a list of scenarios" }]);
+  }
+  const issues: SchemaIssue[] = [];
+  const out: Scenario[] = [];
+  list.forEach((item, i) => {
+    const at = (message: string) => issues.push({ source, message: `scenario ${i + 1}: ${message}`, row: i + 1 });
+    if (!isRecord(item)) return at("not an object");
+    const { id, name, state, savedAt, params, customTechs, metrics } = item;
+    if (typeof name !== "string" || !name.trim()) return at("missing name");
+    if (state != null && typeof state !== "string") return at("state must be a string");
+    if (!isRecord(params) || Object.values(params).some((v) => typeof v !== "string")) {
+      return at("params must map names to strings");
+    }
+    if (customTechs != null && !Array.isArray(customTechs)) return at("customTechs must be a list");
+    const techProblems = (customTechs ?? []).flatMap((t: unknown, j: number) => {
+      const problems = customTechProblems(t);
+      return problems.length ? [`customTechs[${j}]: ${problems.join(", ")}`] : [];
+    });
+    if (techProblems.length) return at(techProblems.join("; "));
+    if (
+      !isRecord(metrics) ||
+      METRIC_FIELDS.some((f) => typeof metrics[f] !== "number") ||
+      !isNumOrNull(metrics.co2TonsPerYear ?? null) ||
+      !isNumOrNull(metrics.lcoe ?? null)
+    ) {
+      return at("metrics are missing or not numbers");
+    }
+    out.push({
+      id: typeof id === "string" && id ? id : `s${i}`,
+      name: name.trim(),
+      state: state ?? null,
+      savedAt: typeof savedAt === "string" ? savedAt : "",
+      params: Object.fromEntries(Object.entries(params).filter(([k]) => isPlannerParam(k))) as Record<string, string>,
+      customTechs: ((customTechs ?? []) as CustomTech[]).map(withFinanceDefaults),
+      metrics: {
+        ...(metrics as ScenarioMetrics),
+        co2TonsPerYear: (metrics.co2TonsPerYear as number | null | undefined) ?? null,
+        lcoe: (metrics.lcoe as number | null | undefined) ?? null,
+      },
+    });
+  });
+  if (issues.length) throw new SchemaError(source, issues);
+  return out;
+}
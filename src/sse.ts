@@ -0,0 +1,45 @@
+// src/sse.ts
+// Minimal server-sent-events reader over a fetch() body. Used by the
+// dashboard to read streamed summaries and by the API server to read
+// streaming model responses; both runtimes provide ReadableStream/TextDecoder.
+
+export type SseEvent = { event: string; data: string };
+
+/** Parse one event block (the lines between blank lines) */
+function parseBlock(block: string): SseEvent | null {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) continue;
+    const colon = line.indexOf(":");
+    const field = colon < 0 ? line : line.slice(0, colon);
+    const value = colon < 0 ? "" : line.slice(colon + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+  }
+  return data.length ? { event, data: data.join("\n") } : null;
+}
+
+/** Yield events as they arrive; ends when the stream closes */
+export async function* readSse(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finished = false;
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      finished = done;
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : blocks.pop() ?? "";
+      for (const block of blocks) {
+        const ev = parseBlock(block);
+        if (ev) yield ev;
+      }
+    }
+  } finally {
+    // The consumer stopped early: drop the rest of the body
+    if (!finished) await reader.cancel().catch(() => {});
+  }
+}
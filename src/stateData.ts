@@ -0,0 +1,109 @@
+// src/stateData.ts
+// Data-access layer: fetches state-folder files and the national CSVs through
+// Vite asset URLs, validates them with stateSchema.ts and caches the result.
+import {
+  NATIONAL_FILES,
+  STATE_FILES,
+  SchemaError,
+  parseNationalFile,
+  parseStateFile,
+  type NationalData,
+  type NationalKind,
+  type StateFileData,
+  type StateFileKind,
+} from "./stateSchema";
+
+import stateImpactCsvUrl from "./data/energy_weighted_reduction_oct1_state.csv?url";
+import fuelBreakdownCsvUrl from "./data/statewide_fuel_breakdown.csv?url";
+
+// Every file under src/states/*/ (lazy: only the URL module is loaded on demand)
+const stateFileUrls = import.meta.glob<string>(
+  "/src/states/*/*.{json,csv,txt}",
+  { query: "?url", import: "default" }
+);
+
+const NATIONAL_URLS: Record<NationalKind, string> = {
+  stateImpact: stateImpactCsvUrl,
+  fuelBreakdown: fuelBreakdownCsvUrl,
+};
+
+/** Raised when a state folder lacks the requested file */
+export class MissingFileError extends Error {
+  readonly source: string;
+  constructor(source: string) {
+    super(`${source} not found`);
+    this.name = "MissingFileError";
+    this.source = source;
+  }
+}
+
+export { SchemaError };
+
+/** State folder names present in src/states, sorted */
+export const STATE_NAMES: string[] = [
+  ...new Set(Object.keys(stateFileUrls).map((p) => p.split("/")[3])),
+].sort();
+
+export function hasStateFile(state: string, kind: StateFileKind): boolean {
+  return `/src/states/${state}/${STATE_FILES[kind]}` in stateFileUrls;
+}
+
+async function fetchText(url: string, source: string): Promise<string> {
+  const resp = await fetch(url);
+  if (!resp.ok) {
+    if (resp.status === 404) throw new MissingFileError(source);
+    throw new Error(`${source}: HTTP ${resp.status}`);
+  }
+  return resp.text();
+}
+
+// Promise cache; failed loads are evicted so a later call can retry
+const cache = new Map<string, Promise<unknown>>();
+const settled = new Map<string, unknown>();
+
+function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+  let p = cache.get(key) as Promise<T> | undefined;
+  if (!p) {
+    p = load().then(
+      (v) => { settled.set(key, v); return v; },
+      (e) => { cache.delete(key); throw e; }
+    );
+    cache.set(key, p);
+  }
+  return p;
+}
+
+export const stateKey = (state: string, kind: StateFileKind) => `state/${state}/${kind}`;
+export const nationalKey = (kind: NationalKind) => `national/${kind}`;
+
+/** Synchronous read of an already-loaded dataset (avoids a loading flash) */
+export function peekCached<T>(key: string): T | undefined {
+  return settled.get(key) as T | undefined;
+}
+
+export function loadStateFile<K extends StateFileKind>(state: string, kind: K): Promise<StateFileData[K]> {
+  return cached(stateKey(state, kind), async () => {
+    const path = `/src/states/${state}/${STATE_FILES[kind]}`;
+    const source = `${state}/${STATE_FILES[kind]}`;
+    const loadUrl = stateFileUrls[path];
+    if (!loadUrl) throw new MissingFileError(source);
+    const text = await fetchText(await loadUrl(), source);
+    return parseStateFile(kind, text, source);
+  });
+}
+
+export function loadNational<K extends NationalKind>(kind: K): Promise<NationalData[K]> {
+  return cached(nationalKey(kind), async () => {
+    const source = NATIONAL_FILES[kind];
+    const text = await fetchText(NATIONAL_URLS[kind], source);
+    return parseNationalFile(kind, text, source);
+  });
+}
+
+/** Resolve a cache key produced by stateKey/nationalKey */
+export function loadByKey(key: string): Promise<unknown> {
+  const parts = key.split("/");
+  if (parts[0] === "national") return loadNational(parts[1] as NationalKind);
+  if (parts[0] === "state") return loadStateFile(parts[1], parts[2] as StateFileKind);
+  return Promise.reject(new Error(`Unknown dataset key ${key}`));
+}
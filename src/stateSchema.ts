@@ -0,0 +1,489 @@
+// src/stateSchema.ts
+// Typed records + validation for every file in src/states/<State>/ and the
+// national CSVs in src/data/. Pure parsing only (no Vite/DOM), so the API
+// server can share it.
+
+/* ------------------------------------------------------------------ */
+/* Errors                                                             */
+/* ------------------------------------------------------------------ */
+
+export type SchemaIssue = {
+  source: string;
+  message: string;
+  column?: string;
+  /** 1-based data row (header excluded) */
+  row?: number;
+};
+
+/** Thrown when a file is missing required columns or has malformed values */
+export class SchemaError extends Error {
+  readonly source: string;
+  readonly issues: SchemaIssue[];
+  constructor(source: string, issues: SchemaIssue[]) {
+    const head = issues.slice(0, 3).map((i) => i.message).join("; ");
+    const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : "";
+    super(`${source}: ${head}${more}`);
+    this.name = "SchemaError";
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* CSV primitives                                                     */
+/* ------------------------------------------------------------------ */
+
+/** Split one CSV line, honouring quoted fields ("" escapes a quote) */
+export function splitCSVLine(line: string): string[] {
+  const out: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      out.push(cell);
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  out.push(cell);
+  return out;
+}
+
+/** Untyped CSV → header-keyed rows */
+export function parseCSV(text: string): Record<string, string>[] {
+  const lines = text.trim().split(/\r?\n/);
+  if (!lines.length || !lines[0]) return [];
+  const headers = splitCSVLine(lines[0]).map((h) => h.trim());
+  return lines.slice(1).filter(Boolean).map((line) => {
+    const cells = splitCSVLine(line);
+    const obj: Record<string, string> = {};
+    headers.forEach((h, i) => { obj[h] = (cells[i] ?? "").trim(); });
+    return obj;
+  });
+}
+
+/** Lenient number parse ("$1,234", "12%"); null when not a finite number */
+export function toNumber(x: string | undefined | null): number | null {
+  if (x == null || String(x).trim() === "") return null;
+  const n = Number(String(x).replace(/[$,%\s]/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+export function normalizeStateName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/* ------------------------------------------------------------------ */
+/* Typed tables                                                       */
+/* ------------------------------------------------------------------ */
+
+/** "number?" reads blank or non-finite cells ("inf", "nan") as null instead of rejecting the file */
+type ColumnType = "number" | "number?" | "string";
+type Schema<T> = { [K in keyof T]: ColumnType };
+
+/**
+ * Parse a CSV against a column schema. Missing columns and non-numeric
+ * values in "number" columns are collected and thrown as one SchemaError.
+ * `renames` maps raw header → schema key (e.g. pandas' unnamed index "").
+ */
+export function parseTable<T>(
+  text: string,
+  schema: Schema<T>,
+  source: string,
+  renames: Record<string, string> = {}
+): T[] {
+  const rows = parseCSV(text);
+  const issues: SchemaIssue[] = [];
+  const headerLine = text.trim().split(/\r?\n/)[0] ?? "";
+  const headers = new Set(splitCSVLine(headerLine).map((h) => renames[h.trim()] ?? h.trim()));
+  const columns = Object.keys(schema) as (keyof T & string)[];
+
+  for (const c of columns) {
+    if (!headers.has(c)) issues.push({ source, column: c, message: `missing column "${c}"` });
+  }
+  if (issues.length) throw new SchemaError(source, issues);
+
+  const out = rows.map((raw, r) => {
+    const rec = {} as Record<string, string | number | null>;
+    for (const [from, to] of Object.entries(renames)) {
+      if (from in raw) raw[to] = raw[from];
+    }
+    for (const c of columns) {
+      const cell = raw[c] ?? "";
+      if (schema[c] === "number") {
+        const n = toNumber(cell);
+        if (n == null) {
+          issues.push({ source, column: c, row: r + 1, message: `row ${r + 1}: "${c}" is not a number (${JSON.stringify(cell)})` });
+        }
+        rec[c] = n ?? NaN;
+      } else if (schema[c] === "number?") {
+        rec[c] = toNumber(cell);
+      } else {
+        rec[c] = cell;
+      }
+    }
+    return rec as T;
+  });
+  if (issues.length) throw new SchemaError(source, issues);
+  return out;
+}
+
+/* ---------- national: src/data ---------- */
+
+export type StateImpactRow = {
+  state: string;
+  avg_fossil_share_baseline_pct: number;
+  avg_fossil_share_opt_pct: number;
+  fossil_share_reduction_pct_points: number;
+  state_fossil_kwh_saved: number;
+  state_co2_saved_tons: number;
+  co2_cost_saved_usd: number;
+  hours_considered: number;
+  hours_original: number;
+};
+const STATE_IMPACT_SCHEMA: Schema<StateImpactRow> = {
+  state: "string",
+  avg_fossil_share_baseline_pct: "number",
+  avg_fossil_share_opt_pct: "number",
+  fossil_share_reduction_pct_points: "number",
+  state_fossil_kwh_saved: "number",
+  state_co2_saved_tons: "number",
+  co2_cost_saved_usd: "number",
+  hours_considered: "number",
+  hours_original: "number",
+};
+
+export type FuelBreakdownRow = {
+  state: string;
+  fossil_mwh: number;
+  solar_mwh: number;
+  wind_mwh: number;
+  other_mwh: number;
+};
+const FUEL_BREAKDOWN_SCHEMA: Schema<FuelBreakdownRow> = {
+  state: "string",
+  fossil_mwh: "number",
+  solar_mwh: "number",
+  wind_mwh: "number",
+  other_mwh: "number",
+};
+
+/* ---------- per state: src/states/<State> ---------- */
+
+export type HourlySummaryRow = {
+  timestamp_utc: string;
+  total_mwh: number;
+  fossil_mwh: number;
+  renewable_mwh: number;
+  nuclear_mwh: number;
+  /** null where the export wrote "inf" (whole files for a few PJM/SPP states) */
+  total_emissions_kg_co2: number | null;
+  fossil_share: number;
+  renewable_share: number;
+  clean_share: number;
+  ci_g_per_kwh: number;
+  state: string;
+  respondent: string;
+};
+const HOURLY_SUMMARY_SCHEMA: Schema<HourlySummaryRow> = {
+  timestamp_utc: "string",
+  total_mwh: "number",
+  fossil_mwh: "number",
+  renewable_mwh: "number",
+  nuclear_mwh: "number",
+  total_emissions_kg_co2: "number?",
+  fossil_share: "number",
+  renewable_share: "number",
+  clean_share: "number",
+  ci_g_per_kwh: "number",
+  state: "string",
+  respondent: "string",
+};
+
+export type HourlyFuelRow = {
+  timestamp_utc: string;
+  state: string;
+  fueltype: string;
+  fuel_name: string;
+  forecast_mwh: number;
+  share: number;
+  /** null where the export wrote "inf" */
+  emissions_kg_co2: number | null;
+  respondent: string;
+};
+const HOURLY_FUEL_SCHEMA: Schema<HourlyFuelRow> = {
+  timestamp_utc: "string",
+  state: "string",
+  fueltype: "string",
+  fuel_name: "string",
+  forecast_mwh: "number",
+  share: "number",
+  emissions_kg_co2: "number?",
+  respondent: "string",
+};
+
+export type BatteryEvRow = {
+  timestamp_utc: string;
+  load_kwh: number;
+  pv_kwh: number;
+  ev_baseline_kwh: number;
+  ev_opt_kwh: number;
+  charge_kwh: number;
+  discharge_kwh: number;
+  soc_kwh: number;
+  grid_import_baseline_kwh: number;
+  grid_import_opt_kwh: number;
+  emissions_baseline_kg: number;
+  emissions_opt_kg: number;
+  fossil_kwh_baseline: number;
+  fossil_kwh_opt: number;
+};
+const BATTERY_EV_SCHEMA: Schema<BatteryEvRow> = {
+  timestamp_utc: "string",
+  load_kwh: "number",
+  pv_kwh: "number",
+  ev_baseline_kwh: "number",
+  ev_opt_kwh: "number",
+  charge_kwh: "number",
+  discharge_kwh: "number",
+  soc_kwh: "number",
+  grid_import_baseline_kwh: "number",
+  grid_import_opt_kwh: "number",
+  emissions_baseline_kg: "number",
+  emissions_opt_kg: "number",
+  fossil_kwh_baseline: "number",
+  fossil_kwh_opt: "number",
+};
+
+export type OptimizationSummaryRow = {
+  state: string;
+  device_kwh_total: number;
+  pmax_kw: number;
+  window_start: string;
+  window_end: string;
+  emissions_opt_kg: number;
+  emissions_even_kg: number;
+  emissions_now_kg: number;
+  saved_vs_even_kg: number;
+  saved_vs_now_kg: number;
+  fossil_share_opt: number;
+  fossil_share_even: number;
+  fossil_share_now: number;
+  social_cost_saved_usd: number;
+};
+const OPTIMIZATION_SUMMARY_SCHEMA: Schema<OptimizationSummaryRow> = {
+  state: "string",
+  device_kwh_total: "number",
+  pmax_kw: "number",
+  window_start: "string",
+  window_end: "string",
+  emissions_opt_kg: "number",
+  emissions_even_kg: "number",
+  emissions_now_kg: "number",
+  saved_vs_even_kg: "number",
+  saved_vs_now_kg: "number",
+  fossil_share_opt: "number",
+  fossil_share_even: "number",
+  fossil_share_now: "number",
+  social_cost_saved_usd: "number",
+};
+
+export type OptimizedPlanRow = { timestamp_utc: string; kwh: number };
+const OPTIMIZED_PLAN_SCHEMA: Schema<OptimizedPlanRow> = {
+  timestamp_utc: "string",
+  kwh: "number",
+};
+
+/** src/states/<State>/frontend_14d.json */
+export type FrontendSeries = {
+  state: string;
+  respondent: string;
+  timestamps: string[];
+  ci_g_per_kwh: number[];
+  total_mwh: number[];
+  shares: { fossil: number[]; renewable: number[]; clean: number[] };
+  fuels: Record<string, number[]>;
+};
+
+/** src/states/<State>/frontend_opt_14d.json */
+export type OptSeries = {
+  timestamps: string[];
+  grid_baseline_kwh: number[];
+  grid_opt_kwh: number[];
+  emissions_baseline_kg: number[];
+  emissions_opt_kg: number[];
+  fossil_kwh_baseline: number[];
+  fossil_kwh_opt: number[];
+  batt: { charge_kwh: number[]; discharge_kwh: number[]; soc_kwh: number[] };
+  ev: { baseline_kwh: number[]; opt_kwh: number[] };
+};
+
+export type Manifest = {
+  state: string;
+  respondent: string;
+  files: Record<string, string>;
+  generated_utc: string;
+};
+
+/* ------------------------------------------------------------------ */
+/* JSON validation                                                    */
+/* ------------------------------------------------------------------ */
+
+function get(obj: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (o, k) => (o && typeof o === "object" ? (o as Record<string, unknown>)[k] : undefined),
+    obj
+  );
+}
+
+/** Every listed path must be a numeric array as long as `timestamps` */
+function checkSeries(json: unknown, paths: string[], source: string): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const ts = get(json, "timestamps");
+  if (!Array.isArray(ts) || !ts.every((t) => typeof t === "string")) {
+    return [{ source, column: "timestamps", message: `"timestamps" must be an array of strings` }];
+  }
+  for (const p of paths) {
+    const v = get(json, p);
+    if (!Array.isArray(v)) {
+      issues.push({ source, column: p, message: `missing series "${p}"` });
+    } else if (v.length !== ts.length) {
+      issues.push({ source, column: p, message: `"${p}" has ${v.length} values, expected ${ts.length}` });
+    } else {
+      const bad = v.findIndex((x) => typeof x !== "number" || !Number.isFinite(x));
+      if (bad >= 0) issues.push({ source, column: p, row: bad + 1, message: `"${p}"[${bad}] is not a number` });
+    }
+  }
+  return issues;
+}
+
+export function validateFrontendSeries(json: unknown, source: string): FrontendSeries {
+  const fuels = get(json, "fuels");
+  const fuelPaths =
+    fuels && typeof fuels === "object" ? Object.keys(fuels).map((k) => `fuels.${k}`) : [];
+  const issues = checkSeries(
+    json,
+    ["ci_g_per_kwh", "total_mwh", "shares.fossil", "shares.renewable", "shares.clean", ...fuelPaths],
+    source
+  );
+  if (!fuelPaths.length) issues.push({ source, column: "fuels", message: `missing "fuels"` });
+  if (issues.length) throw new SchemaError(source, issues);
+  return json as FrontendSeries;
+}
+
+export function validateOptSeries(json: unknown, source: string): OptSeries {
+  const issues = checkSeries(
+    json,
+    [
+      "grid_baseline_kwh", "grid_opt_kwh",
+      "emissions_baseline_kg", "emissions_opt_kg",
+      "fossil_kwh_baseline", "fossil_kwh_opt",
+      "batt.charge_kwh", "batt.discharge_kwh", "batt.soc_kwh",
+      "ev.baseline_kwh", "ev.opt_kwh",
+    ],
+    source
+  );
+  if (issues.length) throw new SchemaError(source, issues);
+  return json as OptSeries;
+}
+
+export function validateManifest(json: unknown, source: string): Manifest {
+  const issues: SchemaIssue[] = [];
+  for (const k of ["state", "respondent", "generated_utc"]) {
+    if (typeof get(json, k) !== "string") issues.push({ source, column: k, message: `"${k}" must be a string` });
+  }
+  if (issues.length) throw new SchemaError(source, issues);
+  return json as Manifest;
+}
+
+/* ------------------------------------------------------------------ */
+/* File registry                                                      */
+/* ------------------------------------------------------------------ */
+
+export type StateFileData = {
+  frontend: FrontendSeries;
+  frontendOpt: OptSeries;
+  hourlySummary: HourlySummaryRow[];
+  hourlyFuel: HourlyFuelRow[];
+  batteryEv: BatteryEvRow[];
+  optimizationSummary: OptimizationSummaryRow[];
+  optimizedPlan: OptimizedPlanRow[];
+  manifest: Manifest;
+  fossilReductionPercent: number;
+};
+export type StateFileKind = keyof StateFileData;
+
+export type NationalData = {
+  stateImpact: StateImpactRow[];
+  fuelBreakdown: FuelBreakdownRow[];
+};
+export type NationalKind = keyof NationalData;
+
+/** File name of each kind inside a state folder */
+export const STATE_FILES: Record<StateFileKind, string> = {
+  frontend: "frontend_14d.json",
+  frontendOpt: "frontend_opt_14d.json",
+  hourlySummary: "hourly_summary_14d.csv",
+  hourlyFuel: "hourly_fuel_forecast_14d.csv",
+  batteryEv: "battery_ev_schedule_14d.csv",
+  optimizationSummary: "optimization_14d_summary.csv",
+  optimizedPlan: "optimized_plan_14d.csv",
+  manifest: "MANIFEST.json",
+  fossilReductionPercent: "fossil_reduction_percent_14d.txt",
+};
+
+export const NATIONAL_FILES: Record<NationalKind, string> = {
+  stateImpact: "energy_weighted_reduction_oct1_state.csv",
+  fuelBreakdown: "statewide_fuel_breakdown.csv",
+};
+
+/** Parse raw file text of a given kind; throws SchemaError on bad content */
+export function parseStateFile<K extends StateFileKind>(kind: K, text: string, source: string): StateFileData[K] {
+  const json = () => {
+    try { return JSON.parse(text) as unknown; } catch {
+      throw new SchemaError(source, [{ source, message: "invalid JSON" }]);
+    }
+  };
+  const parsers: { [P in StateFileKind]: () => StateFileData[P] } = {
+    frontend: () => validateFrontendSeries(json(), source),
+    frontendOpt: () => validateOptSeries(json(), source),
+    hourlySummary: () => parseTable(text, HOURLY_SUMMARY_SCHEMA, source),
+    hourlyFuel: () => parseTable(text, HOURLY_FUEL_SCHEMA, source),
+    batteryEv: () => parseTable(text, BATTERY_EV_SCHEMA, source),
+    optimizationSummary: () => parseTable(text, OPTIMIZATION_SUMMARY_SCHEMA, source),
+    optimizedPlan: () => parseTable(text, OPTIMIZED_PLAN_SCHEMA, source, { "": "timestamp_utc" }),
+    manifest: () => validateManifest(json(), source),
+    fossilReductionPercent: () => {
+      const n = toNumber(text.trim());
+      if (n == null) throw new SchemaError(source, [{ source, message: "expected a single number" }]);
+      return n;
+    },
+  };
+  return parsers[kind]() as StateFileData[K];
+}
+
+export function parseNationalFile<K extends NationalKind>(kind: K, text: string, source: string): NationalData[K] {
+  const parsers: { [P in NationalKind]: () => NationalData[P] } = {
+    stateImpact: () => parseTable(text, STATE_IMPACT_SCHEMA, source),
+    fuelBreakdown: () => parseTable(text, FUEL_BREAKDOWN_SCHEMA, source),
+  };
+  return parsers[kind]() as NationalData[K];
+}
+
+/** Index rows with a `state` column by normalized state name */
+export function indexByState<T extends { state: string }>(rows: T[]): Record<string, T> {
+  const map: Record<string, T> = {};
+  for (const r of rows) {
+    const key = normalizeStateName(r.state);
+    if (key) map[key] = r;
+  }
+  return map;
+}
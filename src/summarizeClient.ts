@@ -0,0 +1,121 @@
+// src/summarizeClient.ts
+// Client for POST /api/summarize: streams the summary as it is written and
+// remembers finished ones for the rest of the session.
+import type { Citation } from "./figures";
+import { readSse } from "./sse";
+
+// Endpoint (override with VITE_SUMMARIZE_ENDPOINT if you like)
+const SUMMARIZE_ENDPOINT =
+  import.meta.env.VITE_SUMMARIZE_ENDPOINT || "/api/summarize";
+
+/** Give up when the server sends nothing for this long */
+const IDLE_TIMEOUT_MS = 20000;
+
+export type SummaryReply = {
+  summary: string;
+  provider: string;
+  citations: Citation[];
+  /** Served from the server's cache */
+  cached: boolean;
+};
+
+// --- robust JSON helpers to avoid "Unexpected end of JSON input" ---
+function parseJsonSafe(text: string | null) {
+  if (!text) return null;
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  const looksJson = trimmed.startsWith("{") || trimmed.startsWith("[");
+  if (!looksJson) return null;
+  try { return JSON.parse(trimmed); } catch { return null; }
+}
+
+function toReply(data: { summary?: unknown; provider?: unknown; citations?: unknown; cached?: unknown } | null): SummaryReply {
+  if (!data || typeof data.summary !== "string" || !data.summary) {
+    throw new Error("No summary field in server response.");
+  }
+  return {
+    summary: data.summary,
+    provider: String(data.provider ?? ""),
+    citations: Array.isArray(data.citations) ? (data.citations as Citation[]) : [],
+    cached: Boolean(data.cached),
+  };
+}
+
+// Finished summaries by request, so revisiting a slide doesn't ask again
+const replies = new Map<string, SummaryReply>();
+
+/** Cache key for one summary: the state, the slide, and the focus sent with it */
+export function summaryKey(state: string, slide: string, focus = ""): string {
+  return JSON.stringify([state, slide, focus]);
+}
+
+export function cachedSummary(key: string): SummaryReply | undefined {
+  return replies.get(key);
+}
+
+/**
+ * Request a summary, calling `onText` with each piece of text as it arrives.
+ * Resolves with the finished reply (also cached under `key`); rejects with an
+ * AbortError when `signal` fires, or an Error carrying the server's message.
+ */
+export async function streamSummary(
+  key: string,
+  body: Record<string, unknown>,
+  { signal, onText }: { signal?: AbortSignal; onText?: (text: string) => void } = {}
+): Promise<SummaryReply> {
+  const idle = new AbortController();
+  let timer = setTimeout(() => idle.abort(), IDLE_TIMEOUT_MS);
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => idle.abort(), IDLE_TIMEOUT_MS);
+  };
+
+  try {
+    const res = await fetch(SUMMARIZE_ENDPOINT, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+      body: JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, idle.signal]) : idle.signal,
+    });
+
+    // Errors before the stream starts, and servers that don't stream, answer in JSON
+    if (!res.ok || !res.body || !res.headers.get("Content-Type")?.startsWith("text/event-stream")) {
+      const text = await res.text();
+      const data = parseJsonSafe(text);
+      if (!res.ok) {
+        const msg =
+          (data && (data.error || (data.message as string))) ||
+          (text && text.trim()) ||
+          res.statusText ||
+          `HTTP ${res.status}`;
+        throw new Error(msg);
+      }
+      if (!data) throw new Error("Empty or non-JSON response from the summarize endpoint.");
+      const reply = toReply(data);
+      onText?.(reply.summary);
+      replies.set(key, reply);
+      return reply;
+    }
+
+    for await (const { event, data } of readSse(res.body)) {
+      touch();
+      const payload = parseJsonSafe(data);
+      if (event === "delta" && typeof payload?.text === "string") {
+        onText?.(payload.text);
+      } else if (event === "done") {
+        const reply = toReply(payload);
+        replies.set(key, reply);
+        return reply;
+      } else if (event === "error") {
+        throw new Error(payload?.error || "Failed to summarize");
+      }
+    }
+    throw new Error("The summary stream ended before it finished.");
+  } catch (e) {
+    // Report our own timeout as such; the caller's abort passes through
+    if (idle.signal.aborted && !signal?.aborted) throw new Error("Summarization timed out. Try again.");
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
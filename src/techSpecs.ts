@@ -0,0 +1,244 @@
+// src/techSpecs.ts
+// Technology specs for the renewables planner: built-in defaults, per-state
+// capacity factors and user-defined technologies (persisted in localStorage).
+import { DEFAULT_FINANCE, type FinanceSpec } from "./finance";
+
+/** Domain: we use daily energy for intuition
+ * energyFromUnits(MWh/day) = units * mwPerUnit * capacityFactor * 24
+ */
+export type TechSpec = {
+  unitName: string;
+  mwPerUnit: number;
+  capacityFactor: number;
+  costPerUnit: number;
+  maxUnits: number; // a soft cap; we will scale beyond if needed to reach 100%
+} & FinanceSpec;
+
+/** Battery block: charged from surplus solar/wind, discharged into fossil hours */
+export type StorageSpec = {
+  unitName: string;
+  mwhPerUnit: number;
+  mwPerUnit: number;
+  roundTripEfficiency: number;
+  costPerUnit: number;
+  maxUnits: number; // soft cap; raised to the fossil-clearing size when that is larger
+} & FinanceSpec;
+
+/**
+ * Hourly shape a custom technology follows: "firm" runs flat at its capacity
+ * factor; "solar"/"wind" borrow the state's SUN/WND shape.
+ */
+export type TechProfile = "firm" | "solar" | "wind";
+export const TECH_PROFILES: readonly TechProfile[] = ["firm", "solar", "wind"];
+
+/** A user-added technology (geothermal, SMR, offshore wind, …) */
+export type CustomTech = TechSpec & {
+  id: string;
+  name: string;
+  profile: TechProfile;
+  color: string;
+};
+
+export const DEFAULT_SOLAR: TechSpec = {
+  unitName: "MWdc solar block",
+  mwPerUnit: 5,
+  capacityFactor: 0.22,
+  costPerUnit: 8_000_000,
+  maxUnits: 200,
+  ...DEFAULT_FINANCE,
+  omRate: 0.015,
+  lifetimeYears: 30,
+  degradation: 0.005,
+};
+
+export const DEFAULT_WIND: TechSpec = {
+  unitName: "turbine (4 MW)",
+  mwPerUnit: 4,
+  capacityFactor: 0.38,
+  costPerUnit: 6_200_000,
+  maxUnits: 200,
+  ...DEFAULT_FINANCE,
+  omRate: 0.025,
+  degradation: 0.002,
+};
+
+export const DEFAULT_STORAGE: StorageSpec = {
+  unitName: "4-hour battery (100 MW)",
+  mwhPerUnit: 400,
+  mwPerUnit: 100,
+  roundTripEfficiency: 0.85,
+  costPerUnit: 140_000_000,
+  maxUnits: 100,
+  ...DEFAULT_FINANCE,
+  omRate: 0.025,
+  lifetimeYears: 15,
+  degradation: 0.02,
+};
+
+/**
+ * Typical annual capacity factors for new utility-scale solar (AC) and
+ * onshore wind. States with little or no wind fleet get a regional estimate.
+ */
+const STATE_CAPACITY_FACTORS: Record<string, { solar: number; wind: number }> = {
+  Alabama: { solar: 0.21, wind: 0.3 },
+  Alaska: { solar: 0.11, wind: 0.25 },
+  Arizona: { solar: 0.29, wind: 0.28 },
+  Arkansas: { solar: 0.21, wind: 0.35 },
+  California: { solar: 0.27, wind: 0.3 },
+  Colorado: { solar: 0.24, wind: 0.36 },
+  Connecticut: { solar: 0.17, wind: 0.3 },
+  Delaware: { solar: 0.19, wind: 0.3 },
+  Florida: { solar: 0.22, wind: 0.3 },
+  Georgia: { solar: 0.22, wind: 0.3 },
+  Hawaii: { solar: 0.2, wind: 0.33 },
+  Idaho: { solar: 0.24, wind: 0.3 },
+  Illinois: { solar: 0.19, wind: 0.35 },
+  Indiana: { solar: 0.19, wind: 0.32 },
+  Iowa: { solar: 0.19, wind: 0.38 },
+  Kansas: { solar: 0.23, wind: 0.43 },
+  Kentucky: { solar: 0.19, wind: 0.3 },
+  Louisiana: { solar: 0.21, wind: 0.33 },
+  Maine: { solar: 0.17, wind: 0.3 },
+  Maryland: { solar: 0.19, wind: 0.3 },
+  Massachusetts: { solar: 0.17, wind: 0.3 },
+  Michigan: { solar: 0.17, wind: 0.33 },
+  Minnesota: { solar: 0.18, wind: 0.36 },
+  Mississippi: { solar: 0.21, wind: 0.3 },
+  Missouri: { solar: 0.19, wind: 0.37 },
+  Montana: { solar: 0.2, wind: 0.37 },
+  Nebraska: { solar: 0.22, wind: 0.42 },
+  Nevada: { solar: 0.29, wind: 0.26 },
+  "New Hampshire": { solar: 0.16, wind: 0.29 },
+  "New Jersey": { solar: 0.18, wind: 0.3 },
+  "New Mexico": { solar: 0.28, wind: 0.4 },
+  "New York": { solar: 0.16, wind: 0.28 },
+  "North Carolina": { solar: 0.22, wind: 0.3 },
+  "North Dakota": { solar: 0.19, wind: 0.41 },
+  Ohio: { solar: 0.18, wind: 0.32 },
+  Oklahoma: { solar: 0.23, wind: 0.42 },
+  Oregon: { solar: 0.22, wind: 0.3 },
+  Pennsylvania: { solar: 0.17, wind: 0.3 },
+  "Rhode Island": { solar: 0.17, wind: 0.3 },
+  "South Carolina": { solar: 0.22, wind: 0.3 },
+  "South Dakota": { solar: 0.2, wind: 0.4 },
+  Tennessee: { solar: 0.2, wind: 0.26 },
+  Texas: { solar: 0.25, wind: 0.37 },
+  Utah: { solar: 0.27, wind: 0.28 },
+  Vermont: { solar: 0.16, wind: 0.29 },
+  Virginia: { solar: 0.21, wind: 0.3 },
+  Washington: { solar: 0.18, wind: 0.3 },
+  "West Virginia": { solar: 0.18, wind: 0.32 },
+  Wisconsin: { solar: 0.18, wind: 0.3 },
+  Wyoming: { solar: 0.23, wind: 0.38 },
+};
+
+/** Solar/wind defaults with the state's capacity factors (national defaults otherwise) */
+export function stateTechDefaults(state: string | undefined): { solar: TechSpec; wind: TechSpec } {
+  const cf = state ? STATE_CAPACITY_FACTORS[state] : undefined;
+  return {
+    solar: cf ? { ...DEFAULT_SOLAR, capacityFactor: cf.solar } : DEFAULT_SOLAR,
+    wind: cf ? { ...DEFAULT_WIND, capacityFactor: cf.wind } : DEFAULT_WIND,
+  };
+}
+
+/** Starting points offered in the settings drawer */
+export const TECH_PRESETS: Omit<CustomTech, "id" | "color">[] = [
+  {
+    name: "Geothermal",
+    profile: "firm",
+    unitName: "50 MW plant",
+    mwPerUnit: 50,
+    capacityFactor: 0.9,
+    costPerUnit: 275_000_000,
+    maxUnits: 40,
+    ...DEFAULT_FINANCE,
+    omRate: 0.03,
+    lifetimeYears: 30,
+  },
+  {
+    name: "Nuclear SMR",
+    profile: "firm",
+    unitName: "77 MW module",
+    mwPerUnit: 77,
+    capacityFactor: 0.93,
+    costPerUnit: 700_000_000,
+    maxUnits: 40,
+    ...DEFAULT_FINANCE,
+    omRate: 0.03,
+    lifetimeYears: 60,
+  },
+  {
+    name: "Offshore wind",
+    profile: "wind",
+    unitName: "15 MW turbine",
+    mwPerUnit: 15,
+    capacityFactor: 0.45,
+    costPerUnit: 60_000_000,
+    maxUnits: 200,
+    ...DEFAULT_FINANCE,
+    omRate: 0.03,
+    degradation: 0.002,
+  },
+];
+
+/** Colours handed to custom techs in order (clear of the built-in slices) */
+const CUSTOM_TECH_COLORS = ["#f472b6", "#a3e635", "#fb923c", "#22d3ee", "#e879f9", "#facc15"];
+
+/** First palette colour not already taken by another custom tech */
+export function nextTechColor(techs: CustomTech[]): string {
+  const used = new Set(techs.map((t) => t.color));
+  return CUSTOM_TECH_COLORS.find((c) => !used.has(c)) ?? CUSTOM_TECH_COLORS[techs.length % CUSTOM_TECH_COLORS.length];
+}
+
+const STORAGE_KEY = "rizz.planner.techs";
+
+const SPEC_NUMBERS = ["mwPerUnit", "capacityFactor", "costPerUnit", "maxUnits"] as const;
+const FINANCE_NUMBERS = Object.keys(DEFAULT_FINANCE) as (keyof FinanceSpec)[];
+
+/**
+ * What is wrong with a stored or imported custom tech; empty when it is
+ * usable. Financing fields may be missing (entries saved before they
+ * existed pick up DEFAULT_FINANCE) but not malformed.
+ */
+export function customTechProblems(v: unknown): string[] {
+  if (typeof v !== "object" || v == null || Array.isArray(v)) return ["not an object"];
+  const t = v as Record<string, unknown>;
+  const problems: string[] = [];
+  for (const key of ["id", "name", "unitName", "color"] as const) {
+    if (typeof t[key] !== "string" || !(t[key] as string).trim()) problems.push(`missing ${key}`);
+  }
+  if (!TECH_PROFILES.includes(t.profile as TechProfile)) problems.push(`profile must be one of ${TECH_PROFILES.join(", ")}`);
+  for (const key of SPEC_NUMBERS) {
+    const n = t[key];
+    if (typeof n !== "number" || !Number.isFinite(n) || n < 0) problems.push(`${key} must be a non-negative number`);
+  }
+  // Anything above 1 would generate more than nameplate
+  const cf = t.capacityFactor;
+  if (typeof cf === "number" && cf > 1) problems.push("capacityFactor must be at most 1");
+  for (const key of FINANCE_NUMBERS) {
+    const n = t[key];
+    if (n !== undefined && (typeof n !== "number" || !Number.isFinite(n))) problems.push(`${key} must be a number`);
+  }
+  return problems;
+}
+
+/** A checked entry with financing defaults filled in */
+export const withFinanceDefaults = (t: CustomTech): CustomTech => ({ ...DEFAULT_FINANCE, ...t });
+
+export function loadCustomTechs(): CustomTech[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    // Unusable entries are dropped rather than breaking the planner
+    return Array.isArray(parsed)
+      ? parsed.filter((t) => !customTechProblems(t).length).map((t) => withFinanceDefaults(t as CustomTech))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomTechs(techs: CustomTech[]) {
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(techs)); } catch { /* storage full or disabled */ }
+}
@@ -0,0 +1,39 @@
+// src/timeZones.test.ts
+import { describe, expect, it } from "vitest";
+import { utcOffsetFor } from "./dispatch";
+import { localTime, stateTimeZone, utcOffsetHours } from "./timeZones";
+
+describe("utcOffsetHours", () => {
+  it("follows daylight time", () => {
+    expect(utcOffsetHours(new Date("2025-09-29T12:00:00Z"), "America/Chicago")).toBe(-5);
+    expect(utcOffsetHours(new Date("2025-12-29T12:00:00Z"), "America/Chicago")).toBe(-6);
+    expect(utcOffsetHours(new Date("2025-09-29T12:00:00Z"), "UTC")).toBe(0);
+    expect(utcOffsetHours(new Date("2025-09-29T12:00:00Z"), "Asia/Kolkata")).toBe(5.5);
+  });
+});
+
+describe("utcOffsetFor", () => {
+  const at = "2025-09-29 01:00:00+00:00";
+  it("uses the state's zone at the data's date", () => {
+    expect(utcOffsetFor("Texas", at)).toBe(-5);
+    expect(utcOffsetFor("Arizona", at)).toBe(-7);
+    expect(utcOffsetFor("Hawaii", at)).toBe(-10);
+    expect(utcOffsetFor("Texas", "2025-12-29 01:00:00+00:00")).toBe(-6);
+  });
+
+  it("falls back to Eastern time", () => {
+    expect(utcOffsetFor(undefined, at)).toBe(-4);
+    expect(utcOffsetFor("Atlantis", at)).toBe(-4);
+  });
+});
+
+describe("localTime", () => {
+  it("gives the state's calendar date, hour and zone", () => {
+    expect(localTime(new Date("2025-09-30T03:00:00Z"), stateTimeZone("Texas"))).toEqual({
+      date: "2025-09-29",
+      hour: 22,
+      weekday: "Mon",
+      zone: "CDT",
+    });
+  });
+});
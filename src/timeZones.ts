@@ -0,0 +1,112 @@
+// src/timeZones.ts
+// Local time for each state's grid data. The CSVs are in UTC; questions like
+// "at night" or "next Tuesday", and the planner's synthetic solar shape, use
+// the state's own clock. States split across zones use the zone most of
+// their load is in.
+
+export const STATE_TIME_ZONES: Record<string, string> = {
+  Alabama: "America/Chicago",
+  Alaska: "America/Anchorage",
+  Arizona: "America/Phoenix",
+  Arkansas: "America/Chicago",
+  California: "America/Los_Angeles",
+  Colorado: "America/Denver",
+  Connecticut: "America/New_York",
+  Delaware: "America/New_York",
+  Florida: "America/New_York",
+  Georgia: "America/New_York",
+  Hawaii: "Pacific/Honolulu",
+  Idaho: "America/Boise",
+  Illinois: "America/Chicago",
+  Indiana: "America/Indiana/Indianapolis",
+  Iowa: "America/Chicago",
+  Kansas: "America/Chicago",
+  Kentucky: "America/New_York",
+  Louisiana: "America/Chicago",
+  Maine: "America/New_York",
+  Maryland: "America/New_York",
+  Massachusetts: "America/New_York",
+  Michigan: "America/Detroit",
+  Minnesota: "America/Chicago",
+  Mississippi: "America/Chicago",
+  Missouri: "America/Chicago",
+  Montana: "America/Denver",
+  Nebraska: "America/Chicago",
+  Nevada: "America/Los_Angeles",
+  "New Hampshire": "America/New_York",
+  "New Jersey": "America/New_York",
+  "New Mexico": "America/Denver",
+  "New York": "America/New_York",
+  "North Carolina": "America/New_York",
+  "North Dakota": "America/Chicago",
+  Ohio: "America/New_York",
+  Oklahoma: "America/Chicago",
+  Oregon: "America/Los_Angeles",
+  Pennsylvania: "America/New_York",
+  "Rhode Island": "America/New_York",
+  "South Carolina": "America/New_York",
+  "South Dakota": "America/Chicago",
+  Tennessee: "America/Chicago",
+  Texas: "America/Chicago",
+  Utah: "America/Denver",
+  Vermont: "America/New_York",
+  Virginia: "America/New_York",
+  Washington: "America/Los_Angeles",
+  "West Virginia": "America/New_York",
+  Wisconsin: "America/Chicago",
+  Wyoming: "America/Denver",
+};
+
+/** IANA zone for a state folder name; UTC when we don't know it */
+export function stateTimeZone(state: string): string {
+  return STATE_TIME_ZONES[state] ?? "UTC";
+}
+
+export type LocalTime = {
+  /** YYYY-MM-DD on the local calendar */
+  date: string;
+  /** 0-23 */
+  hour: number;
+  /** "Mon" … "Sun" */
+  weekday: string;
+  /** e.g. "CDT" */
+  zone: string;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Calendar date, hour and zone abbreviation of an instant in `timeZone` */
+export function localTime(d: Date, timeZone: string): LocalTime {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric", month: "2-digit", day: "2-digit",
+      hour: "2-digit", hourCycle: "h23", weekday: "short", timeZoneName: "short",
+    });
+    formatters.set(timeZone, f);
+  }
+  const parts = Object.fromEntries(f.formatToParts(d).map((p) => [p.type, p.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    weekday: parts.weekday,
+    zone: parts.timeZoneName,
+  };
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Hours east of UTC in `timeZone` at instant `d` (e.g. -5 for CDT, 5.5 for IST) */
+export function utcOffsetHours(d: Date, timeZone: string): number {
+  let f = offsetFormatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" });
+    offsetFormatters.set(timeZone, f);
+  }
+  // "GMT-05:00", or plain "GMT" at UTC
+  const name = f.formatToParts(d).find((p) => p.type === "timeZoneName")?.value ?? "";
+  const m = name.match(/GMT([+-])(\d{1,2}):?(\d{2})?/);
+  if (!m) return 0;
+  return (m[1] === "-" ? -1 : 1) * (Number(m[2]) + Number(m[3] ?? 0) / 60);
+}
@@ -0,0 +1,67 @@
+// src/useHourlyIntensity.ts
+import { useEffect, useState } from "react";
+import { STATE_NAMES, hasStateFile, loadStateFile } from "./stateData";
+
+export type HourlyIntensity = {
+  /** Union of all states' timestamps, sorted ascending (UTC strings) */
+  timestamps: string[];
+  /** Per state name, aligned to `timestamps`; null where a state has no row */
+  byState: Record<string, { ci: (number | null)[]; fossilShare: (number | null)[] }>;
+  /** States whose file failed to load or validate; they show as no data */
+  failed: string[];
+};
+
+/**
+ * Loads hourly carbon intensity for all states (once `enabled` turns true) and
+ * aligns the series on a shared timestamp axis. One bad state file only
+ * leaves that state blank; `error` is set when none load.
+ */
+export function useHourlyIntensity(enabled: boolean) {
+  const [data, setData] = useState<HourlyIntensity | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    if (!enabled || data) return;
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    (async () => {
+      try {
+        const states = STATE_NAMES.filter((s) => hasStateFile(s, "hourlySummary"));
+        const results = await Promise.allSettled(states.map((state) => loadStateFile(state, "hourlySummary")));
+        const entries = results.flatMap((r, i) => (r.status === "fulfilled" ? [[states[i], r.value] as const] : []));
+        const failed = states.filter((_, i) => results[i].status === "rejected");
+        if (!entries.length) throw new Error("No state's hourly carbon intensity could be loaded");
+        const all = new Set<string>();
+        for (const [, rows] of entries) for (const r of rows) all.add(r.timestamp_utc);
+        const timestamps = [...all].sort();
+        const index = new Map(timestamps.map((ts, i) => [ts, i]));
+
+        const byState: HourlyIntensity["byState"] = {};
+        for (const [state, rows] of entries) {
+          const ci = new Array<number | null>(timestamps.length).fill(null);
+          const fossilShare = new Array<number | null>(timestamps.length).fill(null);
+          for (const r of rows) {
+            const i = index.get(r.timestamp_utc);
+            if (i == null) continue;
+            ci[i] = r.ci_g_per_kwh;
+            fossilShare[i] = r.fossil_share;
+          }
+          byState[state] = { ci, fossilShare };
+        }
+        if (!cancelled) setData({ timestamps, byState, failed });
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load hourly carbon intensity");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+      setLoading(false);
+    };
+  }, [enabled, data]);
+
+  return { data, loading, error } as const;
+}
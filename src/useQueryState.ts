@@ -0,0 +1,73 @@
+// src/useQueryState.ts
+// Query-string backed UI state. The URL is the source of truth so a reload or
+// a shared link restores the view, and back/forward replays it.
+import { useMemo, useSyncExternalStore } from "react";
+
+/** Query parameter names, kept in one place so components don't collide */
+export const QUERY_KEYS = {
+  state: "state",
+  slide: "slide",
+  lightbox: "lightbox",
+  solarUnits: "solar",
+  windUnits: "wind",
+  storageUnits: "storage",
+  /** Social cost of carbon, $/t CO₂ */
+  carbonPrice: "scc",
+  /** Custom technology units: `u_<techId>` */
+  techUnitsPrefix: "u_",
+} as const;
+
+/**
+ * "push" adds a history entry (discrete navigation: picking a state, opening
+ * the lightbox); "replace" rewrites the current one (continuous input such as
+ * slider drags, so Back doesn't step through every tick).
+ */
+export type HistoryMode = "push" | "replace";
+
+const CHANGE_EVENT = "querystatechange";
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener(CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener(CHANGE_EVENT, onChange);
+  };
+}
+
+const getSearch = () => window.location.search;
+
+/** Current query parameters; re-renders on navigation and on updateQuery */
+export function useQueryParams(): URLSearchParams {
+  const search = useSyncExternalStore(subscribe, getSearch, () => "");
+  return useMemo(() => new URLSearchParams(search), [search]);
+}
+
+/** Set (string) or remove (null) several parameters in one history step */
+export function updateQuery(patch: Record<string, string | null>, mode: HistoryMode = "push") {
+  const params = new URLSearchParams(window.location.search);
+  for (const [k, v] of Object.entries(patch)) {
+    if (v == null || v === "") params.delete(k);
+    else params.set(k, v);
+  }
+  const search = params.toString();
+  if (`?${search}` === window.location.search || (!search && !window.location.search)) return;
+  const url = `${window.location.pathname}${search ? `?${search}` : ""}${window.location.hash}`;
+  if (mode === "push") window.history.pushState(null, "", url);
+  else window.history.replaceState(null, "", url);
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/** Non-negative integer parameter, or `fallback` when absent/invalid */
+export function readInt(params: URLSearchParams, key: string, fallback = 0): number {
+  const n = Number(params.get(key));
+  return params.has(key) && Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
+
+/** Finite number parameter, or undefined when absent/invalid */
+export function readNumber(params: URLSearchParams, key: string): number | undefined {
+  const raw = params.get(key);
+  if (raw == null || raw.trim() === "") return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : undefined;
+}
@@ -0,0 +1,97 @@
+// src/useStateData.ts
+import { useEffect, useState } from "react";
+import { loadByKey, loadStateFile, nationalKey, peekCached, stateKey } from "./stateData";
+import type { NationalData, NationalKind, StateFileData, StateFileKind } from "./stateSchema";
+
+export type DataState<T> = {
+  data: T | null;
+  error: Error | null;
+  loading: boolean;
+};
+
+function useCachedDataset<T>(key: string | null): DataState<T> {
+  const [state, setState] = useState<DataState<T> & { key: string | null }>(() => {
+    const hit = key ? peekCached<T>(key) : undefined;
+    return { key, data: hit ?? null, error: null, loading: !!key && hit === undefined };
+  });
+
+  useEffect(() => {
+    if (!key) {
+      setState({ key, data: null, error: null, loading: false });
+      return;
+    }
+    const hit = peekCached<T>(key);
+    if (hit !== undefined) {
+      setState({ key, data: hit, error: null, loading: false });
+      return;
+    }
+    let cancelled = false;
+    setState({ key, data: null, error: null, loading: true });
+    loadByKey(key).then(
+      (data) => { if (!cancelled) setState({ key, data: data as T, error: null, loading: false }); },
+      (e: unknown) => {
+        if (!cancelled) {
+          setState({ key, data: null, error: e instanceof Error ? e : new Error(String(e)), loading: false });
+        }
+      }
+    );
+    return () => { cancelled = true; };
+  }, [key]);
+
+  // Never hand back data that belongs to a previous key
+  if (state.key !== key) return { data: null, error: null, loading: !!key };
+  return { data: state.data, error: state.error, loading: state.loading };
+}
+
+/** Typed, validated, cached file from src/states/<state>/ */
+export function useStateFile<K extends StateFileKind>(
+  state: string | null | undefined,
+  kind: K
+): DataState<StateFileData[K]> {
+  return useCachedDataset<StateFileData[K]>(state ? stateKey(state, kind) : null);
+}
+
+/** Typed, validated, cached national CSV from src/data/ */
+export function useNationalData<K extends NationalKind>(kind: K): DataState<NationalData[K]> {
+  return useCachedDataset<NationalData[K]>(nationalKey(kind));
+}
+
+/** Same file kind for several states at once; failures are reported per state */
+export function useStateFiles<K extends StateFileKind>(
+  states: string[],
+  kind: K
+): { data: Record<string, StateFileData[K]>; errors: Record<string, Error>; loading: boolean } {
+  const id = states.join("|");
+  const [state, setState] = useState<{
+    id: string;
+    data: Record<string, StateFileData[K]>;
+    errors: Record<string, Error>;
+  }>({ id: "", data: {}, errors: {} });
+
+  useEffect(() => {
+    let cancelled = false;
+    const names = id ? id.split("|") : [];
+    Promise.allSettled(names.map((s) => loadStateFile(s, kind))).then((results) => {
+      if (cancelled) return;
+      const data: Record<string, StateFileData[K]> = {};
+      const errors: Record<string, Error> = {};
+      results.forEach((r, i) => {
+        if (r.status === "fulfilled") data[names[i]] = r.value;
+        else errors[names[i]] = r.reason instanceof Error ? r.reason : new Error(String(r.reason));
+      });
+      setState({ id, data, errors });
+    });
+    return () => { cancelled = true; };
+  }, [id, kind]);
+
+  if (state.id !== id) {
+    // Serve whatever is already cached while the rest loads
+    const data: Record<string, StateFileData[K]> = {};
+    for (const s of states) {
+      const hit = peekCached<StateFileData[K]>(stateKey(s, kind));
+      if (hit !== undefined) data[s] = hit;
+    }
+    return { data, errors: {}, loading: states.length > 0 };
+  }
+  return { data: state.data, errors: state.errors, loading: false };
+}
@@ -0,0 +1,61 @@
+// src/useUsTopology.ts
+import { useCallback, useEffect, useState } from "react";
+import type { Topology, GeometryCollection, Polygon, MultiPolygon } from "topojson-specification";
+
+// Bundled with the app (no CDN): Vite copies the files and gives us their URLs.
+// The low-resolution outline is generated by scripts/simplify-topology.ts.
+import statesTopoUrl from "us-atlas/states-10m.json?url";
+import statesLowTopoUrl from "./assets/states-low.json?url";
+
+export type USObjects = { states: GeometryCollection<Polygon | MultiPolygon> };
+export type USTopology = Topology<USObjects>;
+
+/** "auto" uses the low-resolution outline on narrow (mobile) screens */
+export type TopologyResolution = "auto" | "full" | "low";
+export const TOPOLOGY_RESOLUTIONS: readonly TopologyResolution[] = ["auto", "full", "low"];
+
+export type TopologyStatus = "loading" | "ready" | "error";
+
+function wantsLowRes(resolution: TopologyResolution): boolean {
+  if (resolution !== "auto") return resolution === "low";
+  return typeof window !== "undefined" && window.matchMedia?.("(max-width: 640px)").matches === true;
+}
+
+/**
+ * Loads the self-hosted US states topology with explicit loading/error states.
+ * `retry` re-requests the asset after a failure.
+ */
+export function useUsTopology(resolution: TopologyResolution = "auto") {
+  const [topology, setTopology] = useState<USTopology | null>(null);
+  const [status, setStatus] = useState<TopologyStatus>("loading");
+  const [error, setError] = useState<string>("");
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let aborted = false;
+    setStatus("loading");
+    setError("");
+    (async () => {
+      try {
+        const resp = await fetch(wantsLowRes(resolution) ? statesLowTopoUrl : statesTopoUrl);
+        if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+        const topo = (await resp.json()) as USTopology;
+        if (!topo?.objects?.states) throw new Error("Topology has no states layer");
+        if (!aborted) {
+          setTopology(topo);
+          setStatus("ready");
+        }
+      } catch (e) {
+        if (!aborted) {
+          setError(e instanceof Error ? e.message : String(e));
+          setStatus("error");
+        }
+      }
+    })();
+    return () => { aborted = true; };
+  }, [resolution, attempt]);
+
+  const retry = useCallback(() => setAttempt((a) => a + 1), []);
+
+  return { topology, status, error, retry } as const;
+}